@@ -3,20 +3,64 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 
 import commentRoutes from './routes/commentRoutes';
+import videoRoutes from './routes/videoRoutes';
+import channelRoutes from './routes/channelRoutes';
+import userRoutes from './routes/userRoutes';
+import metricsRoutes from './routes/metricsRoutes';
+import { authenticate } from './middleware/auth';
+import { notFoundHandler, errorHandler } from './middleware/errorHandler';
+import { startTombstonePurge } from './jobs/tombstonePurge';
+import { startScoreRefresh } from './jobs/scoreRefresh';
+import { startErasureResume } from './jobs/erasureResume';
+import { attachCommentSocket } from './realtime/commentSocket';
+import { rateLimitConfig } from './config/rateLimit';
+import { storageConfig } from './config/storage';
+import { assertCursorSecret } from './config/cursors';
+import { assertSchemaUpToDate } from './services/migrationService';
 
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 4000;
 
+// Client IPs for rate limiting come from X-Forwarded-For only behind trusted proxies
+app.set('trust proxy', rateLimitConfig.trustProxyHops);
+
 app.use(cors());
 app.use(express.json());
+app.use(authenticate);
 
 // Routes
 app.use('/api/comments', commentRoutes);
+app.use('/api/videos', videoRoutes);
+app.use('/api/channels', channelRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/metrics', metricsRoutes);
 
-// Listen server
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-});
+// Error envelope for unmatched routes and uncaught errors
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+// Listen server, once the database schema is current (migrations are applied with
+// npm run migrate -- up, never on startup)
+const start = async (): Promise<void> => {
+  assertCursorSecret();
+  if (storageConfig.backend === 'scylla') {
+    await assertSchemaUpToDate();
+  }
 
+  const server = app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+    startTombstonePurge();
+    startScoreRefresh();
+    startErasureResume();
+  });
+
+  // WebSocket comment streams share the HTTP server
+  attachCommentSocket(server);
+};
+
+start().catch(error => {
+  console.error('Server failed to start:', error);
+  process.exit(1);
+});
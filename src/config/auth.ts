@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface AuthConfig {
+  secret: string;
+  issuer?: string | undefined;
+  moderatorRole: string;
+}
+
+export const authConfig: AuthConfig = {
+  secret: process.env.AUTH_SECRET?.replace(/"/g, '') || '',
+  issuer: process.env.AUTH_ISSUER?.replace(/"/g, '') || undefined,
+  moderatorRole: process.env.AUTH_MODERATOR_ROLE?.replace(/"/g, '') || 'moderator'
+};
@@ -0,0 +1,25 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface ContentFilterConfig {
+  blockedWords: string[];
+  reviewWords: string[];
+  maxLength: number;
+  maxLinks: number;
+  maxMentions: number;
+  duplicateWindowMinutes: number;
+}
+
+// Comma-separated word list; '*' matches any run of letters
+const parseWordList = (value?: string): string[] =>
+  (value || '').split(',').map(word => word.trim().toLowerCase()).filter(Boolean);
+
+export const contentFilterConfig: ContentFilterConfig = {
+  blockedWords: parseWordList(process.env.CONTENT_BLOCKED_WORDS),
+  reviewWords: parseWordList(process.env.CONTENT_REVIEW_WORDS),
+  maxLength: parseInt(process.env.CONTENT_MAX_LENGTH || '10000'),
+  maxLinks: parseInt(process.env.CONTENT_MAX_LINKS || '2'),
+  maxMentions: parseInt(process.env.CONTENT_MAX_MENTIONS || '5'),
+  duplicateWindowMinutes: parseInt(process.env.CONTENT_DUPLICATE_WINDOW_MINUTES || '60')
+};
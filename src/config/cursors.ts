@@ -0,0 +1,31 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface CursorConfig {
+  // Key cursors are signed with; falls back to AUTH_SECRET
+  secret: string;
+  // Age after which a cursor is refused and the client has to start from page one
+  ttlSeconds: number;
+  // Unsigned cursors from before signing are accepted until then
+  legacyUntil: Date;
+}
+
+const ttlSeconds = parseInt(process.env.CURSOR_TTL_SECONDS || '86400');
+
+// Unset, unsigned cursors are taken for one cursor lifetime after the process starts, by which
+// time any handed out before signing would have expired anyway
+const legacyUntil = process.env.CURSOR_LEGACY_UNTIL ? new Date(process.env.CURSOR_LEGACY_UNTIL) : null;
+
+export const cursorConfig: CursorConfig = {
+  secret: (process.env.CURSOR_SECRET || process.env.AUTH_SECRET || '').replace(/"/g, ''),
+  ttlSeconds,
+  legacyUntil: legacyUntil && !isNaN(legacyUntil.getTime()) ? legacyUntil : new Date(Date.now() + ttlSeconds * 1000)
+};
+
+// Cursors signed with an empty key could be forged by anyone, so the app doesn't start without one
+export const assertCursorSecret = (): void => {
+  if (!cursorConfig.secret) {
+    throw new Error('No key to sign pagination cursors with, set CURSOR_SECRET or AUTH_SECRET');
+  }
+};
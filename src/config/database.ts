@@ -3,12 +3,23 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+export type ReplicationStrategy = 'SimpleStrategy' | 'NetworkTopologyStrategy';
+
+export interface ReplicationConfig {
+  strategy: ReplicationStrategy;
+  // Copies of each row under SimpleStrategy
+  replicationFactor: number;
+  // Copies of each row per datacenter under NetworkTopologyStrategy
+  datacenters: Record<string, number>;
+}
+
 export interface DatabaseConfig {
   hosts: string[];
   keyspace: string;
   username?: string | undefined;
   password?: string | undefined;
   datacenter: string;
+  replication: ReplicationConfig;
 }
 
 let hosts: string[] = ['43.204.81.81'];
@@ -21,25 +32,41 @@ try {
   hosts = process.env.SCYLLA_HOSTS?.replace(/[\[\]"]+/g, '').split(',') || ['43.204.81.81'];
 }
 
+const datacenter = process.env.SCYLLA_DATACENTER?.replace(/"/g, '') || 'datacenter1';
+const replicationFactor = parseInt(process.env.SCYLLA_REPLICATION_FACTOR || '1');
+
+// "dc1:3,dc2:3"; defaults to the local datacenter with SCYLLA_REPLICATION_FACTOR copies
+const parseDatacenters = (value: string | undefined): Record<string, number> => {
+  if (!value) return { [datacenter]: replicationFactor };
+
+  const datacenters: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [name, factor] = entry.split(':').map(part => part.trim());
+    if (name) datacenters[name] = parseInt(factor || String(replicationFactor));
+  }
+  return datacenters;
+};
+
 export const databaseConfig: DatabaseConfig = {
   hosts,
   keyspace: process.env.SCYLLA_KEYSPACE?.replace(/"/g, '') || 'youtube_comments_cluster',
   username: process.env.SCYLLA_USERNAME?.replace(/"/g, ''),
   password: process.env.SCYLLA_PASSWORD?.replace(/"/g, ''),
-  datacenter: process.env.SCYLLA_DATACENTER?.replace(/"/g, '') || 'datacenter1'
+  datacenter,
+  replication: {
+    strategy: process.env.SCYLLA_REPLICATION_STRATEGY === 'NetworkTopologyStrategy' ? 'NetworkTopologyStrategy' : 'SimpleStrategy',
+    replicationFactor,
+    datacenters: parseDatacenters(process.env.SCYLLA_REPLICATION_DATACENTERS)
+  }
 };
 
 let client: Client | null = null;
 
-export async function connectToDatabase(): Promise<Client> {
-  if (client) {
-    return client;
-  }
-
+function buildClientOptions(keyspace?: string): any {
   const clientOptions: any = {
     contactPoints: databaseConfig.hosts,
     localDataCenter: databaseConfig.datacenter,
-    keyspace: databaseConfig.keyspace,
+    keyspace,
   };
 
   if (databaseConfig.username && databaseConfig.password) {
@@ -49,138 +76,74 @@ export async function connectToDatabase(): Promise<Client> {
     );
   }
 
-  client = new Client(clientOptions);
+  return clientOptions;
+}
+
+// Connect to the keyspace. Its tables come from the migrations (npm run migrate -- up),
+// never from connecting.
+export async function connectToDatabase(): Promise<Client> {
+  if (client) {
+    return client;
+  }
+
+  client = new Client(buildClientOptions(databaseConfig.keyspace));
 
   try {
     await client.connect();
     console.log('Database connection established successfully');
-
-    // Create keyspace if it doesn't exist
-    await createKeyspace();
-
-    // Create tables and indexing tables
-    await createTables();
-
     return client;
   } catch (error) {
     console.error('Failed to connect to Scylla DB:', error);
+    client = null;
     throw error;
   }
 }
 
-async function createKeyspace(): Promise<void> {
-  if (!client) throw new Error('Database client not initialized');
-
-  const createKeyspaceQuery = `
-    CREATE KEYSPACE IF NOT EXISTS ${databaseConfig.keyspace}
-    WITH replication = {
-      'class': 'SimpleStrategy',
-      'replication_factor': 3
-    }
-  `;
+// The replication map of CREATE KEYSPACE for the configured strategy
+function replicationClause(replication: ReplicationConfig): string {
+  if (replication.strategy === 'SimpleStrategy') {
+    return `{'class': 'SimpleStrategy', 'replication_factor': ${replication.replicationFactor}}`;
+  }
 
-  await client.execute(createKeyspaceQuery);
-  console.log(`Keyspace ${databaseConfig.keyspace} ensured`);
+  const datacenters = Object.entries(replication.datacenters)
+    .map(([name, factor]) => `'${name.replace(/'/g, "''")}': ${factor}`);
+  return `{'class': 'NetworkTopologyStrategy', ${datacenters.join(', ')}}`;
 }
 
-async function createTables(): Promise<void> {
-  if (!client) throw new Error('Database client not initialized');
-
-  // Original Comments table
-  const createCommentsTable = `
-    CREATE TABLE IF NOT EXISTS ${databaseConfig.keyspace}.comments (
-      id UUID PRIMARY KEY,
-      video_id TEXT,
-      user_id TEXT,
-      content TEXT,
-      likes BIGINT,
-      dislikes BIGINT,
-      created_at TIMESTAMP,
-      reply_count BIGINT
-    )
-  `;
-
-  // Original Replies table
-  const createRepliesTable = `
-    CREATE TABLE IF NOT EXISTS ${databaseConfig.keyspace}.replies (
-      id UUID PRIMARY KEY,
-      comment_id UUID,
-      user_id TEXT,
-      content TEXT,
-      likes BIGINT,
-      dislikes BIGINT,
-      created_at TIMESTAMP
-    )
-  `;
-
-  // Manual indexing table for comments by video and time
-  const createCommentsByVideoTimeTable = `
-    CREATE TABLE IF NOT EXISTS ${databaseConfig.keyspace}.comments_by_video_time (
-      video_id TEXT,
-      created_at TIMESTAMP,
-      id UUID,
-      user_id TEXT,
-      content TEXT,
-      likes BIGINT,
-      dislikes BIGINT,
-      reply_count BIGINT,
-      PRIMARY KEY (video_id, created_at, id)
-    ) WITH CLUSTERING ORDER BY (created_at DESC, id DESC)
-  `;
-
-  // Manual indexing table for replies by comment and time
-  const createRepliesByCommentTimeTable = `
-    CREATE TABLE IF NOT EXISTS ${databaseConfig.keyspace}.replies_by_comment_time (
-      comment_id UUID,
-      created_at TIMESTAMP,
-      id UUID,
-      user_id TEXT,
-      content TEXT,
-      likes BIGINT,
-      dislikes BIGINT,
-      PRIMARY KEY (comment_id, created_at, id)
-    ) WITH CLUSTERING ORDER BY (created_at DESC, id DESC)
-  `;
-
-  // Indexes for the original tables
-  const createCommentsVideoIdIndex = `
-    CREATE INDEX IF NOT EXISTS ON ${databaseConfig.keyspace}.comments (video_id)
-  `;
-  const createCommentsCreatedAtIndex = `
-    CREATE INDEX IF NOT EXISTS ON ${databaseConfig.keyspace}.comments (created_at)
-  `;
-  const createRepliesCommentIdIndex = `
-    CREATE INDEX IF NOT EXISTS ON ${databaseConfig.keyspace}.replies (comment_id)
-  `;
-  const createRepliesCreatedAtIndex = `
-    CREATE INDEX IF NOT EXISTS ON ${databaseConfig.keyspace}.replies (created_at)
-  `;
+// Create the keyspace with the configured replication if it doesn't exist yet, through a
+// connection of its own since the shared one is bound to the keyspace
+export async function ensureKeyspace(): Promise<void> {
+  const { replication } = databaseConfig;
+  if (replication.strategy === 'NetworkTopologyStrategy' && Object.keys(replication.datacenters).length === 0) {
+    throw new Error('NetworkTopologyStrategy needs at least one datacenter in SCYLLA_REPLICATION_DATACENTERS');
+  }
 
+  const adminClient = new Client(buildClientOptions());
   try {
-    // Create original tables first
-    await client.execute(createCommentsTable);
-    await client.execute(createRepliesTable);
-    console.log('Original tables created successfully');
-
-    // Create indexing tables
-    await client.execute(createCommentsByVideoTimeTable);
-    await client.execute(createRepliesByCommentTimeTable);
-    console.log('Indexing tables created successfully');
-
-    // Create indexes
-    await client.execute(createCommentsVideoIdIndex);
-    await client.execute(createCommentsCreatedAtIndex);
-    await client.execute(createRepliesCommentIdIndex);
-    await client.execute(createRepliesCreatedAtIndex);
-    console.log('Indexes created successfully');
-
-    console.log('Database schema initialized successfully');
-  } catch (error) {
-    console.error('Error creating database schema:', error);
-    throw error;
+    await adminClient.connect();
+    await adminClient.execute(
+      `CREATE KEYSPACE IF NOT EXISTS ${databaseConfig.keyspace} WITH replication = ${replicationClause(replication)}`
+    );
+    console.log(`Keyspace ${databaseConfig.keyspace} ensured`);
+  } finally {
+    await adminClient.shutdown();
   }
 }
 
+// One write of a multi-table batch
+export interface BatchStatement {
+  query: string;
+  params: unknown[];
+}
+
+// Apply writes to several tables as one logged batch. Once the coordinator has logged it,
+// every statement is applied (replayed if a replica was down), so an item's base row and
+// its indexing rows can't end up disagreeing the way two independent writes can.
+export async function executeLoggedBatch(statements: BatchStatement[]): Promise<void> {
+  const db = await connectToDatabase();
+  await db.batch(statements, { prepare: true, logged: true });
+}
+
 export async function disconnectFromDatabase(): Promise<void> {
   if (client) {
     await client.shutdown();
@@ -0,0 +1,16 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface ErasureConfig {
+  batchSize: number;
+  // A running erasure that has not checkpointed for this long is taken over and resumed
+  staleSeconds: number;
+  resumeIntervalMinutes: number;
+}
+
+export const erasureConfig: ErasureConfig = {
+  batchSize: parseInt(process.env.ERASURE_BATCH_SIZE || '100'),
+  staleSeconds: parseInt(process.env.ERASURE_STALE_SECONDS || '300'),
+  resumeIntervalMinutes: parseInt(process.env.ERASURE_RESUME_INTERVAL_MINUTES || '5')
+};
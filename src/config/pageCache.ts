@@ -0,0 +1,18 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface PageCacheConfig {
+  enabled: boolean;
+  // How long a cached first page may be served; also bounds staleness on other instances,
+  // which don't see this instance's invalidations
+  ttlSeconds: number;
+  // Least recently used pages are evicted beyond this many
+  maxEntries: number;
+}
+
+export const pageCacheConfig: PageCacheConfig = {
+  enabled: process.env.PAGE_CACHE_ENABLED !== 'false',
+  ttlSeconds: parseInt(process.env.PAGE_CACHE_TTL_SECONDS || '10'),
+  maxEntries: parseInt(process.env.PAGE_CACHE_MAX_ENTRIES || '10000')
+};
@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface RankingConfig {
+  defaultStrategy: string;
+  scoreRefreshIntervalMinutes: number;
+  scoreRefreshPageSize: number;
+}
+
+export const rankingConfig: RankingConfig = {
+  defaultStrategy: process.env.RANKING_DEFAULT_STRATEGY?.replace(/"/g, '') || 'classic',
+  scoreRefreshIntervalMinutes: parseInt(process.env.SCORE_REFRESH_INTERVAL_MINUTES || '10'),
+  scoreRefreshPageSize: parseInt(process.env.SCORE_REFRESH_PAGE_SIZE || '500')
+};
@@ -0,0 +1,39 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Token bucket: holds up to `capacity` requests and refills `refillPerMinute` of them a minute
+export interface RateLimitPolicy {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export type RateLimitPolicyName = 'comment' | 'reply' | 'reaction' | 'read';
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  store: 'memory' | 'scylla';
+  // Many users can share an address (NAT, campus networks), so IP buckets are this many times larger
+  ipMultiplier: number;
+  // Proxy hops in front of the API whose X-Forwarded-For can be trusted for the client IP
+  trustProxyHops: number;
+  policies: Record<RateLimitPolicyName, RateLimitPolicy>;
+}
+
+const policy = (name: string, capacity: string, refillPerMinute: string): RateLimitPolicy => ({
+  capacity: parseInt(process.env[`RATE_LIMIT_${name}_CAPACITY`] || capacity),
+  refillPerMinute: parseInt(process.env[`RATE_LIMIT_${name}_PER_MINUTE`] || refillPerMinute)
+});
+
+export const rateLimitConfig: RateLimitConfig = {
+  enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+  store: process.env.RATE_LIMIT_STORE === 'scylla' ? 'scylla' : 'memory',
+  ipMultiplier: parseInt(process.env.RATE_LIMIT_IP_MULTIPLIER || '5'),
+  trustProxyHops: parseInt(process.env.TRUST_PROXY_HOPS || '0'),
+  policies: {
+    comment: policy('COMMENT', '5', '5'),
+    reply: policy('REPLY', '10', '10'),
+    reaction: policy('REACTION', '60', '60'),
+    read: policy('READ', '300', '300')
+  }
+};
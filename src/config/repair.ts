@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface RepairConfig {
+  pageSize: number;
+}
+
+export const repairConfig: RepairConfig = {
+  pageSize: parseInt(process.env.REPAIR_PAGE_SIZE || '500')
+};
@@ -0,0 +1,21 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface SearchConfig {
+  // Words are indexed under each of their prefixes between these lengths; shorter words as a whole
+  minPrefixLength: number;
+  maxPrefixLength: number;
+  // Index postings read per round trip, and at most per request before returning a partial page
+  scanBatchSize: number;
+  maxScanPerRequest: number;
+  indexWriteConcurrency: number;
+}
+
+export const searchConfig: SearchConfig = {
+  minPrefixLength: parseInt(process.env.SEARCH_MIN_PREFIX_LENGTH || '2'),
+  maxPrefixLength: parseInt(process.env.SEARCH_MAX_PREFIX_LENGTH || '12'),
+  scanBatchSize: parseInt(process.env.SEARCH_SCAN_BATCH_SIZE || '100'),
+  maxScanPerRequest: parseInt(process.env.SEARCH_MAX_SCAN || '1000'),
+  indexWriteConcurrency: parseInt(process.env.SEARCH_INDEX_CONCURRENCY || '16')
+};
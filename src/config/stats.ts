@@ -0,0 +1,11 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface StatsConfig {
+  repairPageSize: number;
+}
+
+export const statsConfig: StatsConfig = {
+  repairPageSize: parseInt(process.env.STATS_REPAIR_PAGE_SIZE || '500')
+};
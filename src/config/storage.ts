@@ -0,0 +1,12 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface StorageConfig {
+  // memory keeps everything in the process: no database needed, nothing survives a restart
+  backend: 'scylla' | 'memory';
+}
+
+export const storageConfig: StorageConfig = {
+  backend: process.env.STORAGE_BACKEND === 'memory' ? 'memory' : 'scylla'
+};
@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface StreamConfig {
+  eventRetentionSeconds: number;
+  replayLimit: number;
+  heartbeatSeconds: number;
+}
+
+export const streamConfig: StreamConfig = {
+  eventRetentionSeconds: parseInt(process.env.STREAM_EVENT_RETENTION_SECONDS || '3600'),
+  replayLimit: parseInt(process.env.STREAM_REPLAY_LIMIT || '1000'),
+  heartbeatSeconds: parseInt(process.env.STREAM_HEARTBEAT_SECONDS || '25')
+};
@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface ThreadConfig {
+  maxDepth: number;
+  defaultThreadDepth: number;
+  replyFetchConcurrency: number;
+}
+
+export const threadConfig: ThreadConfig = {
+  maxDepth: parseInt(process.env.THREAD_MAX_DEPTH || '8'),
+  defaultThreadDepth: parseInt(process.env.THREAD_DEFAULT_DEPTH || '3'),
+  replyFetchConcurrency: parseInt(process.env.REPLY_FETCH_CONCURRENCY || '8')
+};
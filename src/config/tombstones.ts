@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+export interface TombstoneConfig {
+  retentionDays: number;
+  purgeIntervalMinutes: number;
+  lookbackDays: number;
+}
+
+export const tombstoneConfig: TombstoneConfig = {
+  retentionDays: parseInt(process.env.TOMBSTONE_RETENTION_DAYS || '30'),
+  purgeIntervalMinutes: parseInt(process.env.TOMBSTONE_PURGE_INTERVAL_MINUTES || '60'),
+  lookbackDays: parseInt(process.env.TOMBSTONE_PURGE_LOOKBACK_DAYS || '7')
+};
@@ -1,106 +1,269 @@
 import { Request, Response } from 'express';
 import {
   getCommentsByVideoIdWithCursor,
+  getCommentsByVideoIdRanked,
   getRepliesWithCursor,
-  getRepliesByCommentIds,
-  getCommentCountByVideoId,
-  getReplyCountByCommentId,
+  getChildRepliesWithCursor,
+  getReplyPagesByCommentIds,
+  getCommentById,
+  getReplyById,
   createComment as createCommentService,
   createReply as createReplyService,
   deleteComment as deleteCommentService,
   deleteReply as deleteReplyService,
-  likeIncrementComment,
-  likeDecrementComment,
-  dislikeIncrementComment,
-  dislikeDecrementComment,
-  likeIncrementReply,
-  likeDecrementReply,
-  dislikeIncrementReply,
-  dislikeDecrementReply
+  setCommentReaction,
+  setReplyReaction,
+  updateCommentContent,
+  updateReplyContent,
+  getEditHistory,
+  restoreComment as restoreCommentService,
+  restoreReply as restoreReplyService
 } from '../services/commentsService';
 import {
-  rankReplies,
   getTopComments,
   getCommentsWithReplies,
   getRepliesWithCursor as getRepliesWithCursorUtil,
-  decodeCursor
+  applyTombstones,
+  applyReplyTombstones,
+  applyVisibility,
+  isVisibleTo,
+  toRankedComment,
+  toRankedReply,
+  replyCursorContext,
+  readOrderFor,
+  cutPage,
+  cutFeedPage
 } from '../utils/ranking';
-import { PaginationResponse } from '../models/comments';
+import { cursorContext, decodeCursor, decodeScoreCursor, assertLegacyCursorFits, LegacyCursorCheck } from '../utils/cursors';
+import { RankingStrategy, getRankingStrategy, hasRankingStrategy } from '../utils/rankingStrategies';
+import { resolveFeedSettings, getVideoSettings } from '../services/settingsService';
+import { getVideoStats } from '../services/videoStatsService';
+import { attachReplyLevels } from '../services/threadService';
+import { searchComments as searchCommentsService, searchCursorContext } from '../services/searchService';
+import { parseSearchQuery } from '../utils/search';
+import { assertNotBanned, queueHeldItem } from '../services/moderationService';
+import { screenContent, recordContent } from '../services/contentFilterService';
+import { ContentCandidate } from '../models/contentFilter';
+import { rankingConfig } from '../config/ranking';
+import { getCachedCommentPage } from '../services/pageCacheService';
+import { CachedCommentPage } from '../models/pageCache';
+import {
+  Comment,
+  Reply,
+  ScoredComment,
+  PaginationResponse,
+  CursorInfo,
+  ScoreCursorInfo,
+  RankedReply,
+  PageOrder,
+  Viewer
+} from '../models/comments';
+import { AuthUser, canModify, isModerator } from '../middleware/auth';
+import { validated } from '../middleware/validate';
+import { ContentRejectedError, ForbiddenError, NotFoundError, ValidationError, sendError } from '../utils/errors';
+import {
+  IdParams,
+  VideoIdParams,
+  GetCommentsQuery,
+  GetRepliesQuery,
+  GetThreadQuery,
+  SearchCommentsQuery,
+  CreateCommentBody,
+  CreateReplyBody,
+  UpdateContentBody,
+  ReactionBody
+} from '../validation/commentSchemas';
+
+// Decode an optional cursor issued for the same query; bad ones fail with INVALID_CURSOR,
+// CURSOR_MISMATCH or CURSOR_EXPIRED. Legacy cursors must point at an item `fits` accepts.
+const parseCursor = async (cursor: string | undefined, context: string, fits: LegacyCursorCheck): Promise<Partial<CursorInfo>> => {
+  if (!cursor) return {};
+  const position = decodeCursor(cursor, context);
+  await assertLegacyCursorFits(position, fits);
+  return position;
+};
+
+// Decode an optional ranked-feed cursor
+const parseScoreCursor = async (cursor: string | undefined, context: string, fits: LegacyCursorCheck): Promise<Partial<ScoreCursorInfo>> => {
+  if (!cursor) return {};
+  const position = decodeScoreCursor(cursor, context);
+  await assertLegacyCursorFits(position, fits);
+  return position;
+};
+
+// Legacy cursors predate order=oldest, so they only fit newest-first pages of their video
+const commentOfVideo = (videoId: string, order: PageOrder = 'newest'): LegacyCursorCheck => async id =>
+  order === 'newest' && (await getCommentById(id))?.videoId === videoId;
+
+// ...or of the comment or reply whose replies they page
+const replyUnder = (parentId: string, order: PageOrder = 'newest'): LegacyCursorCheck => async id => {
+  const reply = order === 'newest' ? await getReplyById(id) : null;
+  return !!reply && (reply.parentId ?? reply.commentId).toString() === parentId;
+};
+
+// Newest-first reply pages are ranked for display; oldest first keeps the conversation order
+const displayReplies = (replies: RankedReply[], order: PageOrder): RankedReply[] =>
+  order === 'newest' ? [...replies].sort((a, b) => b.score - a.score) : replies;
+
+// Strategy for a ranked request: sort=ranked follows the video/channel setting, a strategy
+// name overrides it. Settings naming a strategy that is no longer registered use the default.
+const resolveRankingStrategy = async (videoId: string, sort: string): Promise<RankingStrategy> => {
+  const name = sort === 'ranked' ? (await resolveFeedSettings(videoId)).rankingStrategy : sort;
+  return getRankingStrategy(hasRankingStrategy(name) ? name : rankingConfig.defaultStrategy);
+};
+
+// The comment a video's owner pinned, if it still belongs to the video and is published
+const getPinnedComment = async (videoId: string): Promise<Comment | null> => {
+  const settings = await getVideoSettings(videoId);
+  const pinned = settings?.pinnedCommentId ? await getCommentById(settings.pinnedCommentId) : null;
+  return pinned && pinned.videoId === videoId && !pinned.held ? pinned : null;
+};
+
+// Who is reading, so hidden items reach only their author and moderators
+const viewerOf = (req: Request): Viewer => ({
+  userId: req.user?.id,
+  moderator: req.user ? isModerator(req.user) : false
+});
+
+// Run new content through the content filter. Rejections fail the request; a hold returns
+// the filters that held it, so the item is stored out of the feeds and queued for review
+const screenNewContent = async (candidate: ContentCandidate): Promise<string[] | null> => {
+  const { verdict, findings } = await screenContent(candidate);
+  if (verdict === 'reject') {
+    throw new ContentRejectedError(findings
+      .filter(finding => finding.verdict === 'reject')
+      .map(finding => ({ field: 'content', message: finding.message })));
+  }
+  return verdict === 'hold' ? findings.map(finding => finding.filter) : null;
+};
+
+// Load a comment the acting user is allowed to modify
+const getModifiableComment = async (req: Request, id: string, action: string, includeDeleted = false): Promise<Comment> => {
+  const comment = await getCommentById(id);
+  if (!comment || (comment.deleted && !includeDeleted)) {
+    throw new NotFoundError('Comment not found');
+  }
+  if (!canModify(req.user as AuthUser, comment.userId)) {
+    throw new ForbiddenError(`Only the author or a moderator can ${action} this comment`);
+  }
+  return comment;
+};
+
+// Load a reply the acting user is allowed to modify
+const getModifiableReply = async (req: Request, id: string, action: string, includeDeleted = false): Promise<Reply> => {
+  const reply = await getReplyById(id);
+  if (!reply || (reply.deleted && !includeDeleted)) {
+    throw new NotFoundError('Reply not found');
+  }
+  if (!canModify(req.user as AuthUser, reply.userId)) {
+    throw new ForbiddenError(`Only the author or a moderator can ${action} this reply`);
+  }
+  return reply;
+};
 
 // GET /api/comments/:videoId - Get comments for a video with cursor pagination
 export const getComments = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { videoId } = req.params;
-    const { type, limit = '20', cursor, replies_limit = '5', sort = 'ranked' } = req.query;
-
-    if (!videoId) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing required parameter: videoId'
-      });
-      return;
-    }
+    const { videoId } = validated<VideoIdParams>(req, 'params');
+    const { type, limit, cursor, since, replies_limit, depth, sort, order } = validated<GetCommentsQuery>(req, 'query');
+    const viewer = viewerOf(req);
+
+    const strategy: RankingStrategy | undefined = sort !== 'chronological'
+      ? await resolveRankingStrategy(videoId, sort)
+      : undefined;
+    const feedContext = cursorContext('comments', videoId, type ?? 'top', strategy?.name ?? sort, order);
+
+    // since=<cursor> is the page toward newer comments from any cursor of this query: read
+    // backward when newest first, forward when oldest first
+    const fits = commentOfVideo(videoId, order);
+    const position: Partial<CursorInfo> = since
+      ? { ...await parseCursor(since, feedContext, fits), backward: order === 'newest' }
+      : strategy ? {} : await parseCursor(cursor, feedContext, fits);
+    const pageCursor = cursor ?? since;
+
+    // Ranked pages walk the strategy's score index, chronological pages the time index;
+    // each has its own cursor
+    const loadPage = async (): Promise<CachedCommentPage> => {
+      // Over-fetch by 1 for pagination detection, and 1 more for the pinned comment, which
+      // cutFeedPage drops from the indexed rows
+      const pinned = await getPinnedComment(videoId);
+      const dbLimit = limit + (pinned ? 2 : 1);
+
+      let comments: Comment[] | ScoredComment[];
+      if (strategy) {
+        const { score: lastScore, id: lastId } = await parseScoreCursor(cursor, feedContext, fits);
+        comments = await getCommentsByVideoIdRanked(videoId, strategy.name, dbLimit, lastScore, lastId);
+      } else {
+        comments = await getCommentsByVideoIdWithCursor(videoId, dbLimit, position.createdAt, position.id, readOrderFor(order, position));
+      }
+      const { commentCount: totalEstimated } = await getVideoStats(videoId);
 
-    const limitNum = parseInt(limit as string);
-    const dbLimit = limitNum + 1; // Over-fetch by 1 for pagination detection
-    const repliesLimitNum = parseInt(replies_limit as string);
-    
-    let lastCreatedAt, lastId;
-    if (cursor) {
-      try {
-        const parsed = decodeCursor(cursor as string);
-        lastCreatedAt = parsed.createdAt;
-        lastId = parsed.id;
-      } catch (error) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid cursor format'
-        });
-        return;
+      if (type !== 'nested') {
+        return { comments, pinned, totalEstimated };
       }
+
+      // Replies only for the comments on this page, not the over-fetched sentinel, plus the
+      // pinned comment, which leads page one even when the index puts it further down
+      const pageComments: Comment[] = comments
+        .filter(comment => !pinned || comment.id.toString() !== pinned.id.toString())
+        .slice(0, limit);
+      const replyTargets = pinned && !pageCursor ? [pinned, ...pageComments] : pageComments;
+      const repliesByComment = await getReplyPagesByCommentIds(replyTargets, replies_limit + 1);
+      return { comments, repliesByComment, pinned, totalEstimated };
+    };
+
+    // First pages are served from the page cache; later pages are rarely asked for twice
+    let page: CachedCommentPage;
+    if (pageCursor) {
+      page = await loadPage();
+    } else {
+      const cached = await getCachedCommentPage(
+        { videoId, type: type ?? 'top', sort: strategy?.name ?? sort, order, limit, repliesLimit: replies_limit },
+        loadPage
+      );
+      page = cached.page;
+      res.set('X-Cache', cached.hit ? 'HIT' : 'MISS');
     }
+    const { comments, pinned, totalEstimated } = page;
+    const window = cutFeedPage<Comment | ScoredComment>(comments, limit, position, pinned, !pageCursor, viewer);
 
     let result: any;
     let pagination: PaginationResponse;
 
-    if (type === 'top') {
-      // Get top-level comments only with cursor pagination
-      const comments = await getCommentsByVideoIdWithCursor(videoId, dbLimit, lastCreatedAt, lastId);
-      const totalEstimated = await getCommentCountByVideoId(videoId);
-      const topCommentsResult = getTopComments(comments, limitNum, cursor as string, sort as string);
-      
-      result = topCommentsResult.comments;
-      pagination = {
-        next_cursor: topCommentsResult.nextCursor,
-        has_more: topCommentsResult.hasMore,
-        total_estimated: totalEstimated
-      };
+    if (type === 'nested') {
+      const repliesByComment = page.repliesByComment ?? new Map<string, Reply[]>();
+      const nestedResult = getCommentsWithReplies(window, repliesByComment, replies_limit, feedContext, pageCursor, sort, strategy, viewer, pinned);
+
+      // depth > 1 loads replies to replies, replies_limit per level
+      if (depth > 1) {
+        await attachReplyLevels(nestedResult.comments.flatMap(c => c.replies ?? []), {
+          maxDepth: depth,
+          limit: replies_limit,
+          ranked: true,
+          strategy,
+          viewer
+        });
+      }
 
-    } else if (type === 'nested') {
-      // Get comments with their replies
-      const comments = await getCommentsByVideoIdWithCursor(videoId, dbLimit, lastCreatedAt, lastId);
-      const commentIds = comments.map(c => c.id);
-      const replies = await getRepliesByCommentIds(commentIds);
-      const totalEstimated = await getCommentCountByVideoId(videoId);
-      
-      const nestedResult = getCommentsWithReplies(comments, replies, limitNum, repliesLimitNum, cursor as string, sort as string);
-      
       result = nestedResult.comments;
       pagination = {
         next_cursor: nestedResult.nextCursor,
         has_more: nestedResult.hasMore,
+        prev_cursor: nestedResult.prevCursor,
+        has_prev: nestedResult.hasPrev,
         total_estimated: totalEstimated
       };
 
     } else {
-      const comments = await getCommentsByVideoIdWithCursor(videoId, dbLimit, lastCreatedAt, lastId);
-      const totalEstimated = await getCommentCountByVideoId(videoId);
-      const rankedResult = getTopComments(comments, limitNum, cursor as string, sort as string);
-      
-      result = rankedResult.comments;
+      // type=top and the default both return top-level comments only
+      const topCommentsResult = getTopComments(window, feedContext, pageCursor, sort, viewer, pinned);
+
+      result = topCommentsResult.comments;
       pagination = {
-        next_cursor: rankedResult.nextCursor,
-        has_more: rankedResult.hasMore,
+        next_cursor: topCommentsResult.nextCursor,
+        has_more: topCommentsResult.hasMore,
+        prev_cursor: topCommentsResult.prevCursor,
+        has_prev: topCommentsResult.hasPrev,
         total_estimated: totalEstimated
       };
     }
@@ -111,26 +274,46 @@ export const getComments = async (req: Request, res: Response): Promise<void> =>
       pagination
     });
   } catch (error) {
-    console.error('Error fetching comments:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch comments'
+    sendError(res, error, 'Failed to fetch comments');
+  }
+};
+
+// GET /api/comments/:videoId/search - Comments matching words, "phrases" and prefix* terms, newest first
+export const searchComments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { videoId } = validated<VideoIdParams>(req, 'params');
+    const { q, limit, cursor, author, from, to } = validated<SearchCommentsQuery>(req, 'query');
+    const clauses = parseSearchQuery(q);
+    if (clauses.length === 0) {
+      throw new ValidationError('Search query has no words to match', [{ field: 'query.q', message: 'Must contain letters or digits' }]);
+    }
+
+    const filters = { authorId: author, from, to };
+    const { createdAt: lastCreatedAt, id: lastId } = await parseCursor(cursor, searchCursorContext(videoId, clauses, filters), commentOfVideo(videoId));
+    const page = await searchCommentsService(videoId, clauses, filters, limit, lastCreatedAt, lastId, viewerOf(req));
+
+    res.json({
+      success: true,
+      data: page.hits,
+      pagination: {
+        next_cursor: page.nextCursor,
+        has_more: page.hasMore
+      }
     });
+  } catch (error) {
+    sendError(res, error, 'Failed to search comments');
   }
 };
 
 // POST /api/comments - New comment
 export const createComment = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { videoId, userId, content } = req.body;
+    const { videoId, content } = validated<CreateCommentBody>(req, 'body');
+    const userId = (req.user as AuthUser).id;
+    await assertNotBanned(userId);
 
-    if (!videoId || !userId || !content) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing required fields: videoId, userId, content'
-      });
-      return;
-    }
+    const candidate: ContentCandidate = { itemType: 'comment', userId, videoId, content };
+    const held = await screenNewContent(candidate);
 
     const newComment = await createCommentService({
       video_id: videoId,
@@ -139,287 +322,462 @@ export const createComment = async (req: Request, res: Response): Promise<void>
       likes: 0,
       dislikes: 0,
       reply_count: 0
-    });
+    }, { held: !!held });
+    await recordContent(candidate);
+
+    if (held) {
+      await queueHeldItem('comment', newComment.id, videoId, userId, held);
+      res.status(202).json({
+        success: true,
+        data: newComment,
+        message: 'Comment is held for review'
+      });
+      return;
+    }
 
     res.status(201).json({
       success: true,
       data: newComment
     });
   } catch (error) {
-    console.error('Error creating comment:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to create comment'
-    });
+    sendError(res, error, 'Failed to create comment');
   }
 };
 
 // POST /api/comments/:id/replies - New reply
 export const createReply = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id: commentId } = req.params;
-    const { userId, content } = req.body;
-
-    if (!commentId || !userId || !content) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing required fields: commentId, userId, content'
-      });
-      return;
+    const { id: commentId } = validated<IdParams>(req, 'params');
+    const { content } = validated<CreateReplyBody>(req, 'body');
+    const userId = (req.user as AuthUser).id;
+    await assertNotBanned(userId);
+
+    const comment = await getCommentById(commentId);
+    if (!comment) {
+      throw new NotFoundError('Comment not found');
     }
 
+    const candidate: ContentCandidate = { itemType: 'reply', userId, videoId: comment.videoId, content };
+    const held = await screenNewContent(candidate);
+
     const newReply = await createReplyService({
       comment_id: commentId,
       user_id: userId,
       content,
       likes: 0,
       dislikes: 0
-    });
+    }, { held: !!held });
+    await recordContent(candidate);
+
+    if (held) {
+      await queueHeldItem('reply', newReply.id, comment.videoId, userId, held);
+      res.status(202).json({
+        success: true,
+        data: newReply,
+        message: 'Reply is held for review'
+      });
+      return;
+    }
 
     res.status(201).json({
       success: true,
       data: newReply
     });
   } catch (error) {
-    console.error('Error creating reply:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to create reply'
-    });
+    sendError(res, error, 'Failed to create reply');
   }
 };
 
-// DELETE /api/comments/:id - Delete comment
-export const deleteComment = async (req: Request, res: Response): Promise<void> => {
+// POST /api/comments/replies/:id/replies - Reply to a reply
+export const createReplyToReply = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
+    const { id: parentId } = validated<IdParams>(req, 'params');
+    const { content } = validated<CreateReplyBody>(req, 'body');
+    const userId = (req.user as AuthUser).id;
+    await assertNotBanned(userId);
+
+    const parent = await getReplyById(parentId);
+    const comment = parent ? await getCommentById(parent.commentId) : null;
+    if (!parent || parent.deleted || !comment) {
+      throw new NotFoundError('Reply not found');
+    }
 
-    if (!id) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing comment id'
+    const candidate: ContentCandidate = { itemType: 'reply', userId, videoId: comment.videoId, content };
+    const held = await screenNewContent(candidate);
+
+    const newReply = await createReplyService({
+      comment_id: parent.commentId,
+      parent_id: parentId,
+      user_id: userId,
+      content,
+      likes: 0,
+      dislikes: 0
+    }, { held: !!held });
+    await recordContent(candidate);
+
+    if (held) {
+      await queueHeldItem('reply', newReply.id, comment.videoId, userId, held);
+      res.status(202).json({
+        success: true,
+        data: newReply,
+        message: 'Reply is held for review'
       });
       return;
     }
 
-    await deleteCommentService(id);
+    res.status(201).json({
+      success: true,
+      data: newReply
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to create reply');
+  }
+};
+
+// DELETE /api/comments/:id - Delete comment
+export const deleteComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+
+    await getModifiableComment(req, id, 'delete');
+    await deleteCommentService(id, (req.user as AuthUser).id);
 
     res.json({
       success: true,
       message: 'Comment deleted successfully'
     });
   } catch (error) {
-    console.error('Error deleting comment:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to delete comment'
-    });
+    sendError(res, error, 'Failed to delete comment');
   }
 };
 
 // DELETE /api/replies/:id - Delete reply
 export const deleteReply = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-
-    if (!id) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing reply id'
-      });
-      return;
-    }
+    const { id } = validated<IdParams>(req, 'params');
 
-    await deleteReplyService(id);
+    await getModifiableReply(req, id, 'delete');
+    await deleteReplyService(id, (req.user as AuthUser).id);
 
     res.json({
       success: true,
       message: 'Reply deleted successfully'
     });
   } catch (error) {
-    console.error('Error deleting reply:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to delete reply'
-    });
+    sendError(res, error, 'Failed to delete reply');
   }
 };
 
-// GET /api/comments/:id/replies - Get replies for a comment
-export const getReplies = async (req: Request, res: Response): Promise<void> => {
+// PATCH /api/comments/:id - Edit comment content
+export const updateComment = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id: commentId } = req.params;
-    const { limit = '10', cursor } = req.query;
+    const { id } = validated<IdParams>(req, 'params');
+    const { content } = validated<UpdateContentBody>(req, 'body');
 
-    if (!commentId) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing comment id'
-      });
-      return;
-    }
+    await getModifiableComment(req, id, 'edit');
+    const updatedComment = await updateCommentContent(id, content);
 
-    const limitNum = parseInt(limit as string);
-    const dbLimit = limitNum + 1; // Over-fetch by 1 for pagination detection
-
-    let lastCreatedAt, lastId;
-    if (cursor) {
-      try {
-        const parsed = decodeCursor(cursor as string);
-        lastCreatedAt = parsed.createdAt;
-        lastId = parsed.id;
-      } catch (error) {
-        res.status(400).json({
-          success: false,
-          error: 'Invalid cursor format'
-        });
-        return;
-      }
-    }
+    res.json({
+      success: true,
+      data: updatedComment
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update comment');
+  }
+};
 
-    const replies = await getRepliesWithCursor(commentId, dbLimit, lastCreatedAt, lastId);
-    const rankedReplies = rankReplies(replies);
-    const totalEstimated = await getReplyCountByCommentId(commentId);
-    const repliesResult = getRepliesWithCursorUtil(rankedReplies, limitNum, cursor as string);
+// PATCH /api/comments/replies/:id - Edit reply content
+export const updateReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { content } = validated<UpdateContentBody>(req, 'body');
 
-    const pagination: PaginationResponse = {
-      next_cursor: repliesResult.nextCursor,
-      has_more: repliesResult.hasMore,
-      total_estimated: totalEstimated
-    };
+    await getModifiableReply(req, id, 'edit');
+    const updatedReply = await updateReplyContent(id, content);
 
     res.json({
       success: true,
-      data: repliesResult.replies,
-      pagination
+      data: updatedReply
     });
   } catch (error) {
-    console.error('Error fetching replies:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch replies'
-    });
+    sendError(res, error, 'Failed to update reply');
   }
 };
 
-// Comment like/dislike handlers
-export const increaseLikeComment = async (req: Request, res: Response): Promise<void> => {
+// GET /api/comments/:id/history - List prior versions of a comment
+export const getHistory = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing comment id' });
-      return;
+    const { id } = validated<IdParams>(req, 'params');
+
+    const comment = await getCommentById(id);
+    if (!comment || comment.deleted || !isVisibleTo(comment, viewerOf(req))) {
+      throw new NotFoundError('Comment not found');
     }
-    await likeIncrementComment(id);
-    res.json({ success: true, message: 'Comment likes increased successfully' });
+
+    const revisions = await getEditHistory(id);
+
+    res.json({
+      success: true,
+      data: revisions
+    });
   } catch (error) {
-    console.error('Error increasing comment likes:', error);
-    res.status(500).json({ success: false, error: 'Failed to increase comment likes' });
+    sendError(res, error, 'Failed to fetch edit history');
   }
 };
 
-export const decreaseLikeComment = async (req: Request, res: Response): Promise<void> => {
+// GET /api/comments/replies/:id/history - List prior versions of a reply
+export const getReplyHistory = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing comment id' });
-      return;
+    const { id } = validated<IdParams>(req, 'params');
+
+    const reply = await getReplyById(id);
+    if (!reply || reply.deleted || !isVisibleTo(reply, viewerOf(req))) {
+      throw new NotFoundError('Reply not found');
     }
-    await likeDecrementComment(id);
-    res.json({ success: true, message: 'Comment likes decreased successfully' });
+
+    const revisions = await getEditHistory(id);
+
+    res.json({
+      success: true,
+      data: revisions
+    });
   } catch (error) {
-    console.error('Error decreasing comment likes:', error);
-    res.status(500).json({ success: false, error: 'Failed to decrease comment likes' });
+    sendError(res, error, 'Failed to fetch edit history');
   }
 };
 
-export const increaseDislikeComment = async (req: Request, res: Response): Promise<void> => {
+// POST /api/comments/:id/restore - Restore a soft-deleted comment
+export const restoreComment = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing comment id' });
-      return;
-    }
-    await dislikeIncrementComment(id);
-    res.json({ success: true, message: 'Comment dislikes increased successfully' });
+    const { id } = validated<IdParams>(req, 'params');
+
+    await getModifiableComment(req, id, 'restore', true);
+    const restoredComment = await restoreCommentService(id);
+
+    res.json({
+      success: true,
+      data: restoredComment
+    });
   } catch (error) {
-    console.error('Error increasing comment dislikes:', error);
-    res.status(500).json({ success: false, error: 'Failed to increase comment dislikes' });
+    sendError(res, error, 'Failed to restore comment');
   }
 };
 
-export const decreaseDislikeComment = async (req: Request, res: Response): Promise<void> => {
+// POST /api/comments/replies/:id/restore - Restore a soft-deleted reply
+export const restoreReply = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing comment id' });
-      return;
-    }
-    await dislikeDecrementComment(id);
-    res.json({ success: true, message: 'Comment dislikes decreased successfully' });
+    const { id } = validated<IdParams>(req, 'params');
+
+    await getModifiableReply(req, id, 'restore', true);
+    const restoredReply = await restoreReplyService(id);
+
+    res.json({
+      success: true,
+      data: restoredReply
+    });
   } catch (error) {
-    console.error('Error decreasing comment dislikes:', error);
-    res.status(500).json({ success: false, error: 'Failed to decrease comment dislikes' });
+    sendError(res, error, 'Failed to restore reply');
   }
 };
 
-// Reply like/dislike handlers
-export const increaseLikeReply = async (req: Request, res: Response): Promise<void> => {
+// GET /api/comments/:id/replies - Get replies for a comment
+export const getReplies = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing reply id' });
-      return;
+    const { id: commentId } = validated<IdParams>(req, 'params');
+    const { limit, cursor, order } = validated<GetRepliesQuery>(req, 'query');
+
+    const dbLimit = limit + 1; // Over-fetch by 1 for pagination detection
+    const context = replyCursorContext(commentId, order);
+    const position = await parseCursor(cursor, context, replyUnder(commentId, order));
+
+    const viewer = viewerOf(req);
+    const comment = await getCommentById(commentId);
+    if (!comment || !isVisibleTo(comment, viewer)) {
+      throw new NotFoundError('Comment not found');
     }
-    await likeIncrementReply(id);
-    res.json({ success: true, message: 'Reply likes increased successfully' });
+
+    const replies = await getRepliesWithCursor(commentId, dbLimit, position.createdAt, position.id, readOrderFor(order, position));
+    const totalEstimated = comment.replyCount;
+    const repliesResult = getRepliesWithCursorUtil(cutPage(replies, limit, position), context, viewer);
+
+    const pagination: PaginationResponse = {
+      next_cursor: repliesResult.nextCursor,
+      has_more: repliesResult.hasMore,
+      prev_cursor: repliesResult.prevCursor,
+      has_prev: repliesResult.hasPrev,
+      total_estimated: totalEstimated
+    };
+
+    res.json({
+      success: true,
+      data: displayReplies(repliesResult.replies, order),
+      pagination
+    });
   } catch (error) {
-    console.error('Error increasing reply likes:', error);
-    res.status(500).json({ success: false, error: 'Failed to increase reply likes' });
+    sendError(res, error, 'Failed to fetch replies');
   }
 };
 
-export const decreaseLikeReply = async (req: Request, res: Response): Promise<void> => {
+// GET /api/comments/replies/:id/replies - Get replies to a reply
+export const getReplyReplies = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing reply id' });
-      return;
+    const { id: parentId } = validated<IdParams>(req, 'params');
+    const { limit, cursor, order } = validated<GetRepliesQuery>(req, 'query');
+
+    const dbLimit = limit + 1; // Over-fetch by 1 for pagination detection
+    const context = replyCursorContext(parentId, order);
+    const position = await parseCursor(cursor, context, replyUnder(parentId, order));
+
+    const viewer = viewerOf(req);
+    const parent = await getReplyById(parentId);
+    if (!parent || !isVisibleTo(parent, viewer)) {
+      throw new NotFoundError('Reply not found');
     }
-    await likeDecrementReply(id);
-    res.json({ success: true, message: 'Reply likes decreased successfully' });
+
+    const replies = await getChildRepliesWithCursor(parentId, dbLimit, position.createdAt, position.id, readOrderFor(order, position));
+    const repliesResult = getRepliesWithCursorUtil(cutPage(replies, limit, position), context, viewer);
+
+    const pagination: PaginationResponse = {
+      next_cursor: repliesResult.nextCursor,
+      has_more: repliesResult.hasMore,
+      prev_cursor: repliesResult.prevCursor,
+      has_prev: repliesResult.hasPrev,
+      total_estimated: parent.replyCount
+    };
+
+    res.json({
+      success: true,
+      data: displayReplies(repliesResult.replies, order),
+      pagination
+    });
   } catch (error) {
-    console.error('Error decreasing reply likes:', error);
-    res.status(500).json({ success: false, error: 'Failed to decrease reply likes' });
+    sendError(res, error, 'Failed to fetch replies');
   }
 };
 
-export const increaseDislikeReply = async (req: Request, res: Response): Promise<void> => {
+// GET /api/comments/:id/thread - Comment with its reply tree, newest first, one page per level
+export const getThread = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing reply id' });
-      return;
+    const { id: commentId } = validated<IdParams>(req, 'params');
+    const { limit, cursor, replies_limit, max_depth } = validated<GetThreadQuery>(req, 'query');
+
+    const dbLimit = limit + 1; // Over-fetch by 1 for pagination detection
+    const context = replyCursorContext(commentId);
+    const position = await parseCursor(cursor, context, replyUnder(commentId));
+
+    const comment = await getCommentById(commentId);
+    const viewer = viewerOf(req);
+    const [visibleComment] = comment ? applyTombstones(applyVisibility([comment], viewer)) : [];
+    if (!visibleComment) {
+      throw new NotFoundError('Comment not found');
     }
-    await dislikeIncrementReply(id);
-    res.json({ success: true, message: 'Reply dislikes increased successfully' });
+
+    const replies = await getRepliesWithCursor(commentId, dbLimit, position.createdAt, position.id, readOrderFor('newest', position));
+    const level = getRepliesWithCursorUtil(cutPage(replies, limit, position), context, viewer);
+    await attachReplyLevels(level.replies, { maxDepth: max_depth, limit: replies_limit, ranked: false, viewer });
+
+    const pagination: PaginationResponse = {
+      next_cursor: level.nextCursor,
+      has_more: level.hasMore,
+      prev_cursor: level.prevCursor,
+      has_prev: level.hasPrev,
+      total_estimated: visibleComment.replyCount
+    };
+
+    res.json({
+      success: true,
+      data: {
+        ...toRankedComment(visibleComment),
+        replies: level.replies
+      },
+      pagination
+    });
   } catch (error) {
-    console.error('Error increasing reply dislikes:', error);
-    res.status(500).json({ success: false, error: 'Failed to increase reply dislikes' });
+    sendError(res, error, 'Failed to fetch thread');
   }
 };
 
-export const decreaseDislikeReply = async (req: Request, res: Response): Promise<void> => {
+// GET /api/comments/replies/:id/thread - Reply with the tree below it; max_depth counts from the reply
+export const getReplyThread = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { id } = req.params;
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Missing reply id' });
-      return;
+    const { id: replyId } = validated<IdParams>(req, 'params');
+    const { limit, cursor, replies_limit, max_depth } = validated<GetThreadQuery>(req, 'query');
+
+    const dbLimit = limit + 1; // Over-fetch by 1 for pagination detection
+    const context = replyCursorContext(replyId);
+    const position = await parseCursor(cursor, context, replyUnder(replyId));
+
+    const reply = await getReplyById(replyId);
+    const viewer = viewerOf(req);
+    const [visibleReply] = reply ? applyReplyTombstones(applyVisibility([reply], viewer)) : [];
+    if (!visibleReply) {
+      throw new NotFoundError('Reply not found');
     }
-    await dislikeDecrementReply(id);
-    res.json({ success: true, message: 'Reply dislikes decreased successfully' });
+
+    const replies = await getChildRepliesWithCursor(replyId, dbLimit, position.createdAt, position.id, readOrderFor('newest', position));
+    const level = getRepliesWithCursorUtil(cutPage(replies, limit, position), context, viewer);
+    await attachReplyLevels(level.replies, {
+      maxDepth: visibleReply.depth + max_depth,
+      limit: replies_limit,
+      ranked: false,
+      viewer
+    });
+
+    const pagination: PaginationResponse = {
+      next_cursor: level.nextCursor,
+      has_more: level.hasMore,
+      prev_cursor: level.prevCursor,
+      has_prev: level.hasPrev,
+      total_estimated: visibleReply.replyCount
+    };
+
+    res.json({
+      success: true,
+      data: {
+        ...toRankedReply(visibleReply),
+        replies: level.replies
+      },
+      pagination
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch thread');
+  }
+};
+
+// PUT /api/comments/:id/reaction - Set a user's reaction on a comment
+export const setReactionComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { reaction } = validated<ReactionBody>(req, 'body');
+    const userId = (req.user as AuthUser).id;
+    await assertNotBanned(userId);
+
+    const result = await setCommentReaction(id, userId, reaction);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to set comment reaction');
+  }
+};
+
+// PUT /api/comments/replies/:id/reaction - Set a user's reaction on a reply
+export const setReactionReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { reaction } = validated<ReactionBody>(req, 'body');
+    const userId = (req.user as AuthUser).id;
+    await assertNotBanned(userId);
+
+    const result = await setReplyReaction(id, userId, reaction);
+
+    res.json({
+      success: true,
+      data: result
+    });
   } catch (error) {
-    console.error('Error decreasing reply dislikes:', error);
-    res.status(500).json({ success: false, error: 'Failed to decrease reply dislikes' });
+    sendError(res, error, 'Failed to set reply reaction');
   }
 };
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import { getCommentById, setCommentPinned, setCommentHearted } from '../services/commentsService';
+import { getVideoSettings, setPinnedComment } from '../services/settingsService';
+import { Comment } from '../models/comments';
+import { VideoSettings } from '../models/settings';
+import { AuthUser } from '../middleware/auth';
+import { validated } from '../middleware/validate';
+import { ForbiddenError, NotFoundError, sendError } from '../utils/errors';
+import { IdParams } from '../validation/commentSchemas';
+
+// Load a live comment along with its video's settings, if the acting user owns the video
+const getOwnedComment = async (req: Request, id: string, action: string): Promise<{ comment: Comment; settings: VideoSettings }> => {
+  const comment = await getCommentById(id);
+  if (!comment || comment.deleted || comment.held) {
+    throw new NotFoundError('Comment not found');
+  }
+
+  const settings = await getVideoSettings(comment.videoId);
+  if (!settings?.ownerId || settings.ownerId !== (req.user as AuthUser).id) {
+    throw new ForbiddenError(`Only the video owner can ${action} this comment`);
+  }
+  return { comment, settings };
+};
+
+// POST /api/comments/:id/pin - Pin a comment to the top of its video, replacing any pinned one
+export const pinComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { comment, settings } = await getOwnedComment(req, id, 'pin');
+
+    const previousId = settings.pinnedCommentId;
+    if (previousId && previousId !== comment.id.toString()) {
+      const previous = await getCommentById(previousId);
+      if (previous) {
+        await setCommentPinned(previous, false);
+      }
+    }
+
+    await setPinnedComment(comment.videoId, comment.id);
+    const pinned = await setCommentPinned(comment, true);
+
+    res.json({
+      success: true,
+      data: pinned
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to pin comment');
+  }
+};
+
+// DELETE /api/comments/:id/pin - Unpin a comment
+export const unpinComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { comment, settings } = await getOwnedComment(req, id, 'unpin');
+
+    if (settings.pinnedCommentId === comment.id.toString()) {
+      await setPinnedComment(comment.videoId, null);
+    }
+    const unpinned = await setCommentPinned(comment, false);
+
+    res.json({
+      success: true,
+      data: unpinned
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to unpin comment');
+  }
+};
+
+// POST /api/comments/:id/heart - Heart a comment as the video's creator
+export const heartComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { comment } = await getOwnedComment(req, id, 'heart');
+
+    const hearted = await setCommentHearted(comment, true);
+
+    res.json({
+      success: true,
+      data: hearted
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to heart comment');
+  }
+};
+
+// DELETE /api/comments/:id/heart - Take back the creator's heart
+export const unheartComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { comment } = await getOwnedComment(req, id, 'unheart');
+
+    const unhearted = await setCommentHearted(comment, false);
+
+    res.json({
+      success: true,
+      data: unhearted
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to unheart comment');
+  }
+};
@@ -0,0 +1,17 @@
+import { Request, Response } from 'express';
+import { getPageCacheMetrics as getPageCacheMetricsService } from '../services/pageCacheService';
+import { sendError } from '../utils/errors';
+
+// GET /api/metrics/page-cache - Hits, misses and size of the first-page cache on this instance
+export const getPageCacheMetrics = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const metrics = await getPageCacheMetricsService();
+
+    res.json({
+      success: true,
+      data: metrics
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch page cache metrics');
+  }
+};
@@ -0,0 +1,118 @@
+import { Request, Response } from 'express';
+import {
+  reportItem,
+  getPendingItems,
+  getModerationItem,
+  moderateItem
+} from '../services/moderationService';
+import { CursorInfo, PaginationResponse } from '../models/comments';
+import { AuthUser } from '../middleware/auth';
+import { validated } from '../middleware/validate';
+import { cursorContext, decodeCursor, encodeCursor, assertLegacyCursorFits } from '../utils/cursors';
+import { sendError } from '../utils/errors';
+import { IdParams, VideoIdParams } from '../validation/commentSchemas';
+import { ReportBody, ModerateBody, GetReportsQuery } from '../validation/moderationSchemas';
+
+// Decode an optional cursor issued for the same video's queue; legacy cursors must point at
+// an item of that video
+const parseCursor = async (cursor: string | undefined, videoId: string): Promise<Partial<CursorInfo>> => {
+  if (!cursor) return {};
+  const position = decodeCursor(cursor, cursorContext('reports', videoId));
+  await assertLegacyCursorFits(position, async id => (await getModerationItem(id))?.videoId === videoId);
+  return position;
+};
+
+// POST /api/comments/:id/report - Report a comment
+export const reportComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { reason, details } = validated<ReportBody>(req, 'body');
+
+    const report = await reportItem('comment', id, (req.user as AuthUser).id, reason, details);
+
+    res.status(201).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to report comment');
+  }
+};
+
+// POST /api/comments/replies/:id/report - Report a reply
+export const reportReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { reason, details } = validated<ReportBody>(req, 'body');
+
+    const report = await reportItem('reply', id, (req.user as AuthUser).id, reason, details);
+
+    res.status(201).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to report reply');
+  }
+};
+
+// POST /api/comments/:id/moderate - Approve, hide, remove or ban the author of a comment
+export const moderateComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { action, reason } = validated<ModerateBody>(req, 'body');
+
+    const result = await moderateItem('comment', id, action, (req.user as AuthUser).id, reason);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to moderate comment');
+  }
+};
+
+// POST /api/comments/replies/:id/moderate - Approve, hide, remove or ban the author of a reply
+export const moderateReply = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = validated<IdParams>(req, 'params');
+    const { action, reason } = validated<ModerateBody>(req, 'body');
+
+    const result = await moderateItem('reply', id, action, (req.user as AuthUser).id, reason);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to moderate reply');
+  }
+};
+
+// GET /api/videos/:videoId/reports - Pending reported items for a video, oldest first
+export const getReports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { videoId } = validated<VideoIdParams>(req, 'params');
+    const { limit, cursor } = validated<GetReportsQuery>(req, 'query');
+
+    const { createdAt: lastQueuedAt, id: lastItemId } = await parseCursor(cursor, videoId);
+    const items = await getPendingItems(videoId, limit + 1, lastQueuedAt, lastItemId);
+    const hasMore = items.length > limit;
+    const page = items.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const pagination: PaginationResponse = {
+      next_cursor: hasMore && last ? encodeCursor(last.queuedAt, last.itemId, cursorContext('reports', videoId)) : undefined,
+      has_more: hasMore
+    };
+
+    res.json({
+      success: true,
+      data: page,
+      pagination
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch reports');
+  }
+};
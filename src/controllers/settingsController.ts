@@ -0,0 +1,93 @@
+import { Request, Response } from 'express';
+import {
+  getChannelSettings as getChannelSettingsService,
+  updateVideoSettings as updateVideoSettingsService,
+  updateChannelSettings as updateChannelSettingsService,
+  resolveFeedSettings
+} from '../services/settingsService';
+import { listRankingStrategies } from '../utils/rankingStrategies';
+import { validated } from '../middleware/validate';
+import { sendError } from '../utils/errors';
+import { VideoIdParams } from '../validation/commentSchemas';
+import {
+  ChannelSettingsParams,
+  UpdateVideoSettingsBody,
+  UpdateChannelSettingsBody
+} from '../validation/settingsSchemas';
+
+// Strategies a feed can be switched to, for settings screens
+const availableStrategies = () =>
+  listRankingStrategies().map(({ name, description }) => ({ name, description }));
+
+// GET /api/videos/:videoId/settings - Effective feed settings for a video
+export const getVideoSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { videoId } = validated<VideoIdParams>(req, 'params');
+
+    const settings = await resolveFeedSettings(videoId);
+
+    res.json({
+      success: true,
+      data: {
+        ...settings,
+        availableStrategies: availableStrategies()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch video settings');
+  }
+};
+
+// PUT /api/videos/:videoId/settings - Set a video's channel and ranking strategy
+export const updateVideoSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { videoId } = validated<VideoIdParams>(req, 'params');
+    const changes = validated<UpdateVideoSettingsBody>(req, 'body');
+
+    await updateVideoSettingsService(videoId, changes);
+    const settings = await resolveFeedSettings(videoId);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update video settings');
+  }
+};
+
+// GET /api/channels/:channelId/settings - Feed settings shared by a channel's videos
+export const getChannelSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { channelId } = validated<ChannelSettingsParams>(req, 'params');
+
+    const settings = await getChannelSettingsService(channelId);
+
+    res.json({
+      success: true,
+      data: {
+        ...(settings ?? { channelId }),
+        availableStrategies: availableStrategies()
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch channel settings');
+  }
+};
+
+// PUT /api/channels/:channelId/settings - Set a channel's ranking strategy
+export const updateChannelSettings = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { channelId } = validated<ChannelSettingsParams>(req, 'params');
+    const changes = validated<UpdateChannelSettingsBody>(req, 'body');
+
+    const settings = await updateChannelSettingsService(channelId, changes);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to update channel settings');
+  }
+};
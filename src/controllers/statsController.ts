@@ -0,0 +1,21 @@
+import { Request, Response } from 'express';
+import { getVideoStats as getVideoStatsService } from '../services/videoStatsService';
+import { validated } from '../middleware/validate';
+import { sendError } from '../utils/errors';
+import { VideoIdParams } from '../validation/commentSchemas';
+
+// GET /api/videos/:videoId/stats - Totals for a video's live comments and replies
+export const getVideoStats = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { videoId } = validated<VideoIdParams>(req, 'params');
+
+    const stats = await getVideoStatsService(videoId);
+
+    res.json({
+      success: true,
+      data: stats
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch video stats');
+  }
+};
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { openCommentStream, eventCursor } from '../services/eventsService';
+import { streamConfig } from '../config/stream';
+import { CommentEvent, STREAM_RESET_EVENT } from '../models/events';
+import { CursorInfo } from '../models/comments';
+import { cursorContext, decodeCursor } from '../utils/cursors';
+import { validated } from '../middleware/validate';
+import { sendError } from '../utils/errors';
+import { VideoIdParams, StreamQuery } from '../validation/commentSchemas';
+
+// Decode an optional stream resume cursor issued for the same video. Old cursors aren't
+// refused: the event log's retention decides whether the stream can resume or must reset,
+// and legacy ones always reset.
+export const parseStreamCursor = (cursor: string | undefined, videoId: string): CursorInfo | undefined => {
+  if (!cursor) return undefined;
+  return decodeCursor(cursor, cursorContext('events', videoId), { ignoreExpiry: true });
+};
+
+// Wire format shared by the SSE and WebSocket streams
+export const toStreamMessage = (event: CommentEvent) => ({
+  cursor: eventCursor(event),
+  type: event.type,
+  videoId: event.videoId,
+  occurredAt: event.occurredAt,
+  data: event.data
+});
+
+// GET /api/comments/:videoId/stream - Server-Sent Events stream of a video's comment events
+export const streamComments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { videoId } = validated<VideoIdParams>(req, 'params');
+    const { cursor } = validated<StreamQuery>(req, 'query');
+
+    // EventSource sends the last id it saw on reconnect; an explicit cursor wins
+    const after = parseStreamCursor(cursor ?? req.header('Last-Event-ID'), videoId);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    let closed = false;
+    let unsubscribe: (() => void) | undefined;
+    let heartbeat: NodeJS.Timeout | undefined;
+    res.on('close', () => {
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe?.();
+    });
+
+    unsubscribe = await openCommentStream(videoId, after, {
+      onEvent: event => {
+        const message = toStreamMessage(event);
+        res.write(`id: ${message.cursor}\nevent: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+      },
+      onReset: () => {
+        res.write(`event: ${STREAM_RESET_EVENT}\ndata: {}\n\n`);
+      }
+    });
+
+    // The client may have gone away while missed events were replayed
+    if (closed) {
+      unsubscribe();
+      return;
+    }
+
+    // Comment lines keep proxies from closing an idle connection
+    heartbeat = setInterval(() => res.write(': heartbeat\n\n'), streamConfig.heartbeatSeconds * 1000);
+  } catch (error) {
+    if (res.headersSent) {
+      console.error('Failed to open comment stream:', error);
+      res.end();
+      return;
+    }
+    sendError(res, error, 'Failed to open comment stream');
+  }
+};
@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { getUserContent as getUserContentService } from '../services/userContentService';
+import { startUserErasure, getUserErasure } from '../services/erasureService';
+import { writeUserExport } from '../services/exportService';
+import { getCommentById, getReplyById } from '../services/commentsService';
+import { cursorContext, decodeCursor, assertLegacyCursorFits } from '../utils/cursors';
+import { CursorInfo, Viewer } from '../models/comments';
+import { AuthUser, canModify, isModerator } from '../middleware/auth';
+import { validated } from '../middleware/validate';
+import { ForbiddenError, NotFoundError, sendError } from '../utils/errors';
+import { UserIdParams, GetUserContentQuery } from '../validation/userSchemas';
+
+// Decode an optional cursor issued for the same user's history; legacy cursors must point at
+// one of the user's comments or replies
+const parseCursor = async (cursor: string | undefined, userId: string): Promise<Partial<CursorInfo>> => {
+  if (!cursor) return {};
+  const position = decodeCursor(cursor, cursorContext('user', userId));
+  await assertLegacyCursorFits(position, async id =>
+    ((await getCommentById(id)) ?? (await getReplyById(id)))?.userId === userId);
+  return position;
+};
+
+// Who is reading, so hidden and held items reach only their author and moderators
+const viewerOf = (req: Request): Viewer => ({
+  userId: req.user?.id,
+  moderator: req.user ? isModerator(req.user) : false
+});
+
+// Account data is only handed out or erased for the account itself or a moderator
+const assertOwnData = (req: Request, userId: string): void => {
+  if (!canModify(req.user as AuthUser, userId)) {
+    throw new ForbiddenError('Only the account owner or a moderator can manage this data');
+  }
+};
+
+// GET /api/users/:userId/comments - A user's comments and replies, newest first
+export const getUserContent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = validated<UserIdParams>(req, 'params');
+    const { limit, cursor } = validated<GetUserContentQuery>(req, 'query');
+    const { createdAt: lastCreatedAt, id: lastId } = await parseCursor(cursor, userId);
+
+    const page = await getUserContentService(userId, limit, lastCreatedAt, lastId, viewerOf(req));
+
+    res.json({
+      success: true,
+      data: page.entries,
+      pagination: {
+        next_cursor: page.nextCursor,
+        has_more: page.hasMore
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch user comments');
+  }
+};
+
+// DELETE /api/users/:userId/data - Erase a user's comments, replies and reactions in the background
+export const eraseUserData = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = validated<UserIdParams>(req, 'params');
+    assertOwnData(req, userId);
+
+    const erasure = await startUserErasure(userId, (req.user as AuthUser).id);
+
+    res.status(202).json({
+      success: true,
+      data: erasure
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to start erasure');
+  }
+};
+
+// GET /api/users/:userId/data/erasure - Progress of the user's erasure
+export const getErasureStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = validated<UserIdParams>(req, 'params');
+    assertOwnData(req, userId);
+
+    const erasure = await getUserErasure(userId);
+    if (!erasure) {
+      throw new NotFoundError('No erasure has been requested for this user');
+    }
+
+    res.json({
+      success: true,
+      data: erasure
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to fetch erasure status');
+  }
+};
+
+// GET /api/users/:userId/export - Download everything the user wrote as one JSON document
+export const exportUserData = async (req: Request, res: Response): Promise<void> => {
+  let userId: string;
+  try {
+    ({ userId } = validated<UserIdParams>(req, 'params'));
+    assertOwnData(req, userId);
+  } catch (error) {
+    sendError(res, error, 'Failed to export user data');
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Disposition': 'attachment; filename="user-export.json"',
+    'Cache-Control': 'no-store'
+  });
+
+  // Wait for the socket to drain before reading the next batch; stop if the client went away
+  const write = (chunk: string): Promise<void> => new Promise((resolve, reject) => {
+    if (res.destroyed) {
+      reject(new Error('Client disconnected'));
+      return;
+    }
+    if (res.write(chunk)) {
+      resolve();
+      return;
+    }
+    const onClose = (): void => reject(new Error('Client disconnected'));
+    res.once('close', onClose);
+    res.once('drain', () => {
+      res.off('close', onClose);
+      resolve();
+    });
+  });
+
+  try {
+    await writeUserExport(userId, write);
+    res.end();
+  } catch (error) {
+    // Headers are already out, so the only signal left is a cut-off body
+    console.error(`Export of user ${userId} failed:`, error);
+    res.destroy();
+  }
+};
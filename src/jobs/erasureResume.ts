@@ -0,0 +1,58 @@
+import { erasureConfig } from '../config/erasure';
+import {
+  getErasureUserIds,
+  getUserErasure,
+  isStaleErasure,
+  startUserErasure
+} from '../services/erasureService';
+
+/**
+ * Picks up account erasures whose worker went away (restart, crash) and resumes them
+ */
+
+// Resume every stalled erasure, returns how many were picked up
+export async function resumeStaleErasures(now: Date = new Date()): Promise<number> {
+  let resumed = 0;
+  let pageState: string | undefined;
+
+  do {
+    const page = await getErasureUserIds(erasureConfig.batchSize, pageState);
+    for (const userId of page.userIds) {
+      const erasure = await getUserErasure(userId);
+      if (erasure && isStaleErasure(erasure, now)) {
+        await startUserErasure(userId, erasure.requestedBy);
+        resumed++;
+      }
+    }
+    pageState = page.pageState;
+  } while (pageState);
+
+  return resumed;
+}
+
+let resumeTimer: NodeJS.Timeout | null = null;
+
+export function startErasureResume(): void {
+  if (resumeTimer) return;
+
+  const runResume = async (): Promise<void> => {
+    try {
+      const resumed = await resumeStaleErasures();
+      if (resumed > 0) {
+        console.log(`Resumed ${resumed} stalled account erasures`);
+      }
+    } catch (error) {
+      console.error('Error resuming account erasures:', error);
+    }
+  };
+
+  resumeTimer = setInterval(runResume, erasureConfig.resumeIntervalMinutes * 60 * 1000);
+  resumeTimer.unref();
+}
+
+export function stopErasureResume(): void {
+  if (resumeTimer) {
+    clearInterval(resumeTimer);
+    resumeTimer = null;
+  }
+}
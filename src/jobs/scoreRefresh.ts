@@ -0,0 +1,83 @@
+import { rankingConfig } from '../config/ranking';
+import { getCommentsByVideoIdWithCursor } from '../services/commentsService';
+import { upsertCommentScore, getRankedVideos, removeRankedVideo } from '../services/scoreIndexService';
+import { RECENCY_WINDOW_HOURS } from '../utils/ranking';
+import { listRankingStrategies } from '../utils/rankingStrategies';
+
+/**
+ * Periodic re-scoring of the ranked indexes as comments age through the recency steps.
+ * Only time-dependent strategies drift without writes, so only their indexes are refreshed.
+ */
+
+const RECENCY_WINDOW_MS = RECENCY_WINDOW_HOURS * 60 * 60 * 1000;
+
+// Re-score every comment on a video still inside the recency window (or all of them under
+// every strategy, to backfill the indexes), returns how many were scored
+export async function refreshVideoScores(videoId: string, now: Date = new Date(), allComments = false): Promise<number> {
+  // One extra refresh interval so comments crossing the window edge get their final score
+  const since = allComments
+    ? new Date(0)
+    : new Date(now.getTime() - RECENCY_WINDOW_MS - rankingConfig.scoreRefreshIntervalMinutes * 60 * 1000);
+  const strategies = listRankingStrategies().filter(strategy => allComments || strategy.timeDependent);
+  let refreshed = 0;
+  let lastCreatedAt: Date | undefined;
+  let lastId: string | undefined;
+
+  while (true) {
+    const comments = await getCommentsByVideoIdWithCursor(videoId, rankingConfig.scoreRefreshPageSize, lastCreatedAt, lastId);
+    const inWindow = comments.filter(comment => comment.createdAt >= since);
+
+    for (const comment of inWindow) {
+      await upsertCommentScore(comment, now, strategies);
+      refreshed++;
+    }
+
+    const last = comments[comments.length - 1];
+    if (!last || inWindow.length < comments.length || comments.length < rankingConfig.scoreRefreshPageSize) {
+      break;
+    }
+    lastCreatedAt = last.createdAt;
+    lastId = last.id;
+  }
+
+  return refreshed;
+}
+
+// Refresh every tracked video, dropping videos whose newest comment has left the window
+export async function refreshRankedScores(now: Date = new Date()): Promise<number> {
+  const videos = await getRankedVideos();
+  let refreshed = 0;
+
+  for (const { videoId, lastCommentAt } of videos) {
+    refreshed += await refreshVideoScores(videoId, now);
+    if (now.getTime() - lastCommentAt.getTime() > RECENCY_WINDOW_MS) {
+      await removeRankedVideo(videoId);
+    }
+  }
+
+  return refreshed;
+}
+
+let refreshTimer: NodeJS.Timeout | null = null;
+
+export function startScoreRefresh(): void {
+  if (refreshTimer) return;
+
+  const runRefresh = async (): Promise<void> => {
+    try {
+      await refreshRankedScores();
+    } catch (error) {
+      console.error('Error refreshing ranked scores:', error);
+    }
+  };
+
+  refreshTimer = setInterval(runRefresh, rankingConfig.scoreRefreshIntervalMinutes * 60 * 1000);
+  refreshTimer.unref();
+}
+
+export function stopScoreRefresh(): void {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+}
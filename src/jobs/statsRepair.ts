@@ -0,0 +1,84 @@
+import { statsConfig } from '../config/stats';
+import { VideoStats } from '../models/stats';
+import { getCommentsByVideoIdWithCursor, getThreadReplies } from '../services/commentsService';
+import { overwriteVideoStats, getStatsVideoIds } from '../services/videoStatsService';
+
+/**
+ * Repair of the per-video stats counters. Counter writes are not idempotent, so a retried
+ * or half-failed write can leave a video's totals off; this recomputes them from the base
+ * tables and moves the counters to match.
+ *
+ * The correction is applied as a delta on top of the stored counters, so two repairs of the
+ * same video at once would each apply it. It only runs from `npm run repair:stats`, never on
+ * a timer inside the API processes.
+ */
+
+// Recount a video's live comments, replies and reactions from the base tables
+export async function recomputeVideoStats(videoId: string): Promise<VideoStats> {
+  const stats: VideoStats = { videoId, commentCount: 0, replyCount: 0, likes: 0, dislikes: 0 };
+  const touch = (at: Date | undefined): void => {
+    if (at && (!stats.lastActivityAt || at > stats.lastActivityAt)) {
+      stats.lastActivityAt = at;
+    }
+  };
+
+  let lastCreatedAt: Date | undefined;
+  let lastId: string | undefined;
+
+  while (true) {
+    const comments = await getCommentsByVideoIdWithCursor(videoId, statsConfig.repairPageSize, lastCreatedAt, lastId);
+
+    for (const comment of comments) {
+      touch(comment.createdAt);
+      touch(comment.deletedAt);
+      if (!comment.deleted) {
+        stats.commentCount++;
+        stats.likes += comment.likes;
+        stats.dislikes += comment.dislikes;
+      }
+
+      for (const reply of await getThreadReplies(comment.id)) {
+        touch(reply.createdAt);
+        touch(reply.deletedAt);
+        if (!reply.deleted) {
+          stats.replyCount++;
+          stats.likes += reply.likes;
+          stats.dislikes += reply.dislikes;
+        }
+      }
+    }
+
+    const last = comments[comments.length - 1];
+    if (!last || comments.length < statsConfig.repairPageSize) {
+      break;
+    }
+    lastCreatedAt = last.createdAt;
+    lastId = last.id;
+  }
+
+  return stats;
+}
+
+// Recompute and store one video's stats, returns the corrected values
+export async function repairVideoStats(videoId: string): Promise<VideoStats> {
+  const stats = await recomputeVideoStats(videoId);
+  await overwriteVideoStats(stats);
+  return stats;
+}
+
+// Repair every video that has stats, returns how many were repaired
+export async function repairAllVideoStats(): Promise<number> {
+  let repaired = 0;
+  let pageState: string | undefined;
+
+  do {
+    const page = await getStatsVideoIds(statsConfig.repairPageSize, pageState);
+    for (const videoId of page.videoIds) {
+      await repairVideoStats(videoId);
+      repaired++;
+    }
+    pageState = page.pageState;
+  } while (pageState);
+
+  return repaired;
+}
@@ -0,0 +1,58 @@
+import { tombstoneConfig } from '../config/tombstones';
+import {
+  getTombstonesBefore,
+  removeTombstone,
+  purgeComment,
+  purgeReply
+} from '../services/commentsService';
+
+/**
+ * Background purge of soft-deleted comments and replies past their retention
+ */
+
+// Hard delete every tombstone older than the retention window, returns how many were purged
+export async function purgeExpiredTombstones(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - tombstoneConfig.retentionDays * 24 * 60 * 60 * 1000);
+  const tombstones = await getTombstonesBefore(cutoff, tombstoneConfig.lookbackDays);
+
+  // Replies first so a comment whose last replies expire in the same run can go too
+  const ordered = [...tombstones].sort((a, b) => (a.type === b.type ? 0 : a.type === 'reply' ? -1 : 1));
+
+  for (const tombstone of ordered) {
+    if (tombstone.type === 'reply') {
+      await purgeReply(tombstone.id);
+    } else {
+      await purgeComment(tombstone.id);
+    }
+    await removeTombstone(tombstone);
+  }
+
+  return ordered.length;
+}
+
+let purgeTimer: NodeJS.Timeout | null = null;
+
+export function startTombstonePurge(): void {
+  if (purgeTimer) return;
+
+  const runPurge = async (): Promise<void> => {
+    try {
+      const purged = await purgeExpiredTombstones();
+      if (purged > 0) {
+        console.log(`Purged ${purged} expired tombstones`);
+      }
+    } catch (error) {
+      console.error('Error purging tombstones:', error);
+    }
+  };
+
+  purgeTimer = setInterval(runPurge, tombstoneConfig.purgeIntervalMinutes * 60 * 1000);
+  purgeTimer.unref();
+}
+
+export function stopTombstonePurge(): void {
+  if (purgeTimer) {
+    clearInterval(purgeTimer);
+    purgeTimer = null;
+  }
+}
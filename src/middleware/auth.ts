@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { authConfig } from '../config/auth';
+import { UnauthorizedError, ForbiddenError, sendError } from '../utils/errors';
+
+/**
+ * Bearer token authentication (HS256 JWT signed with AUTH_SECRET)
+ */
+
+export interface AuthUser {
+  id: string;
+  roles: string[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// Verify a bearer token and turn its claims into the acting user
+export function verifyToken(token: string): AuthUser {
+  const payload = jwt.verify(token, authConfig.secret, {
+    algorithms: ['HS256'],
+    ...(authConfig.issuer ? { issuer: authConfig.issuer } : {})
+  }) as JwtPayload;
+
+  if (!payload.sub) {
+    throw new Error('Token is missing subject claim');
+  }
+
+  return {
+    id: payload.sub,
+    roles: Array.isArray(payload.roles) ? payload.roles.map(String) : []
+  };
+}
+
+export function isModerator(user: AuthUser): boolean {
+  return user.roles.includes(authConfig.moderatorRole);
+}
+
+// Only the author or a moderator may edit/delete an item
+export function canModify(user: AuthUser, ownerId: string): boolean {
+  return user.id === ownerId || isModerator(user);
+}
+
+// Attach req.user when a bearer token is present; anonymous requests pass through
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.headers.authorization;
+  if (!header) {
+    next();
+    return;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    sendError(res, new UnauthorizedError('Invalid authorization header'));
+    return;
+  }
+
+  if (!authConfig.secret) {
+    sendError(res, new Error('AUTH_SECRET is not configured'), 'Authentication is not configured');
+    return;
+  }
+
+  try {
+    req.user = verifyToken(token);
+    next();
+  } catch (error) {
+    sendError(res, new UnauthorizedError('Invalid or expired token'));
+  }
+};
+
+// Reject requests that did not present a valid token
+export const requireAuth = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    sendError(res, new UnauthorizedError());
+    return;
+  }
+  next();
+};
+
+// Reject requests from anyone without the moderator role
+export const requireModerator = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    sendError(res, new UnauthorizedError());
+    return;
+  }
+  if (!isModerator(req.user)) {
+    sendError(res, new ForbiddenError('Moderator role required'));
+    return;
+  }
+  next();
+};
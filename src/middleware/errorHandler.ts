@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiError, NotFoundError, sendError } from '../utils/errors';
+
+// Unmatched routes get the same envelope as handler errors
+export const notFoundHandler = (req: Request, res: Response): void => {
+  sendError(res, new NotFoundError(`Route ${req.method} ${req.path} not found`));
+};
+
+// Last-resort handler for errors thrown outside the controllers (e.g. malformed JSON bodies)
+export const errorHandler = (error: unknown, req: Request, res: Response, next: NextFunction): void => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  if (typeof error === 'object' && error !== null && 'type' in error && error.type === 'entity.parse.failed') {
+    sendError(res, new ApiError(400, 'INVALID_JSON', 'Request body is not valid JSON'));
+    return;
+  }
+
+  sendError(res, error);
+};
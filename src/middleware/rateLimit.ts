@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { rateLimitConfig, RateLimitPolicyName } from '../config/rateLimit';
+import { consumeRateLimit } from '../services/rateLimitService';
+import { RateLimitResult } from '../utils/tokenBucket';
+import { RateLimitError, sendError } from '../utils/errors';
+
+/**
+ * Per-user and per-IP request limits
+ *
+ * Every request takes a token from its client IP's bucket, and authenticated requests also
+ * from the user's bucket, so neither new accounts nor many clients behind one account get
+ * around the limit. The X-RateLimit-* headers describe whichever bucket is closest to empty.
+ */
+
+// The bucket that decides the response: a denying one first, then the fewest tokens left
+const mostRestrictive = (results: RateLimitResult[]): RateLimitResult =>
+  results.reduce((worst, result) => {
+    if (worst.allowed !== result.allowed) return result.allowed ? worst : result;
+    if (!result.allowed) return result.retryAfterSeconds > worst.retryAfterSeconds ? result : worst;
+    return result.remaining < worst.remaining ? result : worst;
+  });
+
+// Limit a route with one of the configured policies
+export const rateLimit = (policyName: RateLimitPolicyName) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!rateLimitConfig.enabled) {
+      next();
+      return;
+    }
+
+    const policy = rateLimitConfig.policies[policyName];
+    const ipPolicy = {
+      capacity: policy.capacity * rateLimitConfig.ipMultiplier,
+      refillPerMinute: policy.refillPerMinute * rateLimitConfig.ipMultiplier
+    };
+
+    const results = await Promise.all([
+      consumeRateLimit(`${policyName}:ip:${req.ip ?? 'unknown'}`, ipPolicy),
+      ...(req.user ? [consumeRateLimit(`${policyName}:user:${req.user.id}`, policy)] : [])
+    ]);
+    const result = mostRestrictive(results);
+
+    res.set('X-RateLimit-Limit', String(result.limit));
+    res.set('X-RateLimit-Remaining', String(result.remaining));
+    res.set('X-RateLimit-Reset', String(result.resetSeconds));
+
+    if (!result.allowed) {
+      res.set('Retry-After', String(result.retryAfterSeconds));
+      sendError(res, new RateLimitError(result.retryAfterSeconds));
+      return;
+    }
+
+    next();
+  };
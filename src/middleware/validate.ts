@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ValidationError, FieldError, sendError } from '../utils/errors';
+
+/**
+ * Schema validation for params, query and body
+ */
+
+type RequestPart = 'params' | 'query' | 'body';
+
+export type RequestSchemas = Partial<Record<RequestPart, z.ZodType>>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      validated?: Partial<Record<RequestPart, unknown>>;
+    }
+  }
+}
+
+const toFieldErrors = (part: RequestPart, issues: z.core.$ZodIssue[]): FieldError[] =>
+  issues.map(issue => ({
+    field: [part, ...issue.path.map(String)].join('.'),
+    message: issue.message
+  }));
+
+// Parse each part against its schema, storing the typed result on req.validated
+export const validate = (schemas: RequestSchemas) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const validated: Partial<Record<RequestPart, unknown>> = {};
+    const details: FieldError[] = [];
+
+    for (const part of Object.keys(schemas) as RequestPart[]) {
+      const schema = schemas[part];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[part] ?? {});
+      if (result.success) {
+        validated[part] = result.data;
+      } else {
+        details.push(...toFieldErrors(part, result.error.issues));
+      }
+    }
+
+    if (details.length > 0) {
+      sendError(res, new ValidationError('Request validation failed', details));
+      return;
+    }
+
+    req.validated = validated;
+    next();
+  };
+
+// Read a part that validate() has already parsed
+export function validated<T>(req: Request, part: RequestPart): T {
+  if (!req.validated || !(part in req.validated)) {
+    throw new Error(`Request ${part} was not validated`);
+  }
+  return req.validated[part] as T;
+}
@@ -8,16 +8,57 @@ export interface Comment {
   dislikes: number;
   createdAt: Date;
   replyCount: number;
+  edited: boolean;
+  editedAt?: Date | undefined;
+  deleted: boolean;
+  deletedAt?: Date | undefined;
+  deletedBy?: string | undefined;
+  hidden: boolean;
+  hiddenAt?: Date | undefined;
+  hiddenBy?: string | undefined;
+  // Stopped by the content filter and waiting for a moderator; never in the indexing tables
+  held: boolean;
+  // Pinned to the top of its video's feed by the video owner (at most one per video)
+  pinned: boolean;
+  heartedByCreator: boolean;
 }
 
+// Replies form a tree under their comment: commentId is the thread root, parentId the reply
+// being answered (absent for direct replies), depth starts at 1 and path lists the ids from
+// the top-level reply down to this one, joined by '/'
 export interface Reply {
   id: string;
   commentId: string;
+  parentId?: string | undefined;
+  depth: number;
+  path: string;
   userId: string;
   content: string;
   likes: number;
   dislikes: number;
   createdAt: Date;
+  replyCount: number;
+  edited: boolean;
+  editedAt?: Date | undefined;
+  deleted: boolean;
+  deletedAt?: Date | undefined;
+  deletedBy?: string | undefined;
+  hidden: boolean;
+  hiddenAt?: Date | undefined;
+  hiddenBy?: string | undefined;
+  // Stopped by the content filter and waiting for a moderator; never in the indexing tables
+  held: boolean;
+}
+
+// Comment read from the score index, carrying the score it is ordered by
+export interface ScoredComment extends Comment {
+  score: number;
+}
+
+// Row of a strategy's score index: the comment and the score it is ordered by
+export interface IndexedScore {
+  id: string;
+  score: number;
 }
 
 // Ranked interfaces for display
@@ -26,12 +67,17 @@ export interface RankedComment extends Comment {
   timeAgo: string;
   netScore: number;
   replies?: RankedReply[];
+  replies_next_cursor?: string | undefined;
+  has_more_replies?: boolean;
 }
 
 export interface RankedReply extends Reply {
   score: number;
   timeAgo: string;
   netScore: number;
+  replies?: RankedReply[];
+  replies_next_cursor?: string | undefined;
+  has_more_replies?: boolean;
 }
 
 // Database models for Scylla operations
@@ -44,26 +90,103 @@ export interface CommentRow {
   dislikes: number;
   created_at: Date;
   reply_count: number;
+  edited_at?: Date | null | undefined;
+  deleted_at?: Date | null | undefined;
+  deleted_by?: string | null | undefined;
+  hidden_at?: Date | null | undefined;
+  hidden_by?: string | null | undefined;
+  held_at?: Date | null | undefined;
+  pinned_at?: Date | null | undefined;
+  hearted_at?: Date | null | undefined;
 }
 
 export interface ReplyRow {
   id: string;
   comment_id: string;
+  parent_id?: string | null | undefined;
+  depth?: number | null | undefined;
+  path?: string | null | undefined;
   user_id: string;
   content: string;
   likes: number;
   dislikes: number;
   created_at: Date;
+  edited_at?: Date | null | undefined;
+  deleted_at?: Date | null | undefined;
+  deleted_by?: string | null | undefined;
+  hidden_at?: Date | null | undefined;
+  hidden_by?: string | null | undefined;
+  held_at?: Date | null | undefined;
+}
+
+// Prior version of a comment/reply kept when its content is edited
+export interface EditRevision {
+  id: string;
+  type: 'comment' | 'reply';
+  content: string;
+  editedAt: Date;
+}
+
+// Soft-deleted item waiting for the purge job
+export interface Tombstone {
+  id: string;
+  type: 'comment' | 'reply';
+  deletedAt: Date;
+}
+
+// Who is reading a feed: hidden items stay visible to their author and to moderators
+export interface Viewer {
+  userId?: string | undefined;
+  moderator: boolean;
+}
+
+// Shown in place of a deleted comment that still has replies
+export const DELETED_PLACEHOLDER = '[deleted]';
+
+// Author of items kept after their account was erased, so the threads under them survive
+export const DELETED_USER = '[deleted user]';
+
+// Per-user reaction state on a comment or reply
+export const REACTION_TYPES = ['like', 'dislike', 'none'] as const;
+
+export type ReactionType = typeof REACTION_TYPES[number];
+
+export interface ReactionResult {
+  id: string;
+  userId: string;
+  reaction: ReactionType;
+  previousReaction: ReactionType;
+  likes: number;
+  dislikes: number;
 }
 
 // Pagination types
+
+// Which end of the timeline a chronological page starts from
+export const PAGE_ORDERS = ['newest', 'oldest'] as const;
+
+export type PageOrder = typeof PAGE_ORDERS[number];
+
 export interface PaginationResponse {
   next_cursor?: string | undefined;
   has_more: boolean;
+  // Back toward the start of the order: newer items when newest first, older when oldest first
+  prev_cursor?: string | undefined;
+  has_prev?: boolean | undefined;
   total_estimated?: number;
 }
 
 export interface CursorInfo {
   createdAt: Date;
   id: string;
+  // Set for prev cursors, which continue before the position instead of after it
+  backward?: boolean | undefined;
+  // Unsigned cursor from before signing, not tied to any query
+  legacy?: boolean | undefined;
+}
+
+export interface ScoreCursorInfo {
+  score: number;
+  id: string;
+  legacy?: boolean | undefined;
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+// Ways a video's base rows and indexing rows can disagree
+export const DIVERGENCE_KINDS = [
+  // Base row with no indexing row, so feeds never show it
+  'missing_index_row',
+  // Indexing row with no base row behind it, or for a held item that should not be indexed
+  'orphan_index_row',
+  // Both rows exist but columns differ, e.g. a stale likes snapshot
+  'mismatched_row',
+  // Stored reply count differs from the live replies actually underneath
+  'mismatched_reply_count',
+  // Reply whose comment or parent reply is gone
+  'orphan_reply'
+] as const;
+
+export type DivergenceKind = typeof DIVERGENCE_KINDS[number];
+
+export interface Divergence {
+  kind: DivergenceKind;
+  itemType: 'comment' | 'reply';
+  id: string;
+  table: string;
+  detail: string;
+  fixed: boolean;
+}
+
+export interface ConsistencyReport {
+  videoId: string;
+  commentsChecked: number;
+  repliesChecked: number;
+  divergences: Divergence[];
+}
@@ -0,0 +1,23 @@
+// Outcome of screening new content: publish it, hold it for a moderator, or refuse it
+export type FilterVerdict = 'publish' | 'hold' | 'reject';
+
+// What is being screened
+export interface ContentCandidate {
+  itemType: 'comment' | 'reply';
+  userId: string;
+  videoId: string;
+  content: string;
+}
+
+// One filter's objection; filters that have none return null
+export interface FilterFinding {
+  filter: string;
+  verdict: Exclude<FilterVerdict, 'publish'>;
+  message: string;
+}
+
+// Combined result: the strictest finding wins
+export interface ScreeningResult {
+  verdict: FilterVerdict;
+  findings: FilterFinding[];
+}
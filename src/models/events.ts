@@ -0,0 +1,21 @@
+// Events pushed to stream subscribers of a video
+export const COMMENT_EVENT_TYPES = [
+  'comment.created',
+  'reply.created',
+  'comment.deleted',
+  'comment.reactions',
+  'reply.reactions'
+] as const;
+
+export type CommentEventType = typeof COMMENT_EVENT_TYPES[number];
+
+export interface CommentEvent {
+  id: string;
+  type: CommentEventType;
+  videoId: string;
+  occurredAt: Date;
+  data: Record<string, unknown>;
+}
+
+// Sent when a resume cursor is older than the retained events, so the client refetches
+export const STREAM_RESET_EVENT = 'stream.reset';
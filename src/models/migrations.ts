@@ -0,0 +1,31 @@
+// A CQL file under migrations/, named <version>_<name>.cql
+export interface Migration {
+  version: number;
+  name: string;
+  checksum: string;
+  statements: string[];
+}
+
+// A row of schema_migrations
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: Date;
+}
+
+export type MigrationState =
+  // Not applied yet
+  | 'pending'
+  | 'applied'
+  // Applied, but the file has changed since
+  | 'modified'
+  // Applied by a newer release whose file this one doesn't have
+  | 'unknown';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt?: Date | undefined;
+}
@@ -0,0 +1,68 @@
+import { Comment, Reply } from './comments';
+
+// Why a viewer reported a comment or reply
+export const REPORT_REASONS = [
+  'spam',
+  'harassment',
+  'hate_speech',
+  'violence',
+  'sexual_content',
+  'misinformation',
+  'other'
+] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number];
+
+// What a moderator can do with a reported (or any) item
+export const MODERATION_ACTIONS = ['approve', 'hide', 'remove', 'ban_author'] as const;
+
+export type ModerationAction = typeof MODERATION_ACTIONS[number];
+
+export type ModerationStatus = 'pending' | 'approved' | 'hidden' | 'removed';
+
+export type ModeratedItemType = 'comment' | 'reply';
+
+// A single viewer's report
+export interface ContentReport {
+  itemId: string;
+  itemType: ModeratedItemType;
+  videoId: string;
+  reporterId: string;
+  reason: ReportReason;
+  details?: string | undefined;
+  reportedAt: Date;
+}
+
+// Where a reported item stands: pending until a moderator acts on it
+export interface ModerationItem {
+  itemId: string;
+  itemType: ModeratedItemType;
+  videoId: string;
+  authorId: string;
+  status: ModerationStatus;
+  queuedAt?: Date | undefined;
+  resolvedAt?: Date | undefined;
+  resolvedBy?: string | undefined;
+  action?: ModerationAction | undefined;
+}
+
+// Entry in a video's moderation queue, with the item as it stands now. Reasons are the
+// report reasons given, or the content filters that held the item
+export interface QueuedItem {
+  itemId: string;
+  itemType: ModeratedItemType;
+  videoId: string;
+  authorId: string;
+  reasons: string[];
+  reportCount: number;
+  queuedAt: Date;
+  item?: Comment | Reply | undefined;
+}
+
+// User barred from commenting and reacting
+export interface BannedUser {
+  userId: string;
+  bannedAt: Date;
+  bannedBy: string;
+  reason?: string | undefined;
+}
@@ -0,0 +1,22 @@
+import { Comment, Reply, ScoredComment } from './comments';
+
+// What the first page of a video's comments is built from, before anything depends on the viewer
+export interface CachedCommentPage {
+  comments: Comment[] | ScoredComment[];
+  // type=nested only: the newest replies of each comment on the page
+  repliesByComment?: Map<string, Reply[]> | undefined;
+  pinned: Comment | null;
+  totalEstimated: number;
+}
+
+export interface PageCacheMetrics {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  // hits / (hits + misses), 0 before the first lookup
+  hitRate: number;
+  invalidations: number;
+  entries: number;
+  evictions: number;
+  ttlSeconds: number;
+}
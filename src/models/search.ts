@@ -0,0 +1,40 @@
+import { RankedComment } from './comments';
+
+// A word of some text, normalized for matching, with where it sits in the original
+export interface SearchToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+// Consecutive words that must all appear in order; with `prefix` the last one only has to
+// start with its term. A single word is a one-term clause.
+export interface SearchClause {
+  terms: string[];
+  prefix: boolean;
+}
+
+// Row of the inverted index: a comment containing the term
+export interface SearchPosting {
+  commentId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+export interface SearchFilters {
+  authorId?: string | undefined;
+  from?: Date | undefined;
+  to?: Date | undefined;
+}
+
+// Span of the original content that matched the query
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchHit extends RankedComment {
+  highlights: SearchHighlight[];
+  // Content HTML-escaped, with the matches wrapped in <mark>
+  highlighted: string;
+}
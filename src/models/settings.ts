@@ -0,0 +1,27 @@
+// Feed settings for a single video; unset fields fall back to its channel
+export interface VideoSettings {
+  videoId: string;
+  channelId?: string | undefined;
+  rankingStrategy?: string | undefined;
+  // User allowed to pin and heart the video's comments
+  ownerId?: string | undefined;
+  pinnedCommentId?: string | undefined;
+  updatedAt?: Date | undefined;
+}
+
+// Feed settings shared by every video of a channel
+export interface ChannelSettings {
+  channelId: string;
+  rankingStrategy?: string | undefined;
+  updatedAt?: Date | undefined;
+}
+
+// Settings as applied to a feed request, with where the strategy came from
+export interface ResolvedFeedSettings {
+  videoId: string;
+  channelId?: string | undefined;
+  ownerId?: string | undefined;
+  pinnedCommentId?: string | undefined;
+  rankingStrategy: string;
+  rankingStrategySource: 'video' | 'channel' | 'default';
+}
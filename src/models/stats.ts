@@ -0,0 +1,9 @@
+// Totals over a video's live comments and replies (any depth)
+export interface VideoStats {
+  videoId: string;
+  commentCount: number;
+  replyCount: number;
+  likes: number;
+  dislikes: number;
+  lastActivityAt?: Date | undefined;
+}
@@ -0,0 +1,42 @@
+import { RankedComment, RankedReply, ReactionType } from './comments';
+
+// Entry in a user's history table: enough to order it and find the item
+export interface UserContentRef {
+  type: 'comment' | 'reply';
+  id: string;
+  createdAt: Date;
+  videoId: string;
+}
+
+// A user's comment or reply as listed on their history, with the video it was written under
+export type UserContentEntry =
+  | ({ type: 'comment' } & RankedComment)
+  | ({ type: 'reply'; videoId: string } & RankedReply);
+
+// A like/dislike the user has given
+export interface UserReaction {
+  itemType: 'comment' | 'reply';
+  itemId: string;
+  reaction: ReactionType;
+  updatedAt: Date;
+}
+
+export const ERASURE_STATUSES = ['running', 'completed', 'failed'] as const;
+
+export type ErasureStatus = typeof ERASURE_STATUSES[number];
+
+// Progress of erasing an account's content; updatedAt moves with every batch, so a job
+// whose updatedAt stops moving was abandoned and can be resumed
+export interface UserErasure {
+  userId: string;
+  status: ErasureStatus;
+  requestedBy: string;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt?: Date | undefined;
+  // Items hard deleted, and items kept as anonymous placeholders because others replied
+  itemsDeleted: number;
+  itemsAnonymized: number;
+  reactionsRemoved: number;
+  lastError?: string | undefined;
+}
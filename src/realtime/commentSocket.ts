@@ -0,0 +1,91 @@
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { openCommentStream } from '../services/eventsService';
+import { streamConfig } from '../config/stream';
+import { STREAM_RESET_EVENT } from '../models/events';
+import { parseStreamCursor, toStreamMessage } from '../controllers/streamController';
+import { videoIdParams } from '../validation/commentSchemas';
+
+/**
+ * WebSocket twin of the SSE stream: ws://host/api/comments/:videoId/ws?cursor=...
+ *
+ * Messages are JSON in the same shape as the SSE data lines. The socket is read-only;
+ * anything the client sends is ignored.
+ */
+
+const SOCKET_PATH = /^\/api\/comments\/([^/]+)\/ws$/;
+
+// Refuse an upgrade with a plain HTTP status, since there is no socket to send an envelope on
+const rejectUpgrade = (socket: Duplex, status: number, reason: string): void => {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+};
+
+// Stream a video's events to one connected socket
+const handleConnection = async (ws: WebSocket, videoId: string, cursor: string | undefined): Promise<void> => {
+  let alive = true;
+  ws.on('pong', () => {
+    alive = true;
+  });
+
+  const unsubscribe = await openCommentStream(videoId, parseStreamCursor(cursor, videoId), {
+    onEvent: event => ws.send(JSON.stringify(toStreamMessage(event))),
+    onReset: () => ws.send(JSON.stringify({ type: STREAM_RESET_EVENT }))
+  });
+
+  // Ping on the heartbeat interval and drop sockets that stopped answering
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      ws.terminate();
+      return;
+    }
+    alive = false;
+    ws.ping();
+  }, streamConfig.heartbeatSeconds * 1000);
+
+  ws.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+  if (ws.readyState !== WebSocket.OPEN) {
+    clearInterval(heartbeat);
+    unsubscribe();
+  }
+};
+
+// Route WebSocket upgrades for comment streams; other upgrade requests are refused
+export function attachCommentSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const match = SOCKET_PATH.exec(url.pathname);
+    if (!match) {
+      rejectUpgrade(socket, 404, 'Not Found');
+      return;
+    }
+
+    const params = videoIdParams.safeParse({ videoId: decodeURIComponent(match[1] as string) });
+    const cursor = url.searchParams.get('cursor') ?? undefined;
+    if (!params.success) {
+      rejectUpgrade(socket, 400, 'Bad Request');
+      return;
+    }
+    try {
+      parseStreamCursor(cursor, params.data.videoId);
+    } catch (error) {
+      rejectUpgrade(socket, 400, 'Bad Request');
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      handleConnection(ws, params.data.videoId, cursor).catch(error => {
+        console.error('Failed to open comment socket:', error);
+        ws.close(1011, 'Failed to open comment stream');
+      });
+    });
+  });
+
+  return wss;
+}
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Topic-based publish/subscribe used to fan events out to stream connections.
+ *
+ * The in-process implementation only reaches subscribers on the same instance; a broker
+ * backed implementation (Redis, NATS, ...) can be installed with setCommentEventPubSub at startup.
+ */
+
+export type Unsubscribe = () => void;
+
+export interface PubSub<T> {
+  publish(topic: string, message: T): Promise<void>;
+  subscribe(topic: string, handler: (message: T) => void): Unsubscribe;
+}
+
+export class InMemoryPubSub<T> implements PubSub<T> {
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream, so the default warning threshold is meaningless here
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(topic: string, message: T): Promise<void> {
+    this.emitter.emit(topic, message);
+  }
+
+  subscribe(topic: string, handler: (message: T) => void): Unsubscribe {
+    this.emitter.on(topic, handler);
+    return () => {
+      this.emitter.off(topic, handler);
+    };
+  }
+}
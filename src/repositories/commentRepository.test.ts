@@ -0,0 +1,369 @@
+import { afterAll, beforeEach, describe, expect, it } from 'vitest';
+import { CommentRow, ReplyRow } from '../models/comments';
+import { UserErasure } from '../models/users';
+import { CommentEvent } from '../models/events';
+import { ContentReport, ModerationItem } from '../models/moderation';
+import { CommentRepository } from './commentRepository';
+import { InMemoryCommentRepository } from './inMemoryCommentRepository';
+
+/**
+ * The behaviour services rely on from any CommentRepository. Each backend runs the same
+ * cases through describeRepositoryContract with a factory for a fresh, empty store.
+ *
+ * The in-memory store always runs. Scylla runs when SCYLLA_TEST_HOSTS names a node: the
+ * migrations are applied to SCYLLA_TEST_KEYSPACE (default comments_contract_test) and every
+ * table in it is truncated before each case, so never point it at a keyspace with real data.
+ */
+
+const SCYLLA_TEST_HOSTS = process.env.SCYLLA_TEST_HOSTS;
+const SCYLLA_TEST_KEYSPACE = process.env.SCYLLA_TEST_KEYSPACE || 'comments_contract_test';
+
+const T0 = new Date('2025-07-31T12:00:00.000Z');
+
+const at = (seconds: number): Date => new Date(T0.getTime() + seconds * 1000);
+
+// v4-shaped ids that sort the way their number does
+const uuid = (n: number): string => `00000000-0000-4000-8000-${n.toString().padStart(12, '0')}`;
+
+const commentRow = (n: number, overrides: Partial<CommentRow> = {}): CommentRow => ({
+  id: uuid(n),
+  video_id: 'video_1',
+  user_id: 'user_1',
+  content: `comment ${n}`,
+  likes: 0,
+  dislikes: 0,
+  created_at: at(n),
+  reply_count: 0,
+  ...overrides
+});
+
+const replyRow = (n: number, commentId: string, overrides: Partial<ReplyRow> = {}): ReplyRow => ({
+  id: uuid(n),
+  comment_id: commentId,
+  depth: 1,
+  path: uuid(n),
+  user_id: 'user_2',
+  content: `reply ${n}`,
+  likes: 0,
+  dislikes: 0,
+  created_at: at(n),
+  ...overrides
+});
+
+const ids = (items: { id: string }[]): string[] => items.map(item => item.id.toString());
+
+const describeRepositoryContract = (
+  name: string,
+  create: () => CommentRepository | Promise<CommentRepository>,
+  options: { skip?: boolean; teardown?: () => Promise<void> } = {}
+): void => {
+  describe.skipIf(!!options.skip)(`${name} CommentRepository`, () => {
+    let repository: CommentRepository;
+
+    // Truncating a keyspace takes a while on a real cluster
+    beforeEach(async () => {
+      repository = await create();
+    }, 60_000);
+
+    afterAll(async () => {
+      await options.teardown?.();
+    });
+
+    describe('comment feeds', () => {
+      beforeEach(async () => {
+        for (const n of [1, 2, 3, 4, 5]) {
+          await repository.insertComment(commentRow(n));
+        }
+        await repository.insertComment(commentRow(6, { video_id: 'video_2' }));
+      });
+
+      it('reads newest first and continues strictly past the cursor', async () => {
+        const first = await repository.getCommentsByVideo('video_1', 2);
+        expect(ids(first)).toEqual([uuid(5), uuid(4)]);
+
+        const second = await repository.getCommentsByVideo('video_1', 2, at(4), uuid(4));
+        expect(ids(second)).toEqual([uuid(3), uuid(2)]);
+      });
+
+      it('reads oldest first from just after the cursor', async () => {
+        const page = await repository.getCommentsByVideo('video_1', 3, at(2), uuid(2), 'oldest');
+        expect(ids(page)).toEqual([uuid(3), uuid(4), uuid(5)]);
+      });
+
+      it('breaks ties on created_at by id', async () => {
+        await repository.insertComment(commentRow(10, { created_at: at(3) }));
+
+        const page = await repository.getCommentsByVideo('video_1', 10, at(4), uuid(4));
+        expect(ids(page)).toEqual([uuid(10), uuid(3), uuid(2), uuid(1)]);
+
+        const past = await repository.getCommentsByVideo('video_1', 10, at(3), uuid(10));
+        expect(ids(past)).toEqual([uuid(3), uuid(2), uuid(1)]);
+      });
+
+      it('keeps held comments out of the feed until released, and finds them by id', async () => {
+        await repository.insertComment(commentRow(7, { held_at: at(7) }));
+
+        expect(ids(await repository.getCommentsByVideo('video_1', 10))).not.toContain(uuid(7));
+        expect(ids(await repository.getCommentsByIds([uuid(7), uuid(99)]))).toEqual([uuid(7)]);
+
+        const [held] = await repository.getCommentsByIds([uuid(7)]);
+        await repository.releaseComment(held!);
+
+        const page = await repository.getCommentsByVideo('video_1', 1);
+        expect(ids(page)).toEqual([uuid(7)]);
+        expect(page[0]!.held).toBe(false);
+      });
+    });
+
+    describe('updates and removal', () => {
+      it('leaves undefined columns alone and clears null ones', async () => {
+        await repository.insertComment(commentRow(1, { deleted_at: at(5), deleted_by: 'user_1' }));
+        const [comment] = await repository.getCommentsByIds([uuid(1)]);
+
+        await repository.updateComment(comment!, { content: 'edited', edited_at: at(6), deleted_at: null, deleted_by: null });
+
+        const [updated] = await repository.getCommentsByIds([uuid(1)]);
+        expect(updated).toMatchObject({ content: 'edited', edited: true, deleted: false, videoId: 'video_1', userId: 'user_1' });
+      });
+
+      it('takes an item off its previous author\'s history when user_id changes', async () => {
+        await repository.insertComment(commentRow(1));
+        const [comment] = await repository.getCommentsByIds([uuid(1)]);
+
+        await repository.updateComment(comment!, { user_id: '[deleted user]' });
+
+        expect(await repository.getUserItemRefs('comment', 'user_1', 10)).toEqual([]);
+        const [anonymized] = await repository.getCommentsByIds([uuid(1)]);
+        expect(anonymized!.userId).toBe('[deleted user]');
+      });
+
+      it('removes a comment with its history entry, counters, reactions and revisions', async () => {
+        await repository.insertComment(commentRow(1));
+        await repository.incrementCommentCounters(uuid(1), { likes: 3 });
+        await repository.swapReaction('comment', uuid(1), 'user_2', 'like');
+        await repository.addRevision({ id: uuid(1), type: 'comment', content: 'before', editedAt: at(10) });
+        const [comment] = await repository.getCommentsByIds([uuid(1)]);
+
+        await repository.removeComment(comment!);
+
+        expect(await repository.getCommentsByIds([uuid(1)])).toEqual([]);
+        expect(await repository.getUserItemRefs('comment', 'user_1', 10)).toEqual([]);
+        expect(await repository.getRevisions(uuid(1))).toEqual([]);
+        expect(await repository.swapReaction('comment', uuid(1), 'user_2', 'none')).toBe('none');
+
+        await repository.insertComment(commentRow(1));
+        const [reinserted] = await repository.getCommentsByIds([uuid(1)]);
+        expect(reinserted!.likes).toBe(0);
+      });
+    });
+
+    describe('replies', () => {
+      beforeEach(async () => {
+        await repository.insertComment(commentRow(1));
+        for (const n of [11, 12, 13]) {
+          await repository.insertReply(replyRow(n, uuid(1)), 'video_1');
+        }
+        await repository.insertReply(replyRow(14, uuid(1), { parent_id: uuid(12), depth: 2, path: `${uuid(12)}/${uuid(14)}` }), 'video_1');
+        await repository.insertReply(replyRow(15, uuid(1), { held_at: at(15) }), 'video_1');
+      });
+
+      it('pages direct replies of a comment without nested or held ones', async () => {
+        expect(ids(await repository.getRepliesByComment(uuid(1), 10))).toEqual([uuid(13), uuid(12), uuid(11)]);
+        expect(ids(await repository.getRepliesByComment(uuid(1), 10, at(12), uuid(12)))).toEqual([uuid(11)]);
+        expect(ids(await repository.getRepliesByComment(uuid(1), 10, at(11), uuid(11), 'oldest'))).toEqual([uuid(12), uuid(13)]);
+        expect(ids(await repository.getAllRepliesByComment(uuid(1)))).toEqual([uuid(13), uuid(12), uuid(11)]);
+      });
+
+      it('pages replies to a reply by their parent', async () => {
+        expect(ids(await repository.getRepliesByParent(uuid(12), 10))).toEqual([uuid(14)]);
+        expect(ids(await repository.getAllRepliesByParent(uuid(11)))).toEqual([]);
+      });
+
+      it('returns the newest limit direct replies of each comment', async () => {
+        await repository.insertComment(commentRow(2));
+
+        const pages = await repository.getReplyPagesByComments([uuid(1), uuid(2)], 2);
+        expect(ids(pages.get(uuid(1)) ?? [])).toEqual([uuid(13), uuid(12)]);
+        expect(pages.get(uuid(2)) ?? []).toEqual([]);
+      });
+
+      it('lists the author\'s replies with the video they were written under', async () => {
+        const refs = await repository.getUserItemRefs('reply', 'user_2', 2);
+        expect(refs.map(ref => [ref.id, ref.videoId])).toEqual([[uuid(15), 'video_1'], [uuid(14), 'video_1']]);
+      });
+    });
+
+    describe('counters and reactions', () => {
+      it('applies counter deltas and never goes below zero', async () => {
+        await repository.insertComment(commentRow(1, { likes: 2 }));
+        await repository.incrementCommentCounters(uuid(1), { likes: 3, reply_count: 1 });
+        await repository.incrementCommentCounters(uuid(1), { dislikes: -4 });
+
+        const [comment] = await repository.getCommentsByIds([uuid(1)]);
+        expect(comment).toMatchObject({ likes: 5, dislikes: 0, replyCount: 1 });
+      });
+
+      it('starts video counters at zero', async () => {
+        expect(await repository.getVideoCounters('video_1')).toEqual({ comment_count: 0, reply_count: 0, likes: 0, dislikes: 0 });
+
+        await repository.incrementVideoCounters('video_1', { comment_count: 2, likes: 1 });
+        await repository.incrementVideoCounters('video_1', { comment_count: -1 });
+        expect(await repository.getVideoCounters('video_1')).toEqual({ comment_count: 1, reply_count: 0, likes: 1, dislikes: 0 });
+      });
+
+      it('swaps a reaction and returns the state it moved from', async () => {
+        expect(await repository.swapReaction('reply', uuid(1), 'user_1', 'like')).toBe('none');
+        expect(await repository.swapReaction('reply', uuid(1), 'user_1', 'dislike')).toBe('like');
+        expect(await repository.swapReaction('reply', uuid(1), 'user_2', 'like')).toBe('none');
+
+        await repository.removeReaction('reply', uuid(1), 'user_1');
+        expect(await repository.swapReaction('reply', uuid(1), 'user_1', 'like')).toBe('none');
+      });
+
+      it('lists a user\'s reactions in item id order and drops ones set to none', async () => {
+        await repository.trackUserReaction('user_1', 'comment', uuid(3), 'like');
+        await repository.trackUserReaction('user_1', 'reply', uuid(1), 'dislike');
+        await repository.trackUserReaction('user_1', 'comment', uuid(2), 'like');
+        await repository.trackUserReaction('user_1', 'comment', uuid(2), 'none');
+
+        const reactions = await repository.getUserReactions('user_1', 10);
+        expect(reactions.map(reaction => [reaction.itemId, reaction.reaction])).toEqual([[uuid(1), 'dislike'], [uuid(3), 'like']]);
+        expect((await repository.getUserReactions('user_1', 10, uuid(1))).map(reaction => reaction.itemId)).toEqual([uuid(3)]);
+      });
+    });
+
+    it('returns edit revisions newest first', async () => {
+      await repository.addRevision({ id: uuid(1), type: 'comment', content: 'first', editedAt: at(10) });
+      await repository.addRevision({ id: uuid(1), type: 'comment', content: 'second', editedAt: at(20) });
+
+      expect((await repository.getRevisions(uuid(1))).map(revision => revision.content)).toEqual(['second', 'first']);
+
+      await repository.deleteRevisions(uuid(1));
+      expect(await repository.getRevisions(uuid(1))).toEqual([]);
+    });
+
+    it('walks a strategy\'s score index by score, then id, past the cursor', async () => {
+      for (const [n, score] of [[1, 5], [2, 9], [3, 5], [4, 1]] as const) {
+        await repository.insertComment(commentRow(n));
+        const [comment] = await repository.getCommentsByIds([uuid(n)]);
+        await repository.writeCommentScores(comment!, [{ strategy: 'wilson', score }, { strategy: 'hot', score: -score }]);
+      }
+
+      const first = await repository.getRankedCommentScores('video_1', 'wilson', 2);
+      expect(first).toEqual([{ id: uuid(2), score: 9 }, { id: uuid(3), score: 5 }]);
+      expect(ids(await repository.getRankedCommentScores('video_1', 'wilson', 10, 5, uuid(3)))).toEqual([uuid(1), uuid(4)]);
+      expect(await repository.getCommentScores(uuid(2))).toEqual(new Map([['wilson', 9], ['hot', -9]]));
+
+      await repository.removeCommentScores(uuid(2));
+      expect(ids(await repository.getRankedCommentScores('video_1', 'wilson', 1))).toEqual([uuid(3)]);
+    });
+
+    it('returns stream events after the cursor, oldest first', async () => {
+      const occurredAt = new Date();
+      const event = (n: number, videoId = 'video_1'): CommentEvent => ({
+        id: uuid(n),
+        type: 'comment.deleted',
+        videoId,
+        occurredAt: new Date(occurredAt.getTime() + n),
+        data: { id: uuid(n) }
+      });
+      for (const n of [3, 1, 2, 4]) {
+        await repository.appendCommentEvent(event(n), 60);
+      }
+      await repository.appendCommentEvent(event(5, 'video_2'), 60);
+
+      const missed = await repository.getCommentEventsSince('video_1', { createdAt: event(1).occurredAt, id: uuid(1) }, 2);
+      expect(ids(missed)).toEqual([uuid(2), uuid(3)]);
+      expect(missed[0]!.data).toEqual({ id: uuid(2) });
+    });
+
+    it('saves an erasure only over the state it was read at', async () => {
+      const erasure: UserErasure = {
+        userId: 'user_1',
+        status: 'running',
+        requestedBy: 'user_1',
+        startedAt: at(0),
+        updatedAt: at(0),
+        itemsDeleted: 0,
+        itemsAnonymized: 0,
+        reactionsRemoved: 0
+      };
+
+      expect(await repository.saveUserErasure(erasure, null)).toBe(true);
+      expect(await repository.saveUserErasure(erasure, null)).toBe(false);
+
+      const next = { ...erasure, itemsDeleted: 5, updatedAt: at(10) };
+      expect(await repository.saveUserErasure(next, at(0))).toBe(true);
+      expect(await repository.saveUserErasure({ ...next, updatedAt: at(20) }, at(0))).toBe(false);
+      expect(await repository.getUserErasure('user_1')).toMatchObject({ itemsDeleted: 5, updatedAt: at(10) });
+    });
+
+    it('takes one report per reporter and one moderation state per item', async () => {
+      const report: ContentReport = { itemId: uuid(1), itemType: 'comment', videoId: 'video_1', reporterId: 'user_2', reason: 'spam', reportedAt: at(0) };
+      const item: ModerationItem = { itemId: uuid(1), itemType: 'comment', videoId: 'video_1', authorId: 'user_1', status: 'pending', queuedAt: at(0) };
+
+      expect(await repository.insertReport(report)).toBe(true);
+      expect(await repository.insertReport(report)).toBe(false);
+      expect(await repository.insertReport({ ...report, reporterId: 'user_3' })).toBe(true);
+
+      await repository.incrementReportCount(uuid(1));
+      await repository.incrementReportCount(uuid(1));
+      expect(await repository.getReportCounts([uuid(1), uuid(2)])).toEqual(new Map([[uuid(1), 2]]));
+
+      expect(await repository.createModerationItem(item)).toBe(true);
+      expect(await repository.createModerationItem({ ...item, status: 'approved' })).toBe(false);
+      expect((await repository.getModerationItem(uuid(1)))?.status).toBe('pending');
+    });
+
+    it('applies video settings changes and records the pinned comment', async () => {
+      expect(await repository.getVideoSettings('video_1')).toBeNull();
+
+      await repository.updateVideoSettings('video_1', { ownerId: 'user_1', rankingStrategy: 'hot' }, at(0));
+      await repository.setPinnedComment('video_1', uuid(1), at(1));
+      await repository.updateVideoSettings('video_1', { rankingStrategy: null }, at(2));
+
+      const settings = await repository.getVideoSettings('video_1');
+      expect(settings).toMatchObject({ ownerId: 'user_1', pinnedCommentId: uuid(1) });
+      expect(settings?.rankingStrategy).toBeUndefined();
+    });
+  });
+};
+
+describeRepositoryContract('in-memory', () => new InMemoryCommentRepository());
+
+// The database config is read when its module loads, so the test keyspace is set up first
+// and the Scylla modules are only imported once the guard lets the suite run
+let scyllaMigrated = false;
+
+const createScyllaRepository = async (): Promise<CommentRepository> => {
+  process.env.SCYLLA_HOSTS = SCYLLA_TEST_HOSTS;
+  process.env.SCYLLA_KEYSPACE = SCYLLA_TEST_KEYSPACE;
+  const { connectToDatabase } = await import('../config/database');
+  const { migrateUp } = await import('../services/migrationService');
+  const { ScyllaCommentRepository } = await import('./scyllaCommentRepository');
+
+  if (!scyllaMigrated) {
+    await migrateUp();
+    scyllaMigrated = true;
+  }
+
+  const client = await connectToDatabase();
+  const tables = await client.execute(
+    'SELECT table_name FROM system_schema.tables WHERE keyspace_name = ?',
+    [SCYLLA_TEST_KEYSPACE],
+    { prepare: true }
+  );
+  for (const row of tables.rows.filter(row => row.table_name !== 'schema_migrations')) {
+    await client.execute(`TRUNCATE ${row.table_name}`);
+  }
+
+  return new ScyllaCommentRepository();
+};
+
+describeRepositoryContract('Scylla', createScyllaRepository, {
+  skip: !SCYLLA_TEST_HOSTS,
+  teardown: async () => {
+    const { disconnectFromDatabase } = await import('../config/database');
+    await disconnectFromDatabase();
+  }
+});
@@ -0,0 +1,246 @@
+import {
+  Comment,
+  Reply,
+  CommentRow,
+  ReplyRow,
+  ReactionType,
+  EditRevision,
+  Tombstone,
+  IndexedScore,
+  CursorInfo,
+  PageOrder
+} from '../models/comments';
+import { UserContentRef, UserReaction, UserErasure } from '../models/users';
+import { ContentReport, ModerationItem, QueuedItem, BannedUser } from '../models/moderation';
+import { VideoSettings, ChannelSettings } from '../models/settings';
+import { CommentEvent } from '../models/events';
+import { SearchPosting } from '../models/search';
+
+/**
+ * Storage behind the comments API.
+ *
+ * Services keep the rules (who may do what, which side effects follow a write) and go
+ * through this interface for every read and write, so the same code runs on Scylla or,
+ * with STORAGE_BACKEND=memory, in process memory with no database at all.
+ *
+ * Chronological reads are newest first by (createdAt DESC, id DESC) and continue strictly
+ * past a (createdAt, id) cursor; with order 'oldest' they run the other way, oldest first
+ * from just after the cursor. Published items are the ones in the feeds; held items are
+ * only found by id. Likes, dislikes and reply counts come back with every counter delta
+ * applied, never below zero.
+ */
+
+export interface CounterDeltas {
+  likes?: number;
+  dislikes?: number;
+  reply_count?: number;
+}
+
+export interface VideoCounterDeltas {
+  comment_count?: number;
+  reply_count?: number;
+  likes?: number;
+  dislikes?: number;
+}
+
+// Columns an update can set on a comment or reply; undefined leaves a column as it is, null
+// clears it. A new user_id also takes the item out of the previous author's history.
+export interface ItemChanges {
+  user_id?: string;
+  content?: string | null;
+  edited_at?: Date | null;
+  deleted_at?: Date | null;
+  deleted_by?: string | null;
+  hidden_at?: Date | null;
+  hidden_by?: string | null;
+}
+
+export interface CommentChanges extends ItemChanges {
+  pinned_at?: Date | null;
+  hearted_at?: Date | null;
+}
+
+// A strategy's new score for a comment, with the one it is indexed under now if any
+export interface ScoreChange {
+  strategy: string;
+  score: number;
+  previousScore?: number | undefined;
+}
+
+export interface VideoSettingsChanges {
+  channelId?: string | null | undefined;
+  rankingStrategy?: string | null | undefined;
+  ownerId?: string | null | undefined;
+}
+
+export type QueueEntry = Omit<QueuedItem, 'reportCount' | 'item'>;
+
+export interface CommentRepository {
+  // Published comments of a video, newest first unless order is 'oldest'
+  getCommentsByVideo(videoId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Comment[]>;
+  // Comments by id, published or held; missing ids are left out and order is not kept
+  getCommentsByIds(commentIds: string[]): Promise<Comment[]>;
+  // Store a new comment and its history entry, publishing it unless it is held
+  insertComment(row: CommentRow): Promise<void>;
+  // Publish a held comment at its original place in the timeline
+  releaseComment(comment: Comment): Promise<void>;
+  updateComment(comment: Comment, changes: CommentChanges): Promise<void>;
+  // Every trace of a comment: rows, history entry, reactions, counters and edit history
+  removeComment(comment: Comment): Promise<void>;
+
+  // Published direct replies of a comment, newest first unless order is 'oldest'
+  getRepliesByComment(commentId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]>;
+  getAllRepliesByComment(commentId: string): Promise<Reply[]>;
+  // The newest `limit` direct replies of each comment
+  getReplyPagesByComments(commentIds: string[], limit: number): Promise<Map<string, Reply[]>>;
+  // Published replies to a reply, newest first unless order is 'oldest'
+  getRepliesByParent(parentId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]>;
+  getAllRepliesByParent(parentId: string): Promise<Reply[]>;
+  getRepliesByIds(replyIds: string[]): Promise<Reply[]>;
+  // videoId is the root comment's, for the author's history
+  insertReply(row: ReplyRow, videoId: string): Promise<void>;
+  releaseReply(reply: Reply): Promise<void>;
+  updateReply(reply: Reply, changes: ItemChanges): Promise<void>;
+  removeReply(reply: Reply): Promise<void>;
+
+  incrementCommentCounters(commentId: string, deltas: CounterDeltas): Promise<void>;
+  incrementReplyCounters(replyId: string, deltas: CounterDeltas): Promise<void>;
+
+  // Move a user's reaction to a new state atomically, returning the state it moved from
+  swapReaction(itemType: 'comment' | 'reply', itemId: string, userId: string, reaction: ReactionType): Promise<ReactionType>;
+  // Keep the user's own list of reactions in step; 'none' drops the entry
+  trackUserReaction(userId: string, itemType: 'comment' | 'reply', itemId: string, reaction: ReactionType): Promise<void>;
+  removeReaction(itemType: 'comment' | 'reply', itemId: string, userId: string): Promise<void>;
+  // A user's reactions in item id order, after lastItemId
+  getUserReactions(userId: string, limit: number, lastItemId?: string): Promise<UserReaction[]>;
+
+  addRevision(revision: EditRevision): Promise<void>;
+  // Newest edit first
+  getRevisions(itemId: string): Promise<EditRevision[]>;
+  deleteRevisions(itemId: string): Promise<void>;
+
+  addTombstone(tombstone: Tombstone): Promise<void>;
+  removeTombstone(tombstone: Tombstone): Promise<void>;
+  // Tombstones deleted before the cutoff and no more than lookbackDays days before it
+  getTombstonesBefore(cutoff: Date, lookbackDays: number): Promise<Tombstone[]>;
+
+  // A user's comments or replies, newest first
+  getUserItemRefs(type: UserContentRef['type'], userId: string, limit: number, lastCreatedAt?: Date, lastId?: string): Promise<UserContentRef[]>;
+  deleteUserContentRef(userId: string, ref: UserContentRef): Promise<void>;
+
+  // Score each strategy currently indexes the comment under
+  getCommentScores(commentId: string): Promise<Map<string, number>>;
+  writeCommentScores(comment: Comment, changes: ScoreChange[]): Promise<void>;
+  removeCommentScores(commentId: string): Promise<void>;
+  // A strategy's index by (score DESC, id DESC), strictly past the (score, id) cursor
+  getRankedCommentScores(videoId: string, strategy: string, limit: number, lastScore?: number, lastId?: string): Promise<IndexedScore[]>;
+  touchRankedVideo(videoId: string, lastCommentAt: Date): Promise<void>;
+  getRankedVideos(): Promise<{ videoId: string; lastCommentAt: Date }[]>;
+  removeRankedVideo(videoId: string): Promise<void>;
+
+  writeSearchPostings(comment: Comment, terms: string[], remove: boolean): Promise<void>;
+  // A term's postings newest first, strictly past the cursor and no newer than `to`
+  getSearchPostings(videoId: string, term: string, limit: number, lastCreatedAt?: Date, lastId?: string, to?: Date): Promise<SearchPosting[]>;
+
+  // Keep an event for retentionSeconds
+  appendCommentEvent(event: CommentEvent, retentionSeconds: number): Promise<void>;
+  // Events after the cursor position, oldest first
+  getCommentEventsSince(videoId: string, after: CursorInfo, limit: number): Promise<CommentEvent[]>;
+
+  incrementVideoCounters(videoId: string, deltas: VideoCounterDeltas): Promise<void>;
+  // All zeros for a video nobody has written to yet
+  getVideoCounters(videoId: string): Promise<Required<VideoCounterDeltas>>;
+  setVideoActivity(videoId: string, activityAt: Date): Promise<void>;
+  getVideoActivity(videoId: string): Promise<Date | undefined>;
+  // Every video with recorded activity, one page at a time
+  getActiveVideoIds(pageSize: number, pageState?: string): Promise<{ videoIds: string[]; pageState?: string | undefined }>;
+
+  getVideoSettings(videoId: string): Promise<VideoSettings | null>;
+  updateVideoSettings(videoId: string, changes: VideoSettingsChanges, updatedAt: Date): Promise<void>;
+  setPinnedComment(videoId: string, commentId: string | null, updatedAt: Date): Promise<void>;
+  getChannelSettings(channelId: string): Promise<ChannelSettings | null>;
+  updateChannelSettings(channelId: string, changes: { rankingStrategy?: string | null | undefined }, updatedAt: Date): Promise<void>;
+
+  // False when the reporter already reported the item
+  insertReport(report: ContentReport): Promise<boolean>;
+  incrementReportCount(itemId: string): Promise<void>;
+  // Unreported items are absent
+  getReportCounts(itemIds: string[]): Promise<Map<string, number>>;
+  getModerationItem(itemId: string): Promise<ModerationItem | null>;
+  // False when the item already has a moderation state
+  createModerationItem(item: ModerationItem): Promise<boolean>;
+  saveModerationItem(item: ModerationItem): Promise<void>;
+  enqueueModerationItem(entry: QueueEntry): Promise<void>;
+  addQueueReasons(entry: QueueEntry, reasons: string[]): Promise<void>;
+  // A video's queue oldest first, strictly after the (queuedAt, itemId) cursor
+  getModerationQueue(videoId: string, limit: number, lastQueuedAt?: Date, lastItemId?: string): Promise<QueueEntry[]>;
+  dequeueModerationItem(entry: Pick<QueueEntry, 'videoId' | 'queuedAt' | 'itemId'>): Promise<void>;
+  banUser(ban: BannedUser): Promise<void>;
+  isUserBanned(userId: string): Promise<boolean>;
+
+  hasRecentContent(userId: string, videoId: string, contentHash: string): Promise<boolean>;
+  recordRecentContent(userId: string, videoId: string, contentHash: string, retentionSeconds: number): Promise<void>;
+
+  getUserErasure(userId: string): Promise<UserErasure | null>;
+  // Write the job's state only if its updatedAt is still expectedUpdatedAt (null: only if there is none)
+  saveUserErasure(next: UserErasure, expectedUpdatedAt: Date | null): Promise<boolean>;
+  getErasureUserIds(pageSize: number, pageState?: string): Promise<{ userIds: string[]; pageState?: string | undefined }>;
+}
+
+// Helper function to map CommentRow to Comment
+export const mapRowToComment = (row: CommentRow): Comment => ({
+  id: row.id,
+  videoId: row.video_id,
+  userId: row.user_id,
+  content: row.content,
+  likes: row.likes,
+  dislikes: row.dislikes,
+  createdAt: row.created_at,
+  replyCount: row.reply_count,
+  edited: !!row.edited_at,
+  editedAt: row.edited_at ?? undefined,
+  deleted: !!row.deleted_at,
+  deletedAt: row.deleted_at ?? undefined,
+  deletedBy: row.deleted_by ?? undefined,
+  hidden: !!row.hidden_at,
+  hiddenAt: row.hidden_at ?? undefined,
+  hiddenBy: row.hidden_by ?? undefined,
+  held: !!row.held_at,
+  pinned: !!row.pinned_at,
+  heartedByCreator: !!row.hearted_at
+});
+
+// Helper function to map ReplyRow to Reply (rows from before threading are direct replies)
+export const mapRowToReply = (row: ReplyRow): Reply => ({
+  id: row.id,
+  commentId: row.comment_id,
+  parentId: row.parent_id ?? undefined,
+  depth: row.depth ?? 1,
+  path: row.path ?? row.id.toString(),
+  userId: row.user_id,
+  content: row.content,
+  likes: row.likes,
+  dislikes: row.dislikes,
+  createdAt: row.created_at,
+  replyCount: 0,
+  edited: !!row.edited_at,
+  editedAt: row.edited_at ?? undefined,
+  deleted: !!row.deleted_at,
+  deletedAt: row.deleted_at ?? undefined,
+  deletedBy: row.deleted_by ?? undefined,
+  hidden: !!row.hidden_at,
+  hiddenAt: row.hidden_at ?? undefined,
+  hiddenBy: row.hidden_by ?? undefined,
+  held: !!row.held_at
+});
+
+// Add counter deltas to the snapshot an item was stored with
+export const applyCounterDeltas = <T extends Comment | Reply>(item: T, deltas: Required<CounterDeltas> | undefined): T => {
+  if (!deltas) return item;
+  return {
+    ...item,
+    likes: Math.max(0, item.likes + deltas.likes),
+    dislikes: Math.max(0, item.dislikes + deltas.dislikes),
+    replyCount: Math.max(0, item.replyCount + deltas.reply_count)
+  };
+};
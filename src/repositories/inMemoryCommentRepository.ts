@@ -0,0 +1,588 @@
+import {
+  Comment,
+  Reply,
+  CommentRow,
+  ReplyRow,
+  ReactionType,
+  EditRevision,
+  Tombstone,
+  IndexedScore,
+  CursorInfo,
+  PageOrder
+} from '../models/comments';
+import { UserContentRef, UserReaction, UserErasure } from '../models/users';
+import { ContentReport, ModerationItem, BannedUser } from '../models/moderation';
+import { VideoSettings, ChannelSettings } from '../models/settings';
+import { CommentEvent } from '../models/events';
+import { SearchPosting } from '../models/search';
+import {
+  CommentRepository,
+  CounterDeltas,
+  VideoCounterDeltas,
+  ItemChanges,
+  CommentChanges,
+  ScoreChange,
+  VideoSettingsChanges,
+  QueueEntry,
+  mapRowToComment,
+  mapRowToReply,
+  applyCounterDeltas
+} from './commentRepository';
+
+/**
+ * The comments API held in process memory, for running locally and in CI with no database.
+ *
+ * Base rows are the only copy of an item, so the feeds are worked out from them on every
+ * read: a published item is simply one whose held_at is unset. Pages are sorted and cut
+ * the way the Scylla clustering orders would, ids comparing as strings, which for the
+ * uuids the API generates is the order Scylla gives them. Counter deltas are kept apart
+ * from the snapshot like the counter tables are. Nothing is shared between processes and
+ * nothing survives a restart.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Positioned = { createdAt: Date; id: string };
+
+const compareIds = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+// (createdAt DESC, id DESC), the order of every chronological table
+const newestFirst = (a: Positioned, b: Positioned): number =>
+  b.createdAt.getTime() - a.createdAt.getTime() || compareIds(b.id.toString(), a.id.toString());
+
+// Whether an item sorts strictly after the cursor in the order of the page
+const isPastCursor = (item: Positioned, lastCreatedAt?: Date, lastId?: string, order: PageOrder = 'newest'): boolean => {
+  if (!lastCreatedAt || !lastId) return true;
+  const difference = item.createdAt.getTime() - lastCreatedAt.getTime();
+  const comparison = difference || compareIds(item.id.toString(), lastId);
+  return order === 'newest' ? comparison < 0 : comparison > 0;
+};
+
+// One page, newest first or oldest first; without a limit, everything past the cursor
+const timePage = <T extends Positioned>(items: T[], limit?: number, lastCreatedAt?: Date, lastId?: string, order: PageOrder = 'newest'): T[] => {
+  const page = items.filter(item => isPastCursor(item, lastCreatedAt, lastId, order)).sort(newestFirst);
+  if (order === 'oldest') page.reverse();
+  return limit === undefined ? page : page.slice(0, limit);
+};
+
+// Offset paging over sorted keys, standing in for the driver's page state
+const keyPage = (keys: Iterable<string>, pageSize: number, pageState?: string): { keys: string[]; pageState?: string | undefined } => {
+  const sorted = [...keys].sort(compareIds);
+  const offset = pageState ? parseInt(pageState) : 0;
+  const end = offset + pageSize;
+  return { keys: sorted.slice(offset, end), pageState: end < sorted.length ? String(end) : undefined };
+};
+
+// Add counter deltas the way a counter column update does
+const addDeltas = <T extends Record<string, number>>(current: T, deltas: Partial<T>): T => {
+  const next: Record<string, number> = { ...current };
+  Object.entries(deltas).forEach(([column, delta]) => {
+    next[column] = (next[column] ?? 0) + (delta ?? 0);
+  });
+  return next as T;
+};
+
+const ZERO_COUNTERS: Required<CounterDeltas> = { likes: 0, dislikes: 0, reply_count: 0 };
+const ZERO_VIDEO_COUNTERS: Required<VideoCounterDeltas> = { comment_count: 0, reply_count: 0, likes: 0, dislikes: 0 };
+
+// Apply an update the way CQL does: undefined columns are left alone
+const applyChanges = <T extends object>(row: T, changes: object): T => ({
+  ...row,
+  ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined))
+});
+
+// undefined leaves a setting as it is, null clears it
+const applySetting = (current: string | undefined, change: string | null | undefined): string | undefined =>
+  change === undefined ? current : change ?? undefined;
+
+export class InMemoryCommentRepository implements CommentRepository {
+  private comments = new Map<string, CommentRow>();
+  private replies = new Map<string, ReplyRow>();
+  private commentCounters = new Map<string, Required<CounterDeltas>>();
+  private replyCounters = new Map<string, Required<CounterDeltas>>();
+  // `${itemType}:${itemId}:${userId}`
+  private reactions = new Map<string, ReactionType>();
+  // user id -> item id -> reaction
+  private userReactions = new Map<string, Map<string, UserReaction>>();
+  private revisions = new Map<string, EditRevision[]>();
+  private tombstones = new Map<string, Tombstone>();
+  // `${type}:${userId}` -> item id -> ref
+  private userRefs = new Map<string, Map<string, UserContentRef>>();
+  // comment id -> strategy -> indexed score
+  private scores = new Map<string, Map<string, { videoId: string; score: number }>>();
+  private rankedVideos = new Map<string, Date>();
+  // `${videoId}:${term}` -> comment id -> posting
+  private postings = new Map<string, Map<string, SearchPosting>>();
+  private events = new Map<string, { event: CommentEvent; expiresAt: number }[]>();
+  private videoCounters = new Map<string, Required<VideoCounterDeltas>>();
+  private videoActivity = new Map<string, Date>();
+  private videoSettings = new Map<string, VideoSettings>();
+  private channelSettings = new Map<string, ChannelSettings>();
+  // `${itemId}:${reporterId}`
+  private reports = new Set<string>();
+  private reportCounts = new Map<string, number>();
+  private moderationItems = new Map<string, ModerationItem>();
+  // `${videoId}:${queuedAt}:${itemId}`
+  private moderationQueue = new Map<string, QueueEntry>();
+  private bans = new Map<string, BannedUser>();
+  // `${userId}:${videoId}:${contentHash}` -> expiry
+  private recentContent = new Map<string, number>();
+  private erasures = new Map<string, UserErasure>();
+
+  private toComment(row: CommentRow): Comment {
+    return applyCounterDeltas(mapRowToComment(row), this.commentCounters.get(row.id));
+  }
+
+  private toReply(row: ReplyRow): Reply {
+    return applyCounterDeltas(mapRowToReply(row), this.replyCounters.get(row.id));
+  }
+
+  private publishedReplies(matches: (row: ReplyRow) => boolean): Reply[] {
+    return [...this.replies.values()].filter(row => !row.held_at && matches(row)).map(row => this.toReply(row));
+  }
+
+  private userRefMap(type: UserContentRef['type'], userId: string): Map<string, UserContentRef> {
+    const key = `${type}:${userId}`;
+    let refs = this.userRefs.get(key);
+    if (!refs) {
+      refs = new Map();
+      this.userRefs.set(key, refs);
+    }
+    return refs;
+  }
+
+  private removeItemTraces(itemType: 'comment' | 'reply', itemId: string): void {
+    const prefix = `${itemType}:${itemId}:`;
+    [...this.reactions.keys()].filter(key => key.startsWith(prefix)).forEach(key => this.reactions.delete(key));
+    this.revisions.delete(itemId);
+  }
+
+  async getCommentsByVideo(videoId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Comment[]> {
+    const published = [...this.comments.values()]
+      .filter(row => row.video_id === videoId && !row.held_at)
+      .map(row => this.toComment(row));
+    return timePage(published, limit, lastCreatedAt, lastId, order);
+  }
+
+  async getCommentsByIds(commentIds: string[]): Promise<Comment[]> {
+    return commentIds.flatMap(id => {
+      const row = this.comments.get(id);
+      return row ? [this.toComment(row)] : [];
+    });
+  }
+
+  async insertComment(row: CommentRow): Promise<void> {
+    this.comments.set(row.id, { ...row });
+    this.userRefMap('comment', row.user_id).set(row.id, { type: 'comment', id: row.id, createdAt: row.created_at, videoId: row.video_id });
+  }
+
+  async releaseComment(comment: Comment): Promise<void> {
+    const row = this.comments.get(comment.id);
+    if (row) {
+      this.comments.set(comment.id, { ...row, held_at: null });
+    }
+  }
+
+  async updateComment(comment: Comment, changes: CommentChanges): Promise<void> {
+    const row = this.comments.get(comment.id);
+    if (!row) return;
+
+    this.comments.set(comment.id, applyChanges(row, changes));
+    if (changes.user_id !== undefined) {
+      this.userRefMap('comment', comment.userId).delete(comment.id);
+    }
+  }
+
+  async removeComment(comment: Comment): Promise<void> {
+    this.comments.delete(comment.id);
+    this.userRefMap('comment', comment.userId).delete(comment.id);
+    this.commentCounters.delete(comment.id);
+    this.removeItemTraces('comment', comment.id);
+  }
+
+  async getRepliesByComment(commentId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]> {
+    return timePage(this.publishedReplies(row => row.comment_id === commentId && !row.parent_id), limit, lastCreatedAt, lastId, order);
+  }
+
+  async getAllRepliesByComment(commentId: string): Promise<Reply[]> {
+    return timePage(this.publishedReplies(row => row.comment_id === commentId && !row.parent_id));
+  }
+
+  async getReplyPagesByComments(commentIds: string[], limit: number): Promise<Map<string, Reply[]>> {
+    const repliesByComment = new Map<string, Reply[]>();
+    for (const commentId of commentIds) {
+      const page = await this.getRepliesByComment(commentId, limit);
+      if (page.length > 0) {
+        repliesByComment.set(commentId, page);
+      }
+    }
+    return repliesByComment;
+  }
+
+  async getRepliesByParent(parentId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]> {
+    return timePage(this.publishedReplies(row => row.parent_id === parentId), limit, lastCreatedAt, lastId, order);
+  }
+
+  async getAllRepliesByParent(parentId: string): Promise<Reply[]> {
+    return timePage(this.publishedReplies(row => row.parent_id === parentId));
+  }
+
+  async getRepliesByIds(replyIds: string[]): Promise<Reply[]> {
+    return replyIds.flatMap(id => {
+      const row = this.replies.get(id);
+      return row ? [this.toReply(row)] : [];
+    });
+  }
+
+  async insertReply(row: ReplyRow, videoId: string): Promise<void> {
+    this.replies.set(row.id, { ...row });
+    this.userRefMap('reply', row.user_id).set(row.id, { type: 'reply', id: row.id, createdAt: row.created_at, videoId });
+  }
+
+  async releaseReply(reply: Reply): Promise<void> {
+    const row = this.replies.get(reply.id);
+    if (row) {
+      this.replies.set(reply.id, { ...row, held_at: null });
+    }
+  }
+
+  async updateReply(reply: Reply, changes: ItemChanges): Promise<void> {
+    const row = this.replies.get(reply.id);
+    if (!row) return;
+
+    this.replies.set(reply.id, applyChanges(row, changes));
+    if (changes.user_id !== undefined) {
+      this.userRefMap('reply', reply.userId).delete(reply.id);
+    }
+  }
+
+  async removeReply(reply: Reply): Promise<void> {
+    this.replies.delete(reply.id);
+    this.userRefMap('reply', reply.userId).delete(reply.id);
+    this.replyCounters.delete(reply.id);
+    this.removeItemTraces('reply', reply.id);
+  }
+
+  async incrementCommentCounters(commentId: string, deltas: CounterDeltas): Promise<void> {
+    this.commentCounters.set(commentId, addDeltas(this.commentCounters.get(commentId) ?? ZERO_COUNTERS, deltas));
+  }
+
+  async incrementReplyCounters(replyId: string, deltas: CounterDeltas): Promise<void> {
+    this.replyCounters.set(replyId, addDeltas(this.replyCounters.get(replyId) ?? ZERO_COUNTERS, deltas));
+  }
+
+  // Nothing else runs between the read and the write, so the swap is atomic as it stands
+  async swapReaction(itemType: 'comment' | 'reply', itemId: string, userId: string, reaction: ReactionType): Promise<ReactionType> {
+    const key = `${itemType}:${itemId}:${userId}`;
+    const previous = this.reactions.get(key) ?? 'none';
+    this.reactions.set(key, reaction);
+    return previous;
+  }
+
+  async trackUserReaction(userId: string, itemType: 'comment' | 'reply', itemId: string, reaction: ReactionType): Promise<void> {
+    const reactions = this.userReactions.get(userId) ?? new Map<string, UserReaction>();
+    if (reaction === 'none') {
+      reactions.delete(itemId);
+    } else {
+      reactions.set(itemId, { itemType, itemId, reaction, updatedAt: new Date() });
+    }
+    this.userReactions.set(userId, reactions);
+  }
+
+  async removeReaction(itemType: 'comment' | 'reply', itemId: string, userId: string): Promise<void> {
+    this.reactions.delete(`${itemType}:${itemId}:${userId}`);
+    this.userReactions.get(userId)?.delete(itemId);
+  }
+
+  async getUserReactions(userId: string, limit: number, lastItemId?: string): Promise<UserReaction[]> {
+    return [...(this.userReactions.get(userId)?.values() ?? [])]
+      .filter(reaction => !lastItemId || reaction.itemId > lastItemId)
+      .sort((a, b) => compareIds(a.itemId, b.itemId))
+      .slice(0, limit);
+  }
+
+  async addRevision(revision: EditRevision): Promise<void> {
+    this.revisions.set(revision.id, [...(this.revisions.get(revision.id) ?? []), revision]);
+  }
+
+  async getRevisions(itemId: string): Promise<EditRevision[]> {
+    return [...(this.revisions.get(itemId) ?? [])].sort((a, b) => b.editedAt.getTime() - a.editedAt.getTime());
+  }
+
+  async deleteRevisions(itemId: string): Promise<void> {
+    this.revisions.delete(itemId);
+  }
+
+  async addTombstone(tombstone: Tombstone): Promise<void> {
+    this.tombstones.set(`${tombstone.deletedAt.getTime()}:${tombstone.id}`, tombstone);
+  }
+
+  async removeTombstone(tombstone: Tombstone): Promise<void> {
+    this.tombstones.delete(`${tombstone.deletedAt.getTime()}:${tombstone.id}`);
+  }
+
+  // Same window as the day buckets Scylla scans: from the start of the UTC day lookbackDays back
+  async getTombstonesBefore(cutoff: Date, lookbackDays: number): Promise<Tombstone[]> {
+    const from = new Date(cutoff.getTime() - lookbackDays * DAY_MS);
+    const fromDay = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+
+    return [...this.tombstones.values()]
+      .filter(tombstone => tombstone.deletedAt.getTime() >= fromDay && tombstone.deletedAt < cutoff)
+      .sort((a, b) => a.deletedAt.getTime() - b.deletedAt.getTime() || compareIds(a.id, b.id));
+  }
+
+  async getUserItemRefs(
+    type: UserContentRef['type'],
+    userId: string,
+    limit: number,
+    lastCreatedAt?: Date,
+    lastId?: string
+  ): Promise<UserContentRef[]> {
+    return timePage([...this.userRefMap(type, userId).values()], limit, lastCreatedAt, lastId);
+  }
+
+  async deleteUserContentRef(userId: string, ref: UserContentRef): Promise<void> {
+    this.userRefMap(ref.type, userId).delete(ref.id);
+  }
+
+  async getCommentScores(commentId: string): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    this.scores.get(commentId)?.forEach(({ score }, strategy) => scores.set(strategy, score));
+    return scores;
+  }
+
+  async writeCommentScores(comment: Comment, changes: ScoreChange[]): Promise<void> {
+    const scores = this.scores.get(comment.id) ?? new Map<string, { videoId: string; score: number }>();
+    changes.forEach(({ strategy, score }) => scores.set(strategy, { videoId: comment.videoId, score }));
+    this.scores.set(comment.id, scores);
+  }
+
+  async removeCommentScores(commentId: string): Promise<void> {
+    this.scores.delete(commentId);
+  }
+
+  async getRankedCommentScores(videoId: string, strategy: string, limit: number, lastScore?: number, lastId?: string): Promise<IndexedScore[]> {
+    const indexed: IndexedScore[] = [];
+    this.scores.forEach((scores, id) => {
+      const entry = scores.get(strategy);
+      if (entry && entry.videoId === videoId) {
+        indexed.push({ id, score: entry.score });
+      }
+    });
+
+    return indexed
+      .filter(row => lastScore === undefined || !lastId || row.score < lastScore || (row.score === lastScore && row.id < lastId))
+      .sort((a, b) => b.score - a.score || compareIds(b.id, a.id))
+      .slice(0, limit);
+  }
+
+  async touchRankedVideo(videoId: string, lastCommentAt: Date): Promise<void> {
+    this.rankedVideos.set(videoId, lastCommentAt);
+  }
+
+  async getRankedVideos(): Promise<{ videoId: string; lastCommentAt: Date }[]> {
+    return [...this.rankedVideos].map(([videoId, lastCommentAt]) => ({ videoId, lastCommentAt }));
+  }
+
+  async removeRankedVideo(videoId: string): Promise<void> {
+    this.rankedVideos.delete(videoId);
+  }
+
+  async writeSearchPostings(comment: Comment, terms: string[], remove: boolean): Promise<void> {
+    terms.forEach(term => {
+      const key = `${comment.videoId}:${term}`;
+      const postings = this.postings.get(key) ?? new Map<string, SearchPosting>();
+      if (remove) {
+        postings.delete(comment.id);
+      } else {
+        postings.set(comment.id, { commentId: comment.id, userId: comment.userId, createdAt: comment.createdAt });
+      }
+      this.postings.set(key, postings);
+    });
+  }
+
+  async getSearchPostings(
+    videoId: string,
+    term: string,
+    limit: number,
+    lastCreatedAt?: Date,
+    lastId?: string,
+    to?: Date
+  ): Promise<SearchPosting[]> {
+    const postings = [...(this.postings.get(`${videoId}:${term}`)?.values() ?? [])]
+      .filter(posting => !to || posting.createdAt <= to)
+      .map(posting => ({ ...posting, id: posting.commentId }));
+
+    return timePage(postings, limit, lastCreatedAt, lastId).map(({ commentId, userId, createdAt }) => ({ commentId, userId, createdAt }));
+  }
+
+  async appendCommentEvent(event: CommentEvent, retentionSeconds: number): Promise<void> {
+    const now = Date.now();
+    const retained = (this.events.get(event.videoId) ?? []).filter(entry => entry.expiresAt > now);
+    retained.push({ event, expiresAt: event.occurredAt.getTime() + retentionSeconds * 1000 });
+    this.events.set(event.videoId, retained);
+  }
+
+  async getCommentEventsSince(videoId: string, after: CursorInfo, limit: number): Promise<CommentEvent[]> {
+    const now = Date.now();
+    return (this.events.get(videoId) ?? [])
+      .filter(({ expiresAt }) => expiresAt > now)
+      .map(({ event }) => event)
+      .filter(event => event.occurredAt > after.createdAt
+        || (event.occurredAt.getTime() === after.createdAt.getTime() && event.id > after.id))
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime() || compareIds(a.id, b.id))
+      .slice(0, limit);
+  }
+
+  async incrementVideoCounters(videoId: string, deltas: VideoCounterDeltas): Promise<void> {
+    this.videoCounters.set(videoId, addDeltas(this.videoCounters.get(videoId) ?? ZERO_VIDEO_COUNTERS, deltas));
+  }
+
+  async getVideoCounters(videoId: string): Promise<Required<VideoCounterDeltas>> {
+    return { ...(this.videoCounters.get(videoId) ?? ZERO_VIDEO_COUNTERS) };
+  }
+
+  async setVideoActivity(videoId: string, activityAt: Date): Promise<void> {
+    this.videoActivity.set(videoId, activityAt);
+  }
+
+  async getVideoActivity(videoId: string): Promise<Date | undefined> {
+    return this.videoActivity.get(videoId);
+  }
+
+  async getActiveVideoIds(pageSize: number, pageState?: string): Promise<{ videoIds: string[]; pageState?: string | undefined }> {
+    const page = keyPage(this.videoActivity.keys(), pageSize, pageState);
+    return { videoIds: page.keys, pageState: page.pageState };
+  }
+
+  async getVideoSettings(videoId: string): Promise<VideoSettings | null> {
+    const settings = this.videoSettings.get(videoId);
+    return settings ? { ...settings } : null;
+  }
+
+  async updateVideoSettings(videoId: string, changes: VideoSettingsChanges, updatedAt: Date): Promise<void> {
+    const current = this.videoSettings.get(videoId) ?? { videoId };
+    this.videoSettings.set(videoId, {
+      ...current,
+      channelId: applySetting(current.channelId, changes.channelId),
+      rankingStrategy: applySetting(current.rankingStrategy, changes.rankingStrategy),
+      ownerId: applySetting(current.ownerId, changes.ownerId),
+      updatedAt
+    });
+  }
+
+  async setPinnedComment(videoId: string, commentId: string | null, updatedAt: Date): Promise<void> {
+    const current = this.videoSettings.get(videoId) ?? { videoId };
+    this.videoSettings.set(videoId, { ...current, pinnedCommentId: commentId ?? undefined, updatedAt });
+  }
+
+  async getChannelSettings(channelId: string): Promise<ChannelSettings | null> {
+    const settings = this.channelSettings.get(channelId);
+    return settings ? { ...settings } : null;
+  }
+
+  async updateChannelSettings(channelId: string, changes: { rankingStrategy?: string | null | undefined }, updatedAt: Date): Promise<void> {
+    const current = this.channelSettings.get(channelId) ?? { channelId };
+    this.channelSettings.set(channelId, {
+      ...current,
+      rankingStrategy: applySetting(current.rankingStrategy, changes.rankingStrategy),
+      updatedAt
+    });
+  }
+
+  async insertReport(report: ContentReport): Promise<boolean> {
+    const key = `${report.itemId}:${report.reporterId}`;
+    if (this.reports.has(key)) return false;
+    this.reports.add(key);
+    return true;
+  }
+
+  async incrementReportCount(itemId: string): Promise<void> {
+    this.reportCounts.set(itemId, (this.reportCounts.get(itemId) ?? 0) + 1);
+  }
+
+  async getReportCounts(itemIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    itemIds.forEach(id => {
+      const count = this.reportCounts.get(id);
+      if (count !== undefined) counts.set(id, count);
+    });
+    return counts;
+  }
+
+  async getModerationItem(itemId: string): Promise<ModerationItem | null> {
+    const item = this.moderationItems.get(itemId);
+    return item ? { ...item } : null;
+  }
+
+  async createModerationItem(item: ModerationItem): Promise<boolean> {
+    if (this.moderationItems.has(item.itemId)) return false;
+    this.moderationItems.set(item.itemId, { ...item });
+    return true;
+  }
+
+  async saveModerationItem(item: ModerationItem): Promise<void> {
+    this.moderationItems.set(item.itemId, { ...item });
+  }
+
+  async enqueueModerationItem(entry: QueueEntry): Promise<void> {
+    this.moderationQueue.set(`${entry.videoId}:${entry.queuedAt.getTime()}:${entry.itemId}`, { ...entry, reasons: [...entry.reasons] });
+  }
+
+  async addQueueReasons(entry: QueueEntry, reasons: string[]): Promise<void> {
+    const key = `${entry.videoId}:${entry.queuedAt.getTime()}:${entry.itemId}`;
+    const current = this.moderationQueue.get(key) ?? { ...entry, reasons: [] };
+    this.moderationQueue.set(key, { ...current, reasons: [...current.reasons, ...reasons] });
+  }
+
+  async getModerationQueue(videoId: string, limit: number, lastQueuedAt?: Date, lastItemId?: string): Promise<QueueEntry[]> {
+    return [...this.moderationQueue.values()]
+      .filter(entry => entry.videoId === videoId)
+      .filter(entry => !lastQueuedAt || !lastItemId || entry.queuedAt > lastQueuedAt
+        || (entry.queuedAt.getTime() === lastQueuedAt.getTime() && entry.itemId > lastItemId))
+      .sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime() || compareIds(a.itemId, b.itemId))
+      .slice(0, limit);
+  }
+
+  async dequeueModerationItem(entry: Pick<QueueEntry, 'videoId' | 'queuedAt' | 'itemId'>): Promise<void> {
+    this.moderationQueue.delete(`${entry.videoId}:${entry.queuedAt.getTime()}:${entry.itemId}`);
+  }
+
+  async banUser(ban: BannedUser): Promise<void> {
+    this.bans.set(ban.userId, { ...ban });
+  }
+
+  async isUserBanned(userId: string): Promise<boolean> {
+    return this.bans.has(userId);
+  }
+
+  async hasRecentContent(userId: string, videoId: string, contentHash: string): Promise<boolean> {
+    const expiresAt = this.recentContent.get(`${userId}:${videoId}:${contentHash}`);
+    return expiresAt !== undefined && expiresAt > Date.now();
+  }
+
+  async recordRecentContent(userId: string, videoId: string, contentHash: string, retentionSeconds: number): Promise<void> {
+    this.recentContent.set(`${userId}:${videoId}:${contentHash}`, Date.now() + retentionSeconds * 1000);
+  }
+
+  async getUserErasure(userId: string): Promise<UserErasure | null> {
+    const erasure = this.erasures.get(userId);
+    return erasure ? { ...erasure } : null;
+  }
+
+  async saveUserErasure(next: UserErasure, expectedUpdatedAt: Date | null): Promise<boolean> {
+    const current = this.erasures.get(next.userId);
+    const applies = expectedUpdatedAt
+      ? current !== undefined && current.updatedAt.getTime() === expectedUpdatedAt.getTime()
+      : current === undefined;
+    if (applies) {
+      this.erasures.set(next.userId, { ...next });
+    }
+    return applies;
+  }
+
+  async getErasureUserIds(pageSize: number, pageState?: string): Promise<{ userIds: string[]; pageState?: string | undefined }> {
+    const page = keyPage(this.erasures.keys(), pageSize, pageState);
+    return { userIds: page.keys, pageState: page.pageState };
+  }
+}
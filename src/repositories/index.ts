@@ -0,0 +1,16 @@
+import { storageConfig } from '../config/storage';
+import { CommentRepository } from './commentRepository';
+import { ScyllaCommentRepository } from './scyllaCommentRepository';
+import { InMemoryCommentRepository } from './inMemoryCommentRepository';
+
+let repository: CommentRepository = storageConfig.backend === 'memory'
+  ? new InMemoryCommentRepository()
+  : new ScyllaCommentRepository();
+
+// The configured storage
+export const getCommentRepository = (): CommentRepository => repository;
+
+// Swap the configured storage, e.g. for a fresh in-memory one between test cases
+export const setCommentRepository = (implementation: CommentRepository): void => {
+  repository = implementation;
+};
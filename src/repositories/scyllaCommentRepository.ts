@@ -0,0 +1,1194 @@
+import { types } from 'cassandra-driver';
+import { connectToDatabase, executeLoggedBatch, BatchStatement } from '../config/database';
+import { threadConfig } from '../config/threads';
+import { searchConfig } from '../config/search';
+import {
+  Comment,
+  Reply,
+  CommentRow,
+  ReplyRow,
+  ReactionType,
+  EditRevision,
+  Tombstone,
+  IndexedScore,
+  CursorInfo,
+  PageOrder
+} from '../models/comments';
+import { UserContentRef, UserReaction, UserErasure } from '../models/users';
+import { ContentReport, ModerationItem, BannedUser } from '../models/moderation';
+import { VideoSettings, ChannelSettings } from '../models/settings';
+import { CommentEvent } from '../models/events';
+import { SearchPosting } from '../models/search';
+import { ApiError } from '../utils/errors';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  CommentRepository,
+  CounterDeltas,
+  VideoCounterDeltas,
+  ItemChanges,
+  CommentChanges,
+  ScoreChange,
+  VideoSettingsChanges,
+  QueueEntry,
+  mapRowToComment,
+  mapRowToReply,
+  applyCounterDeltas
+} from './commentRepository';
+
+/**
+ * The comments API on ScyllaDB.
+ *
+ * Every comment and reply has a base row keyed by id plus an indexing row in the table its
+ * feed reads (comments_by_video_time, replies_by_comment_time, replies_by_parent_time);
+ * both go out in one logged batch. Held items only get the base row.
+ *
+ * The likes/dislikes/reply_count columns on those rows are a snapshot written once at
+ * insert time; every change after that is a delta on a counter table, so concurrent
+ * requests never overwrite each other, and reads return snapshot + delta.
+ */
+
+// Max compare-and-set attempts when a user's reaction row is contended
+const MAX_REACTION_RETRIES = 5;
+
+// Helper function to map Scylla DB Row to CommentRow
+const mapDbRowToCommentRow = (row: any): CommentRow => ({
+  id: row.id,
+  video_id: row.video_id,
+  user_id: row.user_id,
+  content: row.content,
+  likes: typeof row.likes === 'object' ? row.likes.toNumber() : row.likes,
+  dislikes: typeof row.dislikes === 'object' ? row.dislikes.toNumber() : row.dislikes,
+  created_at: row.created_at,
+  reply_count: typeof row.reply_count === 'object' ? row.reply_count.toNumber() : row.reply_count,
+  edited_at: row.edited_at ?? null,
+  deleted_at: row.deleted_at ?? null,
+  deleted_by: row.deleted_by ?? null,
+  hidden_at: row.hidden_at ?? null,
+  hidden_by: row.hidden_by ?? null,
+  held_at: row.held_at ?? null,
+  pinned_at: row.pinned_at ?? null,
+  hearted_at: row.hearted_at ?? null
+});
+
+// Helper function to map Scylla DB Row to ReplyRow
+const mapDbRowToReplyRow = (row: any): ReplyRow => ({
+  id: row.id,
+  comment_id: row.comment_id,
+  parent_id: row.parent_id ?? null,
+  depth: row.depth ?? null,
+  path: row.path ?? null,
+  user_id: row.user_id,
+  content: row.content,
+  likes: typeof row.likes === 'object' ? row.likes.toNumber() : row.likes,
+  dislikes: typeof row.dislikes === 'object' ? row.dislikes.toNumber() : row.dislikes,
+  created_at: row.created_at,
+  edited_at: row.edited_at ?? null,
+  deleted_at: row.deleted_at ?? null,
+  deleted_by: row.deleted_by ?? null,
+  hidden_at: row.hidden_at ?? null,
+  hidden_by: row.hidden_by ?? null,
+  held_at: row.held_at ?? null
+});
+
+const mapRowToErasure = (row: any): UserErasure => ({
+  userId: row.user_id,
+  status: row.status,
+  requestedBy: row.requested_by,
+  startedAt: row.started_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at ?? undefined,
+  itemsDeleted: row.items_deleted ?? 0,
+  itemsAnonymized: row.items_anonymized ?? 0,
+  reactionsRemoved: row.reactions_removed ?? 0,
+  lastError: row.last_error ?? undefined
+});
+
+const toNumber = (value: any): number => {
+  if (value === null || value === undefined) return 0;
+  return typeof value === 'object' ? value.toNumber() : value;
+};
+
+// Build "col = col + ?" assignments for the non-zero deltas only
+const buildCounterUpdate = (deltas: Record<string, number | undefined>): { assignments: string; params: types.Long[] } => {
+  const columns = Object.keys(deltas).filter(column => deltas[column]);
+  return {
+    assignments: columns.map(column => `${column} = ${column} + ?`).join(', '),
+    params: columns.map(column => types.Long.fromNumber(deltas[column] as number))
+  };
+};
+
+// Build "col = ?" assignments for the columns a change sets
+const buildAssignments = (changes: Record<string, unknown>): { assignments: string; params: unknown[] } => {
+  const columns = Object.keys(changes).filter(column => changes[column] !== undefined);
+  return {
+    assignments: columns.map(column => `${column} = ?`).join(', '),
+    params: columns.map(column => changes[column])
+  };
+};
+
+const incrementCounters = async (table: string, keyColumn: string, key: string, deltas: Record<string, number | undefined>): Promise<void> => {
+  const { assignments, params } = buildCounterUpdate(deltas);
+  if (!assignments) return;
+
+  const client = await connectToDatabase();
+  await client.execute(`UPDATE ${table} SET ${assignments} WHERE ${keyColumn} = ?`, [...params, key], { prepare: true });
+};
+
+// Fetch counter deltas for a batch of ids in one partition-key IN query
+const getCounters = async (
+  table: 'comment_counters' | 'reply_counters',
+  keyColumn: 'comment_id' | 'reply_id',
+  ids: string[]
+): Promise<Map<string, Required<CounterDeltas>>> => {
+  const counters = new Map<string, Required<CounterDeltas>>();
+  if (ids.length === 0) return counters;
+
+  const client = await connectToDatabase();
+  const result = await client.execute(`SELECT * FROM ${table} WHERE ${keyColumn} IN ?`, [ids], { prepare: true });
+
+  result.rows.forEach(row => {
+    counters.set(row[keyColumn].toString(), {
+      likes: toNumber(row.likes),
+      dislikes: toNumber(row.dislikes),
+      reply_count: toNumber(row.reply_count)
+    });
+  });
+
+  return counters;
+};
+
+// Merge counter deltas into comments read from the base/indexing tables
+const mergeCommentCounters = async (comments: Comment[]): Promise<Comment[]> => {
+  const counters = await getCounters('comment_counters', 'comment_id', comments.map(c => c.id));
+  return comments.map(comment => applyCounterDeltas(comment, counters.get(comment.id.toString())));
+};
+
+// Merge counter deltas into replies read from the base/indexing tables
+const mergeReplyCounters = async (replies: Reply[]): Promise<Reply[]> => {
+  const counters = await getCounters('reply_counters', 'reply_id', replies.map(r => r.id));
+  return replies.map(reply => applyCounterDeltas(reply, counters.get(reply.id.toString())));
+};
+
+// Indexing row of a published comment, carrying whatever state it picked up while held
+const commentIndexInsert = (comment: Comment): BatchStatement => ({
+  query: `
+    INSERT INTO comments_by_video_time (video_id, created_at, id, user_id, content, likes, dislikes, reply_count, hidden_at, hidden_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `,
+  params: [
+    comment.videoId,
+    comment.createdAt,
+    comment.id,
+    comment.userId,
+    comment.content,
+    comment.likes,
+    comment.dislikes,
+    comment.replyCount,
+    comment.hiddenAt ?? null,
+    comment.hiddenBy ?? null
+  ]
+});
+
+// Indexing table row holding a reply: direct replies sit under their comment, deeper
+// ones under the reply they answer
+const replyIndex = (reply: Reply): { table: string; keyColumn: string; key: string } =>
+  reply.parentId
+    ? { table: 'replies_by_parent_time', keyColumn: 'parent_id', key: reply.parentId }
+    : { table: 'replies_by_comment_time', keyColumn: 'comment_id', key: reply.commentId };
+
+const replyIndexInsert = (reply: Reply): BatchStatement => reply.parentId
+  ? {
+    query: `
+      INSERT INTO replies_by_parent_time (parent_id, created_at, id, comment_id, user_id, content, likes, dislikes, depth, path, hidden_at, hidden_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    params: [
+      reply.parentId,
+      reply.createdAt,
+      reply.id,
+      reply.commentId,
+      reply.userId,
+      reply.content,
+      reply.likes,
+      reply.dislikes,
+      reply.depth,
+      reply.path,
+      reply.hiddenAt ?? null,
+      reply.hiddenBy ?? null
+    ]
+  }
+  : {
+    query: `
+      INSERT INTO replies_by_comment_time (comment_id, created_at, id, user_id, content, likes, dislikes, hidden_at, hidden_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `,
+    params: [
+      reply.commentId,
+      reply.createdAt,
+      reply.id,
+      reply.userId,
+      reply.content,
+      reply.likes,
+      reply.dislikes,
+      reply.hiddenAt ?? null,
+      reply.hiddenBy ?? null
+    ]
+  };
+
+// Read one page of a (created_at DESC, id DESC) table's partition: 'newest' continues past the
+// cursor toward older rows, 'oldest' toward newer rows by reading the clustering order backwards
+const queryTimePage = async (
+  table: string,
+  keyColumn: string,
+  key: string,
+  limit?: number,
+  lastCreatedAt?: Date,
+  lastId?: string,
+  order: PageOrder = 'newest'
+): Promise<types.Row[]> => {
+  const client = await connectToDatabase();
+  const [comparison, direction] = order === 'newest' ? ['<', 'DESC'] : ['>', 'ASC'];
+  const hasCursor = !!(lastCreatedAt && lastId);
+  const params: unknown[] = hasCursor ? [key, lastCreatedAt, lastId] : [key];
+  if (limit !== undefined) params.push(limit);
+
+  const result = await client.execute(`
+    SELECT * FROM ${table}
+    WHERE ${keyColumn} = ?${hasCursor ? ` AND (created_at, id) ${comparison} (?, ?)` : ''}
+    ORDER BY created_at ${direction}, id ${direction}${limit !== undefined ? ' LIMIT ?' : ''}
+  `, params, { prepare: true });
+  return result.rows;
+};
+
+// Read one page of a comment's direct replies from the indexing table, without counters
+const queryRepliesPage = async (commentId: string, limit?: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]> => {
+  const rows = await queryTimePage('replies_by_comment_time', 'comment_id', commentId, limit, lastCreatedAt, lastId, order);
+  return rows.map(mapDbRowToReplyRow).map(mapRowToReply);
+};
+
+// Same for the replies to a reply
+const queryChildRepliesPage = async (parentId: string, limit?: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]> => {
+  const rows = await queryTimePage('replies_by_parent_time', 'parent_id', parentId, limit, lastCreatedAt, lastId, order);
+  return rows.map(mapDbRowToReplyRow).map(mapRowToReply);
+};
+
+const reactionTable = (itemType: 'comment' | 'reply'): { table: string; keyColumn: string } =>
+  itemType === 'comment'
+    ? { table: 'comment_reactions', keyColumn: 'comment_id' }
+    : { table: 'reply_reactions', keyColumn: 'reply_id' };
+
+const userTable = (type: UserContentRef['type']): string =>
+  type === 'comment' ? 'comments_by_user_time' : 'replies_by_user_time';
+
+// Tombstones are partitioned by the UTC day they were deleted on
+const tombstoneBucket = (deletedAt: Date): types.LocalDate =>
+  new types.LocalDate(deletedAt.getUTCFullYear(), deletedAt.getUTCMonth() + 1, deletedAt.getUTCDate());
+
+const mapRowToQueueEntry = (row: any): QueueEntry => ({
+  itemId: row.item_id.toString(),
+  itemType: row.item_type,
+  videoId: row.video_id,
+  authorId: row.author_id,
+  reasons: (row.reasons ?? []) as string[],
+  queuedAt: row.queued_at as Date
+});
+
+export class ScyllaCommentRepository implements CommentRepository {
+  async getCommentsByVideo(videoId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Comment[]> {
+    const rows = await queryTimePage('comments_by_video_time', 'video_id', videoId, limit, lastCreatedAt, lastId, order);
+    return mergeCommentCounters(rows.map(mapDbRowToCommentRow).map(mapRowToComment));
+  }
+
+  async getCommentsByIds(commentIds: string[]): Promise<Comment[]> {
+    if (commentIds.length === 0) return [];
+
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT * FROM comments WHERE id IN ?', [commentIds], { prepare: true });
+    return mergeCommentCounters(result.rows.map(mapDbRowToCommentRow).map(mapRowToComment));
+  }
+
+  async insertComment(row: CommentRow): Promise<void> {
+    const writes: BatchStatement[] = [
+      {
+        query: `
+          INSERT INTO comments (id, video_id, user_id, content, likes, dislikes, created_at, reply_count, held_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        params: [row.id, row.video_id, row.user_id, row.content, row.likes, row.dislikes, row.created_at, row.reply_count, row.held_at ?? null]
+      },
+      {
+        query: 'INSERT INTO comments_by_user_time (user_id, created_at, id, video_id) VALUES (?, ?, ?, ?)',
+        params: [row.user_id, row.created_at, row.id, row.video_id]
+      }
+    ];
+    if (!row.held_at) {
+      writes.push(commentIndexInsert(mapRowToComment(row)));
+    }
+    await executeLoggedBatch(writes);
+  }
+
+  async releaseComment(comment: Comment): Promise<void> {
+    await executeLoggedBatch([
+      { query: 'UPDATE comments SET held_at = null WHERE id = ?', params: [comment.id] },
+      commentIndexInsert(comment)
+    ]);
+  }
+
+  async updateComment(comment: Comment, changes: CommentChanges): Promise<void> {
+    const { assignments, params } = buildAssignments({ ...changes });
+    if (!assignments) return;
+
+    const writes: BatchStatement[] = [
+      { query: `UPDATE comments SET ${assignments} WHERE id = ?`, params: [...params, comment.id] }
+    ];
+    if (!comment.held) {
+      writes.push({
+        query: `UPDATE comments_by_video_time SET ${assignments} WHERE video_id = ? AND created_at = ? AND id = ?`,
+        params: [...params, comment.videoId, comment.createdAt, comment.id]
+      });
+    }
+    if (changes.user_id !== undefined) {
+      writes.push({
+        query: 'DELETE FROM comments_by_user_time WHERE user_id = ? AND created_at = ? AND id = ?',
+        params: [comment.userId, comment.createdAt, comment.id]
+      });
+    }
+    await executeLoggedBatch(writes);
+  }
+
+  async removeComment(comment: Comment): Promise<void> {
+    const client = await connectToDatabase();
+    await executeLoggedBatch([
+      { query: 'DELETE FROM comments WHERE id = ?', params: [comment.id] },
+      { query: 'DELETE FROM comments_by_video_time WHERE video_id = ? AND created_at = ? AND id = ?',
+        params: [comment.videoId, comment.createdAt, comment.id] },
+      { query: 'DELETE FROM comments_by_user_time WHERE user_id = ? AND created_at = ? AND id = ?',
+        params: [comment.userId, comment.createdAt, comment.id] }
+    ]);
+    await Promise.all([
+      client.execute('DELETE FROM comment_reactions WHERE comment_id = ?', [comment.id], { prepare: true }),
+      client.execute('DELETE FROM comment_counters WHERE comment_id = ?', [comment.id], { prepare: true }),
+      this.deleteRevisions(comment.id)
+    ]);
+  }
+
+  async getRepliesByComment(commentId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]> {
+    return mergeReplyCounters(await queryRepliesPage(commentId, limit, lastCreatedAt, lastId, order));
+  }
+
+  async getAllRepliesByComment(commentId: string): Promise<Reply[]> {
+    return mergeReplyCounters(await queryRepliesPage(commentId));
+  }
+
+  // Each query is bounded at the DB, at most REPLY_FETCH_CONCURRENCY run at once, and
+  // counters for every page are merged in one query
+  async getReplyPagesByComments(commentIds: string[], limit: number): Promise<Map<string, Reply[]>> {
+    const pages = await mapWithConcurrency(commentIds, threadConfig.replyFetchConcurrency,
+      commentId => queryRepliesPage(commentId, limit));
+
+    const merged = await mergeReplyCounters(pages.flat());
+    const repliesByComment = new Map<string, Reply[]>();
+    merged.forEach(reply => {
+      const key = reply.commentId.toString();
+      const page = repliesByComment.get(key);
+      if (page) {
+        page.push(reply);
+      } else {
+        repliesByComment.set(key, [reply]);
+      }
+    });
+    return repliesByComment;
+  }
+
+  async getRepliesByParent(parentId: string, limit: number, lastCreatedAt?: Date, lastId?: string, order?: PageOrder): Promise<Reply[]> {
+    return mergeReplyCounters(await queryChildRepliesPage(parentId, limit, lastCreatedAt, lastId, order));
+  }
+
+  async getAllRepliesByParent(parentId: string): Promise<Reply[]> {
+    return mergeReplyCounters(await queryChildRepliesPage(parentId));
+  }
+
+  async getRepliesByIds(replyIds: string[]): Promise<Reply[]> {
+    if (replyIds.length === 0) return [];
+
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT * FROM replies WHERE id IN ?', [replyIds], { prepare: true });
+    return mergeReplyCounters(result.rows.map(mapDbRowToReplyRow).map(mapRowToReply));
+  }
+
+  async insertReply(row: ReplyRow, videoId: string): Promise<void> {
+    const writes: BatchStatement[] = [
+      {
+        query: `
+          INSERT INTO replies (id, comment_id, parent_id, depth, path, user_id, content, likes, dislikes, created_at, held_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        params: [
+          row.id, row.comment_id, row.parent_id ?? null, row.depth ?? null, row.path ?? null, row.user_id,
+          row.content, row.likes, row.dislikes, row.created_at, row.held_at ?? null
+        ]
+      },
+      {
+        query: 'INSERT INTO replies_by_user_time (user_id, created_at, id, video_id, comment_id, parent_id) VALUES (?, ?, ?, ?, ?, ?)',
+        params: [row.user_id, row.created_at, row.id, videoId, row.comment_id, row.parent_id ?? null]
+      }
+    ];
+    if (!row.held_at) {
+      writes.push(replyIndexInsert(mapRowToReply(row)));
+    }
+    await executeLoggedBatch(writes);
+  }
+
+  async releaseReply(reply: Reply): Promise<void> {
+    await executeLoggedBatch([
+      { query: 'UPDATE replies SET held_at = null WHERE id = ?', params: [reply.id] },
+      replyIndexInsert(reply)
+    ]);
+  }
+
+  async updateReply(reply: Reply, changes: ItemChanges): Promise<void> {
+    const { assignments, params } = buildAssignments({ ...changes });
+    if (!assignments) return;
+
+    const index = replyIndex(reply);
+    const writes: BatchStatement[] = [
+      { query: `UPDATE replies SET ${assignments} WHERE id = ?`, params: [...params, reply.id] }
+    ];
+    if (!reply.held) {
+      writes.push({
+        query: `UPDATE ${index.table} SET ${assignments} WHERE ${index.keyColumn} = ? AND created_at = ? AND id = ?`,
+        params: [...params, index.key, reply.createdAt, reply.id]
+      });
+    }
+    if (changes.user_id !== undefined) {
+      writes.push({
+        query: 'DELETE FROM replies_by_user_time WHERE user_id = ? AND created_at = ? AND id = ?',
+        params: [reply.userId, reply.createdAt, reply.id]
+      });
+    }
+    await executeLoggedBatch(writes);
+  }
+
+  async removeReply(reply: Reply): Promise<void> {
+    const client = await connectToDatabase();
+    const index = replyIndex(reply);
+    await executeLoggedBatch([
+      { query: 'DELETE FROM replies WHERE id = ?', params: [reply.id] },
+      { query: `DELETE FROM ${index.table} WHERE ${index.keyColumn} = ? AND created_at = ? AND id = ?`,
+        params: [index.key, reply.createdAt, reply.id] },
+      { query: 'DELETE FROM replies_by_user_time WHERE user_id = ? AND created_at = ? AND id = ?',
+        params: [reply.userId, reply.createdAt, reply.id] }
+    ]);
+    await Promise.all([
+      client.execute('DELETE FROM reply_reactions WHERE reply_id = ?', [reply.id], { prepare: true }),
+      client.execute('DELETE FROM reply_counters WHERE reply_id = ?', [reply.id], { prepare: true }),
+      this.deleteRevisions(reply.id)
+    ]);
+  }
+
+  async incrementCommentCounters(commentId: string, deltas: CounterDeltas): Promise<void> {
+    await incrementCounters('comment_counters', 'comment_id', commentId, { ...deltas });
+  }
+
+  async incrementReplyCounters(replyId: string, deltas: CounterDeltas): Promise<void> {
+    await incrementCounters('reply_counters', 'reply_id', replyId, { ...deltas });
+  }
+
+  async swapReaction(itemType: 'comment' | 'reply', itemId: string, userId: string, reaction: ReactionType): Promise<ReactionType> {
+    const client = await connectToDatabase();
+    const { table, keyColumn } = reactionTable(itemType);
+
+    for (let attempt = 0; attempt < MAX_REACTION_RETRIES; attempt++) {
+      // Serial read so we observe the latest LWT-committed state
+      const current = await client.execute(
+        `SELECT reaction FROM ${table} WHERE ${keyColumn} = ? AND user_id = ?`,
+        [itemId, userId],
+        { prepare: true, consistency: types.consistencies.serial }
+      );
+      const existing = current.rows[0];
+      const previous: ReactionType = existing ? existing.reaction : 'none';
+
+      if (previous === reaction) {
+        return previous;
+      }
+
+      const result = existing
+        ? await client.execute(
+          `UPDATE ${table} SET reaction = ?, updated_at = ? WHERE ${keyColumn} = ? AND user_id = ? IF reaction = ?`,
+          [reaction, new Date(), itemId, userId, previous],
+          { prepare: true }
+        )
+        : await client.execute(
+          `INSERT INTO ${table} (${keyColumn}, user_id, reaction, updated_at) VALUES (?, ?, ?, ?) IF NOT EXISTS`,
+          [itemId, userId, reaction, new Date()],
+          { prepare: true }
+        );
+
+      if (result.wasApplied()) {
+        return previous;
+      }
+    }
+
+    throw new ApiError(409, 'CONFLICT', `Reaction update for ${itemId} conflicted ${MAX_REACTION_RETRIES} times`);
+  }
+
+  async trackUserReaction(userId: string, itemType: 'comment' | 'reply', itemId: string, reaction: ReactionType): Promise<void> {
+    const client = await connectToDatabase();
+    if (reaction === 'none') {
+      await client.execute('DELETE FROM reactions_by_user WHERE user_id = ? AND item_id = ?', [userId, itemId], { prepare: true });
+      return;
+    }
+    await client.execute(
+      'INSERT INTO reactions_by_user (user_id, item_id, item_type, reaction, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [userId, itemId, itemType, reaction, new Date()],
+      { prepare: true }
+    );
+  }
+
+  async removeReaction(itemType: 'comment' | 'reply', itemId: string, userId: string): Promise<void> {
+    const client = await connectToDatabase();
+    const { table, keyColumn } = reactionTable(itemType);
+    await Promise.all([
+      client.execute(`DELETE FROM ${table} WHERE ${keyColumn} = ? AND user_id = ?`, [itemId, userId], { prepare: true }),
+      client.execute('DELETE FROM reactions_by_user WHERE user_id = ? AND item_id = ?', [userId, itemId], { prepare: true })
+    ]);
+  }
+
+  async getUserReactions(userId: string, limit: number, lastItemId?: string): Promise<UserReaction[]> {
+    const client = await connectToDatabase();
+    const result = lastItemId
+      ? await client.execute('SELECT * FROM reactions_by_user WHERE user_id = ? AND item_id > ? LIMIT ?',
+        [userId, lastItemId, limit], { prepare: true })
+      : await client.execute('SELECT * FROM reactions_by_user WHERE user_id = ? LIMIT ?',
+        [userId, limit], { prepare: true });
+
+    return result.rows.map(row => ({
+      itemType: row.item_type,
+      itemId: row.item_id.toString(),
+      reaction: row.reaction,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  async addRevision(revision: EditRevision): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO edit_history (item_id, edited_at, item_type, content) VALUES (?, ?, ?, ?)',
+      [revision.id, revision.editedAt, revision.type, revision.content],
+      { prepare: true }
+    );
+  }
+
+  async getRevisions(itemId: string): Promise<EditRevision[]> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT * FROM edit_history WHERE item_id = ?', [itemId], { prepare: true });
+    return result.rows.map(row => ({
+      id: row.item_id.toString(),
+      type: row.item_type,
+      content: row.content,
+      editedAt: row.edited_at
+    }));
+  }
+
+  async deleteRevisions(itemId: string): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute('DELETE FROM edit_history WHERE item_id = ?', [itemId], { prepare: true });
+  }
+
+  async addTombstone(tombstone: Tombstone): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO tombstones (bucket, deleted_at, item_id, item_type) VALUES (?, ?, ?, ?)',
+      [tombstoneBucket(tombstone.deletedAt), tombstone.deletedAt, tombstone.id, tombstone.type],
+      { prepare: true }
+    );
+  }
+
+  async removeTombstone(tombstone: Tombstone): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'DELETE FROM tombstones WHERE bucket = ? AND deleted_at = ? AND item_id = ?',
+      [tombstoneBucket(tombstone.deletedAt), tombstone.deletedAt, tombstone.id],
+      { prepare: true }
+    );
+  }
+
+  // Scans the day buckets in [cutoff - lookbackDays, cutoff]
+  async getTombstonesBefore(cutoff: Date, lookbackDays: number): Promise<Tombstone[]> {
+    const client = await connectToDatabase();
+    const tombstones: Tombstone[] = [];
+
+    for (let daysBack = lookbackDays; daysBack >= 0; daysBack--) {
+      const day = new Date(cutoff.getTime() - daysBack * 24 * 60 * 60 * 1000);
+      const result = await client.execute(
+        'SELECT * FROM tombstones WHERE bucket = ? AND deleted_at < ?',
+        [tombstoneBucket(day), cutoff],
+        { prepare: true }
+      );
+      result.rows.forEach(row => {
+        tombstones.push({
+          id: row.item_id.toString(),
+          type: row.item_type,
+          deletedAt: row.deleted_at
+        });
+      });
+    }
+
+    return tombstones;
+  }
+
+  async getUserItemRefs(
+    type: UserContentRef['type'],
+    userId: string,
+    limit: number,
+    lastCreatedAt?: Date,
+    lastId?: string
+  ): Promise<UserContentRef[]> {
+    const client = await connectToDatabase();
+    const table = userTable(type);
+    const result = lastCreatedAt && lastId
+      ? await client.execute(`
+          SELECT * FROM ${table}
+          WHERE user_id = ? AND (created_at, id) < (?, ?)
+          ORDER BY created_at DESC, id DESC
+          LIMIT ?
+        `, [userId, lastCreatedAt, lastId, limit], { prepare: true })
+      : await client.execute(`
+          SELECT * FROM ${table}
+          WHERE user_id = ?
+          ORDER BY created_at DESC, id DESC
+          LIMIT ?
+        `, [userId, limit], { prepare: true });
+
+    return result.rows.map(row => ({
+      type,
+      id: row.id.toString(),
+      createdAt: row.created_at,
+      videoId: row.video_id
+    }));
+  }
+
+  async deleteUserContentRef(userId: string, ref: UserContentRef): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      `DELETE FROM ${userTable(ref.type)} WHERE user_id = ? AND created_at = ? AND id = ?`,
+      [userId, ref.createdAt, ref.id],
+      { prepare: true }
+    );
+  }
+
+  async getCommentScores(commentId: string): Promise<Map<string, number>> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT strategy, score FROM comment_scores WHERE comment_id = ?', [commentId], { prepare: true });
+    const scores = new Map<string, number>();
+    result.rows.forEach(row => scores.set(row.strategy, row.score));
+    return scores;
+  }
+
+  // comments_by_video_score is clustered by score, so a changed score means a new row;
+  // comment_scores records which one is current
+  async writeCommentScores(comment: Comment, changes: ScoreChange[]): Promise<void> {
+    const queries = changes.flatMap(({ strategy, score, previousScore }): BatchStatement[] => [
+      ...(previousScore !== undefined
+        ? [{
+          query: 'DELETE FROM comments_by_video_score WHERE video_id = ? AND strategy = ? AND score = ? AND id = ?',
+          params: [comment.videoId, strategy, previousScore, comment.id]
+        }]
+        : []),
+      {
+        query: 'INSERT INTO comments_by_video_score (video_id, strategy, score, id, created_at) VALUES (?, ?, ?, ?, ?)',
+        params: [comment.videoId, strategy, score, comment.id, comment.createdAt]
+      },
+      {
+        query: 'INSERT INTO comment_scores (comment_id, strategy, video_id, score) VALUES (?, ?, ?, ?)',
+        params: [comment.id, strategy, comment.videoId, score]
+      }
+    ]);
+    if (queries.length === 0) return;
+
+    const client = await connectToDatabase();
+    await client.batch(queries, { prepare: true });
+  }
+
+  async removeCommentScores(commentId: string): Promise<void> {
+    const client = await connectToDatabase();
+    const current = await client.execute(
+      'SELECT strategy, video_id, score FROM comment_scores WHERE comment_id = ?',
+      [commentId],
+      { prepare: true }
+    );
+    if (current.rows.length === 0) return;
+
+    await client.batch([
+      ...current.rows.map(row => ({
+        query: 'DELETE FROM comments_by_video_score WHERE video_id = ? AND strategy = ? AND score = ? AND id = ?',
+        params: [row.video_id, row.strategy, row.score, commentId]
+      })),
+      {
+        query: 'DELETE FROM comment_scores WHERE comment_id = ?',
+        params: [commentId]
+      }
+    ], { prepare: true });
+  }
+
+  // Rows left behind by two refreshes racing each other are skipped, and deleted on the way
+  async getRankedCommentScores(videoId: string, strategy: string, limit: number, lastScore?: number, lastId?: string): Promise<IndexedScore[]> {
+    const client = await connectToDatabase();
+    const page: IndexedScore[] = [];
+    let cursorScore = lastScore;
+    let cursorId = lastId;
+
+    // Stale rows are rare, so this almost always finishes in one round trip
+    while (page.length < limit) {
+      const result = cursorScore !== undefined && cursorId
+        ? await client.execute(`
+            SELECT score, id FROM comments_by_video_score
+            WHERE video_id = ? AND strategy = ? AND (score, id) < (?, ?)
+            ORDER BY score DESC, id DESC
+            LIMIT ?
+          `, [videoId, strategy, cursorScore, cursorId, limit], { prepare: true })
+        : await client.execute(`
+            SELECT score, id FROM comments_by_video_score
+            WHERE video_id = ? AND strategy = ?
+            ORDER BY score DESC, id DESC
+            LIMIT ?
+          `, [videoId, strategy, limit], { prepare: true });
+
+      const rows: IndexedScore[] = result.rows.map(row => ({ id: row.id.toString(), score: row.score }));
+      if (rows.length === 0) break;
+
+      const current = await client.execute(
+        'SELECT comment_id, score FROM comment_scores WHERE comment_id IN ? AND strategy = ?',
+        [rows.map(row => row.id), strategy],
+        { prepare: true }
+      );
+      const currentScores = new Map<string, number>();
+      current.rows.forEach(row => currentScores.set(row.comment_id.toString(), row.score));
+
+      for (const row of rows) {
+        if (currentScores.get(row.id) !== row.score) {
+          await client.execute(
+            'DELETE FROM comments_by_video_score WHERE video_id = ? AND strategy = ? AND score = ? AND id = ?',
+            [videoId, strategy, row.score, row.id],
+            { prepare: true }
+          );
+          continue;
+        }
+        if (page.length < limit) {
+          page.push(row);
+        }
+      }
+
+      const last = rows[rows.length - 1] as IndexedScore;
+      cursorScore = last.score;
+      cursorId = last.id;
+      if (rows.length < limit) break;
+    }
+
+    return page;
+  }
+
+  async touchRankedVideo(videoId: string, lastCommentAt: Date): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO ranked_videos (video_id, last_comment_at) VALUES (?, ?)',
+      [videoId, lastCommentAt],
+      { prepare: true }
+    );
+  }
+
+  async getRankedVideos(): Promise<{ videoId: string; lastCommentAt: Date }[]> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT video_id, last_comment_at FROM ranked_videos');
+    return result.rows.map(row => ({ videoId: row.video_id, lastCommentAt: row.last_comment_at }));
+  }
+
+  async removeRankedVideo(videoId: string): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute('DELETE FROM ranked_videos WHERE video_id = ?', [videoId], { prepare: true });
+  }
+
+  async writeSearchPostings(comment: Comment, terms: string[], remove: boolean): Promise<void> {
+    const client = await connectToDatabase();
+    await mapWithConcurrency(terms, searchConfig.indexWriteConcurrency, term => remove
+      ? client.execute(
+        'DELETE FROM comment_search_index WHERE video_id = ? AND term = ? AND created_at = ? AND comment_id = ?',
+        [comment.videoId, term, comment.createdAt, comment.id],
+        { prepare: true }
+      )
+      : client.execute(
+        'INSERT INTO comment_search_index (video_id, term, created_at, comment_id, user_id) VALUES (?, ?, ?, ?, ?)',
+        [comment.videoId, term, comment.createdAt, comment.id, comment.userId],
+        { prepare: true }
+      ));
+  }
+
+  async getSearchPostings(
+    videoId: string,
+    term: string,
+    limit: number,
+    lastCreatedAt?: Date,
+    lastId?: string,
+    to?: Date
+  ): Promise<SearchPosting[]> {
+    const client = await connectToDatabase();
+    const result = lastCreatedAt && lastId
+      ? await client.execute(`
+          SELECT created_at, comment_id, user_id FROM comment_search_index
+          WHERE video_id = ? AND term = ? AND (created_at, comment_id) < (?, ?)
+          ORDER BY created_at DESC, comment_id DESC
+          LIMIT ?
+        `, [videoId, term, lastCreatedAt, lastId, limit], { prepare: true })
+      : to
+        ? await client.execute(`
+            SELECT created_at, comment_id, user_id FROM comment_search_index
+            WHERE video_id = ? AND term = ? AND created_at <= ?
+            ORDER BY created_at DESC, comment_id DESC
+            LIMIT ?
+          `, [videoId, term, to, limit], { prepare: true })
+        : await client.execute(`
+            SELECT created_at, comment_id, user_id FROM comment_search_index
+            WHERE video_id = ? AND term = ?
+            ORDER BY created_at DESC, comment_id DESC
+            LIMIT ?
+          `, [videoId, term, limit], { prepare: true });
+
+    return result.rows.map(row => ({
+      commentId: row.comment_id.toString(),
+      userId: row.user_id,
+      createdAt: row.created_at
+    }));
+  }
+
+  async appendCommentEvent(event: CommentEvent, retentionSeconds: number): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO comment_events (video_id, occurred_at, id, type, payload) VALUES (?, ?, ?, ?, ?) USING TTL ?',
+      [event.videoId, event.occurredAt, event.id, event.type, JSON.stringify(event.data), retentionSeconds],
+      { prepare: true }
+    );
+  }
+
+  async getCommentEventsSince(videoId: string, after: CursorInfo, limit: number): Promise<CommentEvent[]> {
+    const client = await connectToDatabase();
+    const result = await client.execute(`
+      SELECT occurred_at, id, type, payload FROM comment_events
+      WHERE video_id = ? AND (occurred_at, id) > (?, ?)
+      ORDER BY occurred_at ASC, id ASC
+      LIMIT ?
+    `, [videoId, after.createdAt, after.id, limit], { prepare: true });
+
+    return result.rows.map(row => ({
+      id: row.id.toString(),
+      type: row.type,
+      videoId,
+      occurredAt: row.occurred_at,
+      data: JSON.parse(row.payload)
+    }));
+  }
+
+  async incrementVideoCounters(videoId: string, deltas: VideoCounterDeltas): Promise<void> {
+    await incrementCounters('video_stats', 'video_id', videoId, { ...deltas });
+  }
+
+  async getVideoCounters(videoId: string): Promise<Required<VideoCounterDeltas>> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT * FROM video_stats WHERE video_id = ?', [videoId], { prepare: true });
+    const row = result.rows[0];
+
+    return {
+      comment_count: toNumber(row?.comment_count),
+      reply_count: toNumber(row?.reply_count),
+      likes: toNumber(row?.likes),
+      dislikes: toNumber(row?.dislikes)
+    };
+  }
+
+  async setVideoActivity(videoId: string, activityAt: Date): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO video_activity (video_id, last_activity_at) VALUES (?, ?)',
+      [videoId, activityAt],
+      { prepare: true }
+    );
+  }
+
+  async getVideoActivity(videoId: string): Promise<Date | undefined> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT last_activity_at FROM video_activity WHERE video_id = ?', [videoId], { prepare: true });
+    return result.rows[0]?.last_activity_at ?? undefined;
+  }
+
+  async getActiveVideoIds(pageSize: number, pageState?: string): Promise<{ videoIds: string[]; pageState?: string | undefined }> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT video_id FROM video_activity', [], {
+      prepare: true,
+      fetchSize: pageSize,
+      ...(pageState ? { pageState } : {})
+    });
+
+    return {
+      videoIds: result.rows.map(row => row.video_id),
+      pageState: result.pageState ?? undefined
+    };
+  }
+
+  async getVideoSettings(videoId: string): Promise<VideoSettings | null> {
+    const client = await connectToDatabase();
+    const result = await client.execute(
+      'SELECT video_id, channel_id, ranking_strategy, owner_id, pinned_comment_id, updated_at FROM video_settings WHERE video_id = ?',
+      [videoId],
+      { prepare: true }
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      videoId: row.video_id,
+      channelId: row.channel_id ?? undefined,
+      rankingStrategy: row.ranking_strategy ?? undefined,
+      ownerId: row.owner_id ?? undefined,
+      pinnedCommentId: row.pinned_comment_id?.toString() ?? undefined,
+      updatedAt: row.updated_at ?? undefined
+    };
+  }
+
+  // Undefined fields are sent unset and left as they are
+  async updateVideoSettings(videoId: string, changes: VideoSettingsChanges, updatedAt: Date): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'UPDATE video_settings SET channel_id = ?, ranking_strategy = ?, owner_id = ?, updated_at = ? WHERE video_id = ?',
+      [changes.channelId, changes.rankingStrategy, changes.ownerId, updatedAt, videoId],
+      { prepare: true }
+    );
+  }
+
+  async setPinnedComment(videoId: string, commentId: string | null, updatedAt: Date): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'UPDATE video_settings SET pinned_comment_id = ?, updated_at = ? WHERE video_id = ?',
+      [commentId, updatedAt, videoId],
+      { prepare: true }
+    );
+  }
+
+  async getChannelSettings(channelId: string): Promise<ChannelSettings | null> {
+    const client = await connectToDatabase();
+    const result = await client.execute(
+      'SELECT channel_id, ranking_strategy, updated_at FROM channel_settings WHERE channel_id = ?',
+      [channelId],
+      { prepare: true }
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      channelId: row.channel_id,
+      rankingStrategy: row.ranking_strategy ?? undefined,
+      updatedAt: row.updated_at ?? undefined
+    };
+  }
+
+  async updateChannelSettings(channelId: string, changes: { rankingStrategy?: string | null | undefined }, updatedAt: Date): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'UPDATE channel_settings SET ranking_strategy = ?, updated_at = ? WHERE channel_id = ?',
+      [changes.rankingStrategy, updatedAt, channelId],
+      { prepare: true }
+    );
+  }
+
+  async insertReport(report: ContentReport): Promise<boolean> {
+    const client = await connectToDatabase();
+    const result = await client.execute(
+      `INSERT INTO content_reports (item_id, reporter_id, item_type, video_id, reason, details, reported_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?) IF NOT EXISTS`,
+      [report.itemId, report.reporterId, report.itemType, report.videoId, report.reason, report.details ?? null, report.reportedAt],
+      { prepare: true }
+    );
+    return result.wasApplied();
+  }
+
+  async incrementReportCount(itemId: string): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute('UPDATE report_counters SET reports = reports + 1 WHERE item_id = ?', [itemId], { prepare: true });
+  }
+
+  // One partition-key IN query for the whole batch
+  async getReportCounts(itemIds: string[]): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (itemIds.length === 0) return counts;
+
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT item_id, reports FROM report_counters WHERE item_id IN ?', [itemIds], { prepare: true });
+    result.rows.forEach(row => counts.set(row.item_id.toString(), toNumber(row.reports)));
+    return counts;
+  }
+
+  async getModerationItem(itemId: string): Promise<ModerationItem | null> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT * FROM moderation_items WHERE item_id = ?', [itemId], { prepare: true });
+    const row = result.rows[0];
+    if (!row) return null;
+
+    return {
+      itemId: row.item_id.toString(),
+      itemType: row.item_type,
+      videoId: row.video_id,
+      authorId: row.author_id,
+      status: row.status,
+      queuedAt: row.queued_at ?? undefined,
+      resolvedAt: row.resolved_at ?? undefined,
+      resolvedBy: row.resolved_by ?? undefined,
+      action: row.action ?? undefined
+    };
+  }
+
+  // Compare-and-set so concurrent first reports create the item exactly once
+  async createModerationItem(item: ModerationItem): Promise<boolean> {
+    const client = await connectToDatabase();
+    const result = await client.execute(
+      `INSERT INTO moderation_items (item_id, item_type, video_id, author_id, status, queued_at)
+       VALUES (?, ?, ?, ?, ?, ?) IF NOT EXISTS`,
+      [item.itemId, item.itemType, item.videoId, item.authorId, item.status, item.queuedAt ?? null],
+      { prepare: true }
+    );
+    return result.wasApplied();
+  }
+
+  async saveModerationItem(item: ModerationItem): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      `UPDATE moderation_items SET item_type = ?, video_id = ?, author_id = ?, status = ?, queued_at = ?,
+         resolved_at = ?, resolved_by = ?, action = ?
+       WHERE item_id = ?`,
+      [
+        item.itemType, item.videoId, item.authorId, item.status, item.queuedAt ?? null,
+        item.resolvedAt ?? null, item.resolvedBy ?? null, item.action ?? null, item.itemId
+      ],
+      { prepare: true }
+    );
+  }
+
+  async enqueueModerationItem(entry: QueueEntry): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO moderation_queue (video_id, queued_at, item_id, item_type, author_id, reasons) VALUES (?, ?, ?, ?, ?, ?)',
+      [entry.videoId, entry.queuedAt, entry.itemId, entry.itemType, entry.authorId, entry.reasons],
+      { prepare: true }
+    );
+  }
+
+  async addQueueReasons(entry: QueueEntry, reasons: string[]): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'UPDATE moderation_queue SET reasons = reasons + ? WHERE video_id = ? AND queued_at = ? AND item_id = ?',
+      [reasons, entry.videoId, entry.queuedAt, entry.itemId],
+      { prepare: true }
+    );
+  }
+
+  async getModerationQueue(videoId: string, limit: number, lastQueuedAt?: Date, lastItemId?: string): Promise<QueueEntry[]> {
+    const client = await connectToDatabase();
+    const result = lastQueuedAt && lastItemId
+      ? await client.execute(`
+          SELECT * FROM moderation_queue
+          WHERE video_id = ? AND (queued_at, item_id) > (?, ?)
+          LIMIT ?
+        `, [videoId, lastQueuedAt, lastItemId, limit], { prepare: true })
+      : await client.execute(`
+          SELECT * FROM moderation_queue
+          WHERE video_id = ?
+          LIMIT ?
+        `, [videoId, limit], { prepare: true });
+
+    return result.rows.map(mapRowToQueueEntry);
+  }
+
+  async dequeueModerationItem(entry: Pick<QueueEntry, 'videoId' | 'queuedAt' | 'itemId'>): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'DELETE FROM moderation_queue WHERE video_id = ? AND queued_at = ? AND item_id = ?',
+      [entry.videoId, entry.queuedAt, entry.itemId],
+      { prepare: true }
+    );
+  }
+
+  async banUser(ban: BannedUser): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO banned_users (user_id, banned_at, banned_by, reason) VALUES (?, ?, ?, ?)',
+      [ban.userId, ban.bannedAt, ban.bannedBy, ban.reason ?? null],
+      { prepare: true }
+    );
+  }
+
+  async isUserBanned(userId: string): Promise<boolean> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT user_id FROM banned_users WHERE user_id = ?', [userId], { prepare: true });
+    return result.rows.length > 0;
+  }
+
+  async hasRecentContent(userId: string, videoId: string, contentHash: string): Promise<boolean> {
+    const client = await connectToDatabase();
+    const result = await client.execute(
+      'SELECT content_hash FROM recent_content WHERE user_id = ? AND video_id = ? AND content_hash = ?',
+      [userId, videoId, contentHash],
+      { prepare: true }
+    );
+    return result.rows.length > 0;
+  }
+
+  async recordRecentContent(userId: string, videoId: string, contentHash: string, retentionSeconds: number): Promise<void> {
+    const client = await connectToDatabase();
+    await client.execute(
+      'INSERT INTO recent_content (user_id, video_id, content_hash, created_at) VALUES (?, ?, ?, ?) USING TTL ?',
+      [userId, videoId, contentHash, new Date(), retentionSeconds],
+      { prepare: true }
+    );
+  }
+
+  async getUserErasure(userId: string): Promise<UserErasure | null> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT * FROM user_erasures WHERE user_id = ?', [userId], { prepare: true });
+    const row = result.rows[0];
+    return row ? mapRowToErasure(row) : null;
+  }
+
+  // Lightweight transactions: IF updated_at = ? to keep a claim, IF NOT EXISTS to take a new one
+  async saveUserErasure(next: UserErasure, expectedUpdatedAt: Date | null): Promise<boolean> {
+    const client = await connectToDatabase();
+    const params = [
+      next.status, next.requestedBy, next.startedAt, next.updatedAt, next.completedAt ?? null,
+      next.itemsDeleted, next.itemsAnonymized, next.reactionsRemoved, next.lastError ?? null
+    ];
+
+    const result = expectedUpdatedAt
+      ? await client.execute(`
+          UPDATE user_erasures SET status = ?, requested_by = ?, started_at = ?, updated_at = ?, completed_at = ?,
+            items_deleted = ?, items_anonymized = ?, reactions_removed = ?, last_error = ?
+          WHERE user_id = ? IF updated_at = ?
+        `, [...params, next.userId, expectedUpdatedAt], { prepare: true })
+      : await client.execute(`
+          INSERT INTO user_erasures (status, requested_by, started_at, updated_at, completed_at,
+            items_deleted, items_anonymized, reactions_removed, last_error, user_id)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) IF NOT EXISTS
+        `, [...params, next.userId], { prepare: true });
+
+    return result.wasApplied();
+  }
+
+  async getErasureUserIds(pageSize: number, pageState?: string): Promise<{ userIds: string[]; pageState?: string | undefined }> {
+    const client = await connectToDatabase();
+    const result = await client.execute('SELECT user_id FROM user_erasures', [], {
+      prepare: true,
+      fetchSize: pageSize,
+      ...(pageState ? { pageState } : {})
+    });
+
+    return {
+      userIds: result.rows.map(row => row.user_id),
+      pageState: result.pageState ?? undefined
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { getChannelSettings, updateChannelSettings } from '../controllers/settingsController';
+import { requireModerator } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { rateLimit } from '../middleware/rateLimit';
+import { channelSettingsParams, updateChannelSettingsBody } from '../validation/settingsSchemas';
+
+const router = Router();
+
+// Channel Routes
+router.get('/:channelId/settings', rateLimit('read'), validate({ params: channelSettingsParams }), getChannelSettings); // Channel feed settings
+// http://localhost:4000/api/channels/channel_123/settings
+
+router.put('/:channelId/settings', requireModerator, validate({ params: channelSettingsParams, body: updateChannelSettingsBody }), updateChannelSettings); // Set channel ranking strategy
+// http://localhost:4000/api/channels/channel_123/settings
+
+export default router;
@@ -6,62 +6,143 @@ import {
   createReply,  // done
   deleteReply, //done
   getReplies,  //done
-  increaseLikeComment, //done
-  decreaseLikeComment, //done
-  increaseDislikeComment, // done
-  decreaseDislikeComment, // done
-  increaseLikeReply, //done
-  decreaseLikeReply, //done
-  increaseDislikeReply, //done
-  decreaseDislikeReply //done
+  setReactionComment,
+  setReactionReply,
+  updateComment,
+  updateReply,
+  getHistory,
+  getReplyHistory,
+  restoreComment,
+  restoreReply,
+  createReplyToReply,
+  getReplyReplies,
+  getThread,
+  getReplyThread,
+  searchComments
 } from '../controllers/commentsController';
+import { streamComments } from '../controllers/streamController';
+import {
+  reportComment,
+  reportReply,
+  moderateComment,
+  moderateReply
+} from '../controllers/moderationController';
+import {
+  pinComment,
+  unpinComment,
+  heartComment,
+  unheartComment
+} from '../controllers/creatorController';
+import { requireAuth, requireModerator } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  idParams,
+  videoIdParams,
+  getCommentsQuery,
+  getRepliesQuery,
+  getThreadQuery,
+  searchCommentsQuery,
+  streamQuery,
+  createCommentBody,
+  createReplyBody,
+  updateContentBody,
+  reactionBody
+} from '../validation/commentSchemas';
+import { reportBody, moderateBody } from '../validation/moderationSchemas';
 
 const router = Router();
 
 // Comment Routes
-router.get('/:videoId', getComments); // Get comments for a video.
+router.get('/:videoId', rateLimit('read'), validate({ params: videoIdParams, query: getCommentsQuery }), getComments); // Get comments for a video.
 // http://localhost:4000/api/comments/video_123?type=nested&limit=20&cursor=eyJjcmVhdGVkX2F0IjoiMjAyNC0xMi0xNVQxMDozMDowMC4wMDBaIiwiaWQiOiIxMjM0NSJ9&replies_limit=5
 
-router.post('/', createComment); // Create comment
+router.get('/:videoId/search', rateLimit('read'), validate({ params: videoIdParams, query: searchCommentsQuery }), searchComments); // Keyword search within a video
+// http://localhost:4000/api/comments/video_123/search?q=%22great%20video%22%20tutor*&author=user_42&from=2025-01-01T00:00:00Z&limit=20
+
+router.get('/:videoId/stream', rateLimit('read'), validate({ params: videoIdParams, query: streamQuery }), streamComments); // Live comment events (SSE); WebSocket at /:videoId/ws
+// http://localhost:4000/api/comments/video_123/stream?cursor=eyJjcmVhdGVkQXQiOiIyMDI1LTA3LTMxVDAzOjU5OjM0LjYxN1oiLCJpZCI6IjEyYzUxYThkLWZlMTMtNDM4Zi1iYmNiLWUyNWE2NGUxNWFkYSJ9
+
+router.post('/', requireAuth, rateLimit('comment'), validate({ body: createCommentBody }), createComment); // Create comment
 // http://localhost:4000/api/comments/
 
-router.delete('/:id', deleteComment); // Delete comment
+router.patch('/:id', requireAuth, validate({ params: idParams, body: updateContentBody }), updateComment); // Edit comment content
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111
+
+router.get('/:id/history', rateLimit('read'), validate({ params: idParams }), getHistory); // List prior versions of a comment
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/history
+
+router.delete('/:id', requireAuth, validate({ params: idParams }), deleteComment); // Delete comment (soft delete)
 // http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111
 
-// Comment Like/Dislike Routes
-router.put('/:id/like/increase', increaseLikeComment); // Increase like count 4 comment
-// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/like/increase
+router.post('/:id/restore', requireAuth, validate({ params: idParams }), restoreComment); // Restore a deleted comment
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/restore
+
+// Comment Reaction Routes
+router.put('/:id/reaction', requireAuth, rateLimit('reaction'), validate({ params: idParams, body: reactionBody }), setReactionComment); // Set user's like/dislike/none on a comment
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/reaction
+
+// Creator Routes
+router.post('/:id/pin', requireAuth, validate({ params: idParams }), pinComment); // Pin to the top of the video (video owner only)
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/pin
+
+router.delete('/:id/pin', requireAuth, validate({ params: idParams }), unpinComment); // Unpin (video owner only)
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/pin
 
-router.put('/:id/like/decrease', decreaseLikeComment); // Decrease like count 4 comment
-// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/like/decrease
+router.post('/:id/heart', requireAuth, validate({ params: idParams }), heartComment); // Heart as the creator (video owner only)
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/heart
 
-router.put('/:id/dislike/increase', increaseDislikeComment); // Increase dislike count 4 comment
-// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/dislike/increase
+router.delete('/:id/heart', requireAuth, validate({ params: idParams }), unheartComment); // Remove the creator's heart (video owner only)
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/heart
 
-router.put('/:id/dislike/decrease', decreaseDislikeComment); // Decrease dislike count 4 comment
-// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/dislike/decrease
+// Moderation Routes
+router.post('/:id/report', requireAuth, validate({ params: idParams, body: reportBody }), reportComment); // Report a comment to moderators
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/report
+
+router.post('/:id/moderate', requireModerator, validate({ params: idParams, body: moderateBody }), moderateComment); // Approve, hide, remove or ban the author
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/moderate
 
 // Reply Routes
-router.get('/:id/replies', getReplies); // Get replies for a comment.
+router.get('/:id/replies', rateLimit('read'), validate({ params: idParams, query: getRepliesQuery }), getReplies); // Get replies for a comment.
 // http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/replies?limit=10&cursor=eyJjcmVhdGVkX2F0IjoiMjAyNC0xMi0xNVQxMDozMDowMC4wMDBaIiwiaWQiOiIxMjM0NSJ9
 
-router.post('/:id/replies', createReply); // Create a new reply.
+router.post('/:id/replies', requireAuth, rateLimit('reply'), validate({ params: idParams, body: createReplyBody }), createReply); // Create a new reply.
 // http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/replies
 
-router.delete('/replies/:id', deleteReply); // Delete reply
+// Thread Routes
+router.get('/:id/thread', rateLimit('read'), validate({ params: idParams, query: getThreadQuery }), getThread); // Comment with its reply tree
+// http://localhost:4000/api/comments/11111111-1111-1111-1111-111111111111/thread?limit=10&replies_limit=5&max_depth=3
+
+router.get('/replies/:id/thread', rateLimit('read'), validate({ params: idParams, query: getThreadQuery }), getReplyThread); // Reply with the tree below it
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/thread?max_depth=3
+
+router.get('/replies/:id/replies', rateLimit('read'), validate({ params: idParams, query: getRepliesQuery }), getReplyReplies); // Get replies to a reply.
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/replies?limit=10
+
+router.post('/replies/:id/replies', requireAuth, rateLimit('reply'), validate({ params: idParams, body: createReplyBody }), createReplyToReply); // Reply to a reply.
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/replies
+
+router.patch('/replies/:id', requireAuth, validate({ params: idParams, body: updateContentBody }), updateReply); // Edit reply content
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222
+
+router.get('/replies/:id/history', rateLimit('read'), validate({ params: idParams }), getReplyHistory); // List prior versions of a reply
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/history
+
+router.delete('/replies/:id', requireAuth, validate({ params: idParams }), deleteReply); // Delete reply (soft delete)
 // http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222
 
-// Reply Like/Dislike Routes  
-router.put('/replies/:id/like/increase', increaseLikeReply); // Increase like count 4 reply
-// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/like/increase
+router.post('/replies/:id/restore', requireAuth, validate({ params: idParams }), restoreReply); // Restore a deleted reply
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/restore
 
-router.put('/replies/:id/like/decrease', decreaseLikeReply); // Decrease like count 4 reply
-// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/like/decrease
+// Reply Reaction Routes
+router.put('/replies/:id/reaction', requireAuth, rateLimit('reaction'), validate({ params: idParams, body: reactionBody }), setReactionReply); // Set user's like/dislike/none on a reply
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/reaction
 
-router.put('/replies/:id/dislike/increase', increaseDislikeReply); // Increase dislike count 4 reply
-// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/dislike/increase
+// Reply Moderation Routes
+router.post('/replies/:id/report', requireAuth, validate({ params: idParams, body: reportBody }), reportReply); // Report a reply to moderators
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/report
 
-router.put('/replies/:id/dislike/decrease', decreaseDislikeReply); // Decrease dislike count 4 reply
-// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/dislike/decrease
+router.post('/replies/:id/moderate', requireModerator, validate({ params: idParams, body: moderateBody }), moderateReply); // Approve, hide, remove or ban the author
+// http://localhost:4000/api/comments/replies/22222222-2222-2222-2222-222222222222/moderate
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { getPageCacheMetrics } from '../controllers/metricsController';
+import { requireModerator } from '../middleware/auth';
+
+const router = Router();
+
+// Metrics Routes
+router.get('/page-cache', requireModerator, getPageCacheMetrics); // First-page cache hits, misses and size
+// http://localhost:4000/api/metrics/page-cache
+
+export default router;
@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { getUserContent, eraseUserData, getErasureStatus, exportUserData } from '../controllers/userController';
+import { requireAuth } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { rateLimit } from '../middleware/rateLimit';
+import { userIdParams, getUserContentQuery } from '../validation/userSchemas';
+
+const router = Router();
+
+// User Routes
+router.get('/:userId/comments', rateLimit('read'), validate({ params: userIdParams, query: getUserContentQuery }), getUserContent); // A user's comments and replies, newest first
+// http://localhost:4000/api/users/user_42/comments?limit=20
+
+// Account Data Routes
+router.delete('/:userId/data', requireAuth, validate({ params: userIdParams }), eraseUserData); // Erase the user's content (self or moderator)
+// http://localhost:4000/api/users/user_42/data
+
+router.get('/:userId/data/erasure', requireAuth, validate({ params: userIdParams }), getErasureStatus); // Progress of the erasure
+// http://localhost:4000/api/users/user_42/data/erasure
+
+router.get('/:userId/export', requireAuth, validate({ params: userIdParams }), exportUserData); // Download all of the user's content as JSON
+// http://localhost:4000/api/users/user_42/export
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { getVideoSettings, updateVideoSettings } from '../controllers/settingsController';
+import { getVideoStats } from '../controllers/statsController';
+import { getReports } from '../controllers/moderationController';
+import { requireModerator } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { rateLimit } from '../middleware/rateLimit';
+import { videoIdParams } from '../validation/commentSchemas';
+import { updateVideoSettingsBody } from '../validation/settingsSchemas';
+import { getReportsQuery } from '../validation/moderationSchemas';
+
+const router = Router();
+
+// Video Routes
+router.get('/:videoId/settings', rateLimit('read'), validate({ params: videoIdParams }), getVideoSettings); // Effective feed settings
+// http://localhost:4000/api/videos/video_123/settings
+
+router.get('/:videoId/stats', rateLimit('read'), validate({ params: videoIdParams }), getVideoStats); // Comment/reply/reaction totals
+// http://localhost:4000/api/videos/video_123/stats
+
+router.put('/:videoId/settings', requireModerator, validate({ params: videoIdParams, body: updateVideoSettingsBody }), updateVideoSettings); // Set channel and ranking strategy
+// http://localhost:4000/api/videos/video_123/settings
+
+router.get('/:videoId/reports', requireModerator, validate({ params: videoIdParams, query: getReportsQuery }), getReports); // Pending moderation queue
+// http://localhost:4000/api/videos/video_123/reports?limit=20
+
+export default router;
@@ -0,0 +1,31 @@
+import { disconnectFromDatabase } from '../config/database';
+import { refreshVideoScores } from '../jobs/scoreRefresh';
+
+/**
+ * Backfill the ranked index for videos whose comments predate it
+ *
+ * Usage: npm run backfill:scores -- <videoId> [<videoId> ...]
+ */
+
+async function main(): Promise<void> {
+  const videoIds = process.argv.slice(2);
+  if (videoIds.length === 0) {
+    console.error('Usage: npm run backfill:scores -- <videoId> [<videoId> ...]');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    for (const videoId of videoIds) {
+      const scored = await refreshVideoScores(videoId, new Date(), true);
+      console.log(`Indexed ${scored} comments for video ${videoId}`);
+    }
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error('Score backfill failed:', error);
+  process.exitCode = 1;
+});
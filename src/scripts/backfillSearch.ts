@@ -0,0 +1,31 @@
+import { disconnectFromDatabase } from '../config/database';
+import { reindexVideoComments } from '../services/searchService';
+
+/**
+ * Build the search index for videos whose comments predate it
+ *
+ * Usage: npm run backfill:search -- <videoId> [<videoId> ...]
+ */
+
+async function main(): Promise<void> {
+  const videoIds = process.argv.slice(2);
+  if (videoIds.length === 0) {
+    console.error('Usage: npm run backfill:search -- <videoId> [<videoId> ...]');
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    for (const videoId of videoIds) {
+      const indexed = await reindexVideoComments(videoId);
+      console.log(`Indexed ${indexed} comments for search on video ${videoId}`);
+    }
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error('Search backfill failed:', error);
+  process.exitCode = 1;
+});
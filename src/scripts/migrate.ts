@@ -0,0 +1,43 @@
+import { disconnectFromDatabase } from '../config/database';
+import { migrateUp, getMigrationStatus, migrationLabel } from '../services/migrationService';
+
+/**
+ * Apply pending schema migrations, or list the state of each one
+ *
+ * Usage: npm run migrate -- up | status   (status exits with code 2 while any is pending)
+ */
+
+const USAGE = 'Usage: npm run migrate -- up | status';
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+  if (process.argv.length !== 3 || (command !== 'up' && command !== 'status')) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    if (command === 'up') {
+      const applied = await migrateUp();
+      console.log(applied.length > 0 ? `Applied ${applied.length} migrations` : 'Schema is up to date');
+      return;
+    }
+
+    const statuses = await getMigrationStatus();
+    for (const status of statuses) {
+      const appliedAt = status.appliedAt ? ` (applied ${status.appliedAt.toISOString()})` : '';
+      console.log(`  [${status.state}] ${migrationLabel(status)}${appliedAt}`);
+    }
+    if (statuses.some(status => status.state === 'pending')) {
+      process.exitCode = 2;
+    }
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error);
+  process.exitCode = 1;
+});
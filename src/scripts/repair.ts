@@ -0,0 +1,58 @@
+import { disconnectFromDatabase } from '../config/database';
+import { checkVideoConsistency } from '../services/consistencyService';
+
+/**
+ * Report (and with --fix, repair) divergences between a video's base tables and indexing tables
+ *
+ * Usage: npm run repair -- --video <videoId> [--video <videoId> ...] [--fix]
+ */
+
+const USAGE = 'Usage: npm run repair -- --video <videoId> [--video <videoId> ...] [--fix]';
+
+function parseArgs(args: string[]): { videoIds: string[]; fix: boolean } | null {
+  const videoIds: string[] = [];
+  let fix = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--fix') {
+      fix = true;
+    } else if (arg === '--video' && args[i + 1]) {
+      videoIds.push(args[++i] as string);
+    } else {
+      return null;
+    }
+  }
+
+  return videoIds.length > 0 ? { videoIds, fix } : null;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    for (const videoId of options.videoIds) {
+      const report = await checkVideoConsistency(videoId, { fix: options.fix });
+      console.log(`Video ${videoId}: checked ${report.commentsChecked} comments, ${report.repliesChecked} replies, ${report.divergences.length} divergences`);
+      for (const divergence of report.divergences) {
+        const status = divergence.fixed ? 'fixed' : 'found';
+        console.log(`  [${status}] ${divergence.kind} ${divergence.itemType} ${divergence.id} in ${divergence.table}: ${divergence.detail}`);
+      }
+      if (report.divergences.length > 0 && !options.fix) {
+        process.exitCode = 2;
+      }
+    }
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error('Repair failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,32 @@
+import { disconnectFromDatabase } from '../config/database';
+import { repairVideoStats, repairAllVideoStats } from '../jobs/statsRepair';
+
+/**
+ * Recompute per-video stats from the base tables
+ *
+ * Usage: npm run repair:stats -- [<videoId> ...]   (no ids repairs every video with stats)
+ */
+
+async function main(): Promise<void> {
+  const videoIds = process.argv.slice(2);
+
+  try {
+    if (videoIds.length === 0) {
+      const repaired = await repairAllVideoStats();
+      console.log(`Repaired stats for ${repaired} videos`);
+      return;
+    }
+
+    for (const videoId of videoIds) {
+      const stats = await repairVideoStats(videoId);
+      console.log(`Video ${videoId}: ${stats.commentCount} comments, ${stats.replyCount} replies, ${stats.likes} likes, ${stats.dislikes} dislikes`);
+    }
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+main().catch(error => {
+  console.error('Stats repair failed:', error);
+  process.exitCode = 1;
+});
@@ -1,85 +1,94 @@
-import { connectToDatabase } from '../config/database';
-import { Comment, Reply, CommentRow, ReplyRow } from '../models/comments';
+import {
+  Comment,
+  Reply,
+  CommentRow,
+  ReplyRow,
+  ReactionType,
+  ReactionResult,
+  EditRevision,
+  Tombstone,
+  ScoredComment,
+  PageOrder,
+  DELETED_USER
+} from '../models/comments';
+import { tombstoneConfig } from '../config/tombstones';
+import { threadConfig } from '../config/threads';
+import { ApiError, NotFoundError, ValidationError } from '../utils/errors';
 import { v4 as uuidv4 } from 'uuid';
-
-// Helper function to map Scylla DB Row to CommentRow
-const mapDbRowToCommentRow = (row: any): CommentRow => ({
-  id: row.id,
-  video_id: row.video_id,
-  user_id: row.user_id,
-  content: row.content,
-  likes: typeof row.likes === 'object' ? row.likes.toNumber() : row.likes,
-  dislikes: typeof row.dislikes === 'object' ? row.dislikes.toNumber() : row.dislikes,
-  created_at: row.created_at,
-  reply_count: typeof row.reply_count === 'object' ? row.reply_count.toNumber() : row.reply_count
-});
-
-// Helper function to map Scylla DB Row to ReplyRow
-const mapDbRowToReplyRow = (row: any): ReplyRow => ({
-  id: row.id,
-  comment_id: row.comment_id,
-  user_id: row.user_id,
-  content: row.content,
-  likes: typeof row.likes === 'object' ? row.likes.toNumber() : row.likes,
-  dislikes: typeof row.dislikes === 'object' ? row.dislikes.toNumber() : row.dislikes,
-  created_at: row.created_at
-});
-
-// Helper function to map CommentRow to Comment
-const mapRowToComment = (row: CommentRow): Comment => ({
-  id: row.id,
-  videoId: row.video_id,
-  userId: row.user_id,
-  content: row.content,
-  likes: row.likes,
-  dislikes: row.dislikes,
-  createdAt: row.created_at,
-  replyCount: row.reply_count
-});
-
-// Helper function to map ReplyRow to Reply
-const mapRowToReply = (row: ReplyRow): Reply => ({
-  id: row.id,
-  commentId: row.comment_id,
-  userId: row.user_id,
-  content: row.content,
-  likes: row.likes,
-  dislikes: row.dislikes,
-  createdAt: row.created_at
-});
+import { getCommentRepository } from '../repositories';
+import { mapRowToComment, mapRowToReply } from '../repositories/commentRepository';
+import {
+  upsertCommentScore,
+  removeCommentScore,
+  getRankedCommentScores,
+  touchRankedVideo
+} from './scoreIndexService';
+import { emitCommentEvent } from './eventsService';
+import { updateVideoStats } from './videoStatsService';
+import { indexComment, unindexComment, reindexComment } from './searchIndexService';
+import { invalidateCommentPages } from './pageCacheService';
 
 // Get comments USING indexing table
 export const getCommentsByVideoIdWithCursor = async (
   videoId: string,
   limit: number,
   lastCreatedAt?: Date,
-  lastId?: string
+  lastId?: string,
+  order?: PageOrder
 ): Promise<Comment[]> => {
-  const client = await connectToDatabase();
-
-  let query: string;
-  let params: any[];
-
-  if (lastCreatedAt && lastId) {
-    query = `
-      SELECT * FROM comments_by_video_time 
-      WHERE video_id = ? AND (created_at, id) < (?, ?)
-      ORDER BY created_at DESC, id DESC
-      LIMIT ?
-    `,
-      params = [videoId, lastCreatedAt, lastId, limit]
-  } else {
-    // First page
-    query = `
-      SELECT * FROM comments_by_video_time 
-      WHERE video_id = ?
-      ORDER BY created_at DESC, id DESC
-      LIMIT ?
-    `,
-      params = [videoId, limit]
+  return getCommentRepository().getCommentsByVideo(videoId, limit, lastCreatedAt, lastId, order);
+};
+
+// Get comments in ranked order using a strategy's score index
+export const getCommentsByVideoIdRanked = async (
+  videoId: string,
+  strategy: string,
+  limit: number,
+  lastScore?: number,
+  lastId?: string
+): Promise<ScoredComment[]> => {
+  const scores = await getRankedCommentScores(videoId, strategy, limit, lastScore, lastId);
+  const comments = await getCommentsByIds(scores.map(s => s.id));
+  const commentsById = new Map(comments.map(c => [c.id.toString(), c]));
+
+  return scores.flatMap(({ id, score }) => {
+    const comment = commentsById.get(id);
+    return comment ? [{ ...comment, score }] : [];
+  });
+};
+
+// Get comments by primary key, preserving the order of the ids given
+export const getCommentsByIds = async (commentIds: string[]): Promise<Comment[]> => {
+  if (commentIds.length === 0) return [];
+
+  const comments = await getCommentRepository().getCommentsByIds(commentIds);
+  const commentsById = new Map(comments.map(c => [c.id.toString(), c]));
+
+  return commentIds.flatMap(id => {
+    const comment = commentsById.get(id);
+    return comment ? [comment] : [];
+  });
+};
+
+// Get replies by primary key, preserving the order of the ids given
+export const getRepliesByIds = async (replyIds: string[]): Promise<Reply[]> => {
+  if (replyIds.length === 0) return [];
+
+  const replies = await getCommentRepository().getRepliesByIds(replyIds);
+  const repliesById = new Map(replies.map(r => [r.id.toString(), r]));
+
+  return replyIds.flatMap(id => {
+    const reply = repliesById.get(id);
+    return reply ? [reply] : [];
+  });
+};
+
+// Re-score a comment in the ranked index after its likes/dislikes/replies change
+export const refreshCommentScore = async (commentId: string): Promise<void> => {
+  const comment = await getCommentById(commentId);
+  if (comment) {
+    await upsertCommentScore(comment);
   }
-  const result = await client.execute(query, params, { prepare: true });
-  return result.rows.map(mapDbRowToCommentRow).map(mapRowToComment);
 };
 
 // Get replies using indexing table
@@ -87,447 +96,650 @@ export const getRepliesWithCursor = async (
   commentId: string,
   limit: number,
   lastCreatedAt?: Date,
-  lastId?: string
+  lastId?: string,
+  order?: PageOrder
 ): Promise<Reply[]> => {
-  const client = await connectToDatabase();
-
-  let query: string;
-  let params: any[];
-
-  if (lastCreatedAt && lastId) {
-    // Use cursor-based pagination
-    query = `
-      SELECT * FROM replies_by_comment_time 
-      WHERE comment_id = ? AND (created_at, id) < (?, ?)
-      ORDER BY created_at DESC, id DESC
-      LIMIT ?
-    `,
-      params = [commentId, lastCreatedAt, lastId, limit],
-    {
-      hints: ['uuid', 'timestamp', 'string', 'counter'],
-      prepare: true
-    }
-  } else {
-    // First page
-    query = `
-      SELECT * FROM replies_by_comment_time 
-      WHERE comment_id = ?
-      ORDER BY created_at DESC, id DESC
-      LIMIT ?
-    `,
-      params = [commentId, limit],
-    {
-      hints: ['uuid', 'counter'],
-      prepare: true
-    }
-  }
-
-  const result = await client.execute(query, params, { prepare: true });
-  return result.rows.map(mapDbRowToReplyRow).map(mapRowToReply);
+  return getCommentRepository().getRepliesByComment(commentId, limit, lastCreatedAt, lastId, order);
 };
 
-// Get all replies (for nested structure)
-export const getRepliesByCommentIds = async (commentIds: string[]): Promise<Reply[]> => {
-  if (commentIds.length === 0) return [];
+// Get the newest `limit` direct replies of each comment for nested pages; comments
+// without replies are skipped
+export const getReplyPagesByCommentIds = async (comments: Comment[], limit: number): Promise<Map<string, Reply[]>> => {
+  const withReplies = comments.filter(comment => comment.replyCount > 0);
+  return getCommentRepository().getReplyPagesByComments(withReplies.map(comment => comment.id), limit);
+};
 
-  const client = await connectToDatabase();
-  const queries = commentIds.map(commentId =>
-    client.execute('SELECT * FROM replies_by_comment_time WHERE comment_id = ?', [commentId])
-  );
+// Get replies to a reply using the threaded indexing table
+export const getChildRepliesWithCursor = async (
+  parentId: string,
+  limit: number,
+  lastCreatedAt?: Date,
+  lastId?: string,
+  order?: PageOrder
+): Promise<Reply[]> => {
+  return getCommentRepository().getRepliesByParent(parentId, limit, lastCreatedAt, lastId, order);
+};
 
-  const results = await Promise.all(queries);
-  const allReplies: Reply[] = [];
+// Get every reply (live or deleted) directly under a reply
+const getChildReplies = async (parentId: string): Promise<Reply[]> => {
+  return getCommentRepository().getAllRepliesByParent(parentId);
+};
 
-  results.forEach(result => {
-    const replies = result.rows.map(mapDbRowToReplyRow).map(mapRowToReply);
-    allReplies.push(...replies);
-  });
+// Get every direct reply (live or deleted) of a comment, for purging
+const getAllRepliesByCommentId = async (commentId: string): Promise<Reply[]> => {
+  return getCommentRepository().getAllRepliesByComment(commentId);
+};
 
-  return allReplies;
+// Get every reply (live or deleted) in a comment's thread, at any depth
+export const getThreadReplies = async (commentId: string): Promise<Reply[]> => {
+  const collect = async (replies: Reply[]): Promise<Reply[]> => {
+    const nested = await Promise.all(replies.map(reply =>
+      reply.depth < threadConfig.maxDepth ? getChildReplies(reply.id).then(collect) : Promise.resolve([])));
+    return [...replies, ...nested.flat()];
+  };
+  return collect(await getAllRepliesByCommentId(commentId));
 };
 
 // Get specific comment by ID
 export const getCommentById = async (commentId: string): Promise<Comment | null> => {
-  const client = await connectToDatabase();
-  const query = 'SELECT * FROM comments WHERE id = ?';
-  const result = await client.execute(query, [commentId]);
-  if (result.rows.length === 0) return null;
-  return mapRowToComment(mapDbRowToCommentRow(result.rows[0]));
+  const [comment] = await getCommentRepository().getCommentsByIds([commentId]);
+  return comment ?? null;
 };
 
 // Get specific reply by ID
 export const getReplyById = async (replyId: string): Promise<Reply | null> => {
-  const client = await connectToDatabase();
-  const query = 'SELECT * FROM replies WHERE id = ?';
-  const result = await client.execute(query, [replyId]);
-  if (result.rows.length === 0) return null;
-  return mapRowToReply(mapDbRowToReplyRow(result.rows[0]));
-};
-
-// Get comment count for estimated totals
-export const getCommentCountByVideoId = async (videoId: string): Promise<number> => {
-  const client = await connectToDatabase();
-  const query = 'SELECT COUNT(*) as count FROM comments WHERE video_id = ?';
-  const result = await client.execute(query, [videoId]);
-  if (!result.rows || result.rows.length === 0 || !result.rows[0]) {
-    return 0;
-  }
-  const count = result.rows[0].count;
-  return typeof count === 'object' ? count.toNumber() : count;
+  const [reply] = await getCommentRepository().getRepliesByIds([replyId]);
+  return reply ?? null;
 };
 
-// Get reply count for a comment
-export const getReplyCountByCommentId = async (commentId: string): Promise<number> => {
-  const client = await connectToDatabase();
-  const query = 'SELECT COUNT(*) as count FROM replies WHERE comment_id = ?';
-  const result = await client.execute(query, [commentId]);
-  if (!result.rows || result.rows.length === 0 || !result.rows[0]) {
-    return 0;
-  }
-  const count = result.rows[0].count;
-  return typeof count === 'object' ? count.toNumber() : count;
-};
-
-// Create new comment
-export const createComment = async (comment: Omit<CommentRow, 'id' | 'created_at'>): Promise<CommentRow> => {
-  const client = await connectToDatabase();
+// Create new comment. A held comment (the content filter wants a moderator to look first)
+// only gets its base row; it reaches the feeds once released.
+export const createComment = async (
+  comment: Omit<CommentRow, 'id' | 'created_at'>,
+  options: { held?: boolean } = {}
+): Promise<CommentRow> => {
   const newCommentRow: CommentRow = {
     id: uuidv4(),
     created_at: new Date(),
     ...comment,
+    held_at: options.held ? new Date() : null
   };
 
-  // Insert into both tables (original and indexing table)
-  const insertCommentQuery = `
-    INSERT INTO comments (id, video_id, user_id, content, likes, dislikes, created_at, reply_count)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `;
-
-  const insertCommentIndexQuery = `
-    INSERT INTO comments_by_video_time (video_id, created_at, id, user_id, content, likes, dislikes, reply_count)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `;
-
-  const params = [
-    newCommentRow.id,
-    newCommentRow.video_id,
-    newCommentRow.user_id,
-    newCommentRow.content,
-    newCommentRow.likes,
-    newCommentRow.dislikes,
-    newCommentRow.created_at,
-    newCommentRow.reply_count
-  ];
-
-  const indexParams = [
-    newCommentRow.video_id,
-    newCommentRow.created_at,
-    newCommentRow.id,
-    newCommentRow.user_id,
-    newCommentRow.content,
-    newCommentRow.likes,
-    newCommentRow.dislikes,
-    newCommentRow.reply_count
-  ];
-
-  // Execute both inserts
-  await Promise.all([
-    client.execute(insertCommentQuery, params),
-    client.execute(insertCommentIndexQuery, indexParams)
-  ]);
+  await getCommentRepository().insertComment(newCommentRow);
+  if (!options.held) {
+    await publishComment(mapRowToComment(newCommentRow));
+  }
 
   return newCommentRow;
 };
 
-// Create new reply
-export const createReply = async (reply: Omit<ReplyRow, 'id' | 'created_at'>): Promise<ReplyRow> => {
-  const client = await connectToDatabase();
+// Make a comment that just reached the indexing table visible everywhere else: ranked
+// feed, search, stats and stream
+const publishComment = async (comment: Comment): Promise<void> => {
+  // Enter the ranked feed and the periodic recency refresh
+  await Promise.all([
+    upsertCommentScore(comment),
+    touchRankedVideo(comment.videoId, comment.createdAt),
+    indexComment(comment),
+    updateVideoStats(comment.videoId, { comment_count: 1 }, comment.createdAt)
+  ]);
+  await invalidateCommentPages(comment.videoId);
+  await emitCommentEvent(comment.videoId, 'comment.created', { comment });
+};
+
+// Create new reply, either on a comment or (with parent_id) on another reply. Held replies
+// only get their base row, like held comments.
+export const createReply = async (
+  reply: Omit<ReplyRow, 'id' | 'created_at'>,
+  options: { held?: boolean } = {}
+): Promise<ReplyRow> => {
+  const parentReply = reply.parent_id ? await getReplyById(reply.parent_id) : null;
+  if (reply.parent_id && (!parentReply || parentReply.deleted || parentReply.held)) {
+    throw new NotFoundError(`Reply with id ${reply.parent_id} not found`);
+  }
+  if (parentReply && parentReply.depth >= threadConfig.maxDepth) {
+    throw new ValidationError(`Replies cannot be nested more than ${threadConfig.maxDepth} levels deep`);
+  }
+
+  // A deleted comment's existing threads stay open; only new top-level replies are refused
+  const commentId = parentReply ? parentReply.commentId : reply.comment_id;
+  const parent = await getCommentById(commentId);
+  if (!parent || parent.held || (parent.deleted && !parentReply)) {
+    throw new NotFoundError(`Comment with id ${commentId} not found`);
+  }
+
+  const id = uuidv4();
   const newReplyRow: ReplyRow = {
-    id: uuidv4(),
+    id,
     created_at: new Date(),
     ...reply,
+    comment_id: commentId,
+    parent_id: parentReply ? parentReply.id : null,
+    depth: parentReply ? parentReply.depth + 1 : 1,
+    path: parentReply ? `${parentReply.path}/${id}` : id,
+    held_at: options.held ? new Date() : null
   };
 
-  // Insert into both tables (original and indexing table)
-  const insertReplyQuery = `
-    INSERT INTO replies (id, comment_id, user_id, content, likes, dislikes, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `;
-
-  const insertReplyIndexQuery = `
-    INSERT INTO replies_by_comment_time (comment_id, created_at, id, user_id, content, likes, dislikes)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `;
-
-  const params = [
-    newReplyRow.id,
-    newReplyRow.comment_id,
-    newReplyRow.user_id,
-    newReplyRow.content,
-    newReplyRow.likes,
-    newReplyRow.dislikes,
-    newReplyRow.created_at
-  ];
-
-  const indexParams = [
-    newReplyRow.comment_id,
-    newReplyRow.created_at,
-    newReplyRow.id,
-    newReplyRow.user_id,
-    newReplyRow.content,
-    newReplyRow.likes,
-    newReplyRow.dislikes
-  ];
-
-  // Execute both inserts
-  await Promise.all([
-    client.execute(insertReplyQuery, params),
-    client.execute(insertReplyIndexQuery, indexParams)
-  ]);
-
-  // Increment reply count for parent comment
-  await increaseReplyCount(newReplyRow.comment_id);
+  await getCommentRepository().insertReply(newReplyRow, parent.videoId);
+  if (!options.held) {
+    await publishReply(mapRowToReply(newReplyRow), parent.videoId);
+  }
 
   return newReplyRow;
 };
 
-// Delete comment (and all its replies)
-export const deleteComment = async (commentId: string): Promise<void> => {
-  const client = await connectToDatabase();
+// Make a reply that just reached its indexing table count: parent reply count, stats and stream
+const publishReply = async (reply: Reply, videoId: string): Promise<void> => {
+  // Increment reply count for whatever the reply answers
+  await adjustParentReplyCount(reply, 1);
+  await updateVideoStats(videoId, { reply_count: 1 }, reply.createdAt);
+  await invalidateCommentPages(videoId);
+  await emitCommentEvent(videoId, 'reply.created', { reply });
+};
 
-  // Get the comment first to get video_id and created_at for indexing table
+// Publish a held comment after review, keeping its original place in the timeline
+export const releaseHeldComment = async (commentId: string): Promise<Comment> => {
   const comment = await getCommentById(commentId);
   if (!comment) {
-    throw new Error(`Comment with id ${commentId} not found`);
+    throw new NotFoundError(`Comment with id ${commentId} not found`);
+  }
+  if (!comment.held) {
+    return comment;
   }
 
-  // Delete all replies for this comment from both tables
-  const replies = await getRepliesByCommentIds([commentId]);
-  for (const reply of replies) {
-    await client.execute('DELETE FROM replies WHERE id = ?', [reply.id]);
-    await client.execute('DELETE FROM replies_by_comment_time WHERE comment_id = ? AND created_at = ? AND id = ?',
-      [reply.commentId, reply.createdAt, reply.id]);
+  const released = { ...comment, held: false };
+  await getCommentRepository().releaseComment(released);
+  await publishComment(released);
+  return released;
+};
+
+// Publish a held reply after review. If what it answers went away meanwhile it is discarded.
+export const releaseHeldReply = async (replyId: string): Promise<Reply> => {
+  const reply = await getReplyById(replyId);
+  if (!reply) {
+    throw new NotFoundError(`Reply with id ${replyId} not found`);
+  }
+  if (!reply.held) {
+    return reply;
   }
 
-  // Delete the comment from both tables
-  await Promise.all([
-    client.execute('DELETE FROM comments WHERE id = ?', [commentId]),
-    client.execute('DELETE FROM comments_by_video_time WHERE video_id = ? AND created_at = ? AND id = ?',
-      [comment.videoId, comment.createdAt, comment.id])
+  const [parent, parentReply] = await Promise.all([
+    getCommentById(reply.commentId),
+    reply.parentId ? getReplyById(reply.parentId) : Promise.resolve(null)
   ]);
+  if (!parent || (reply.parentId && !parentReply)) {
+    await discardHeldReply(replyId);
+    throw new NotFoundError('The comment this reply answers no longer exists');
+  }
+
+  const released = { ...reply, held: false };
+  await getCommentRepository().releaseReply(released);
+  await publishReply(released, parent.videoId);
+  return released;
 };
 
-// Delete reply
-export const deleteReply = async (replyId: string): Promise<void> => {
-  const client = await connectToDatabase();
+// Drop a held comment that was never published
+export const discardHeldComment = async (commentId: string): Promise<void> => {
+  const comment = await getCommentById(commentId);
+  if (!comment) return;
+
+  await getCommentRepository().removeComment(comment);
+};
+
+// Drop a held reply that was never published
+export const discardHeldReply = async (replyId: string): Promise<void> => {
   const reply = await getReplyById(replyId);
-  if (!reply) {
-    throw new Error(`Reply with id ${replyId} not found`);
+  if (!reply) return;
+
+  await getCommentRepository().removeReply(reply);
+};
+
+// Move the reply count of whatever the reply answers; direct replies also feed the comment's score
+const adjustParentReplyCount = async (reply: Reply, delta: 1 | -1): Promise<void> => {
+  if (reply.parentId) {
+    await getCommentRepository().incrementReplyCounters(reply.parentId, { reply_count: delta });
+    return;
+  }
+  if (delta > 0) {
+    await increaseReplyCount(reply.commentId);
+  } else {
+    await decreaseReplyCount(reply.commentId);
+  }
+  await refreshCommentScore(reply.commentId);
+};
+
+// Video a reply belongs to, looked up through its root comment
+const replyVideoId = async (reply: Reply): Promise<string | null> => {
+  const comment = await getCommentById(reply.commentId);
+  return comment ? comment.videoId : null;
+};
+
+// Drop the cached first pages of the video a reply belongs to
+const invalidateReplyPages = async (reply: Reply): Promise<void> => {
+  const videoId = await replyVideoId(reply);
+  if (videoId) {
+    await invalidateCommentPages(videoId);
+  }
+};
+
+const addTombstone = async (itemId: string, itemType: Tombstone['type'], deletedAt: Date): Promise<void> => {
+  await getCommentRepository().addTombstone({ id: itemId, type: itemType, deletedAt });
+};
+
+export const removeTombstone = async (tombstone: Tombstone): Promise<void> => {
+  await getCommentRepository().removeTombstone(tombstone);
+};
+
+// Get tombstones deleted before the cutoff, looking back at most lookbackDays days from it
+export const getTombstonesBefore = async (cutoff: Date, lookbackDays: number): Promise<Tombstone[]> => {
+  return getCommentRepository().getTombstonesBefore(cutoff, lookbackDays);
+};
+
+// Soft delete comment: replies stay in place and the comment renders as a placeholder
+export const deleteComment = async (commentId: string, deletedBy: string): Promise<void> => {
+  // Get the comment first to get video_id and created_at for indexing table
+  const comment = await getCommentById(commentId);
+  if (!comment || comment.deleted) {
+    throw new NotFoundError(`Comment with id ${commentId} not found`);
+  }
+  if (comment.held) {
+    await discardHeldComment(commentId);
+    return;
   }
+
+  const deletedAt = new Date();
+  await getCommentRepository().updateComment(comment, { deleted_at: deletedAt, deleted_by: deletedBy });
   await Promise.all([
-    client.execute('DELETE FROM replies WHERE id = ?', [replyId]),
-    client.execute('DELETE FROM replies_by_comment_time WHERE comment_id = ? AND created_at = ? AND id = ?',
-      [reply.commentId, reply.createdAt, reply.id])
+    addTombstone(commentId, 'comment', deletedAt),
+    unindexComment(comment),
+    updateVideoStats(comment.videoId, { comment_count: -1, likes: -comment.likes, dislikes: -comment.dislikes }, deletedAt)
   ]);
-  await decreaseReplyCount(reply.commentId);
+  await invalidateCommentPages(comment.videoId);
+  await emitCommentEvent(comment.videoId, 'comment.deleted', { id: commentId });
 };
 
-// Helper function to update both tables when modifying likes/dislikes
-const updateCommentInBothTables = async (commentId: string, field: string, newValue: number): Promise<void> => {
-  const client = await connectToDatabase();
+// Soft delete reply
+export const deleteReply = async (replyId: string, deletedBy: string): Promise<void> => {
+  const reply = await getReplyById(replyId);
+  if (!reply || reply.deleted) {
+    throw new NotFoundError(`Reply with id ${replyId} not found`);
+  }
+  if (reply.held) {
+    await discardHeldReply(replyId);
+    return;
+  }
+
+  const deletedAt = new Date();
+  await getCommentRepository().updateReply(reply, { deleted_at: deletedAt, deleted_by: deletedBy });
+  await addTombstone(replyId, 'reply', deletedAt);
+  await adjustParentReplyCount(reply, -1);
+
+  const videoId = await replyVideoId(reply);
+  if (videoId) {
+    await updateVideoStats(videoId, { reply_count: -1, likes: -reply.likes, dislikes: -reply.dislikes }, deletedAt);
+    await invalidateCommentPages(videoId);
+  }
+};
+
+// A soft-deleted item can be restored until its retention window passes or the purge job
+// drops its content, whichever comes first
+const isRestorable = (item: Comment | Reply, now: Date = new Date()): boolean =>
+  item.content != null
+  && !!item.deletedAt
+  && now.getTime() - item.deletedAt.getTime() < tombstoneConfig.retentionDays * 24 * 60 * 60 * 1000;
+
+// Restore a soft-deleted comment
+export const restoreComment = async (commentId: string): Promise<Comment> => {
   const comment = await getCommentById(commentId);
   if (!comment) {
-    throw new Error(`Comment with id ${commentId} not found`);
+    throw new NotFoundError(`Comment with id ${commentId} not found`);
+  }
+  if (!comment.deleted || !comment.deletedAt) {
+    return comment;
+  }
+  if (!isRestorable(comment)) {
+    throw new NotFoundError(`Comment with id ${commentId} was purged and can no longer be restored`);
   }
 
+  await getCommentRepository().updateComment(comment, { deleted_at: null, deleted_by: null });
   await Promise.all([
-    client.execute(`UPDATE comments SET ${field} = ? WHERE id = ?`, [newValue, commentId], {
-      hints: ['counter', 'uuid'],
-      prepare: true
-    }),
-    client.execute(`UPDATE comments_by_video_time SET ${field} = ? WHERE video_id = ? AND created_at = ? AND id = ?`,
-      [newValue, comment.videoId, comment.createdAt, comment.id], {
-      hints: ['counter', 'uuid', 'timestamp', 'uuid'],
-      prepare: true
-    })
+    removeTombstone({ id: commentId, type: 'comment', deletedAt: comment.deletedAt }),
+    indexComment(comment),
+    updateVideoStats(comment.videoId, { comment_count: 1, likes: comment.likes, dislikes: comment.dislikes })
   ]);
+  await invalidateCommentPages(comment.videoId);
+
+  return { ...comment, deleted: false, deletedAt: undefined, deletedBy: undefined };
 };
 
-const updateReplyInBothTables = async (replyId: string, field: string, newValue: number): Promise<void> => {
-  const client = await connectToDatabase();
+// Restore a soft-deleted reply
+export const restoreReply = async (replyId: string): Promise<Reply> => {
   const reply = await getReplyById(replyId);
   if (!reply) {
-    throw new Error(`Reply with id ${replyId} not found`);
+    throw new NotFoundError(`Reply with id ${replyId} not found`);
+  }
+  if (!reply.deleted || !reply.deletedAt) {
+    return reply;
+  }
+  if (!isRestorable(reply)) {
+    throw new NotFoundError(`Reply with id ${replyId} was purged and can no longer be restored`);
   }
 
-  await Promise.all([
-    client.execute(`UPDATE replies SET ${field} = ? WHERE id = ?`, [newValue, replyId], {
-      hints: ['counter', 'uuid'],
-      prepare: true
-    }),
-    client.execute(`UPDATE replies_by_comment_time SET ${field} = ? WHERE comment_id = ? AND created_at = ? AND id = ?`,
-      [newValue, reply.commentId, reply.createdAt, reply.id], {
-      hints: ['counter', 'uuid', 'timestamp', 'uuid'],
-      prepare: true
-    })
-  ]);
-};
+  await getCommentRepository().updateReply(reply, { deleted_at: null, deleted_by: null });
+  await removeTombstone({ id: replyId, type: 'reply', deletedAt: reply.deletedAt });
+  await adjustParentReplyCount(reply, 1);
 
-// Increase reply count for a comment
-export const increaseReplyCount = async (commentId: string): Promise<void> => {
-  const client = await connectToDatabase();
+  const videoId = await replyVideoId(reply);
+  if (videoId) {
+    await updateVideoStats(videoId, { reply_count: 1, likes: reply.likes, dislikes: reply.dislikes });
+    await invalidateCommentPages(videoId);
+  }
 
-  const selectQuery = 'SELECT reply_count FROM comments WHERE id = ?';
-  const result = await client.execute(selectQuery, [commentId]);
+  return { ...reply, deleted: false, deletedAt: undefined, deletedBy: undefined };
+};
 
-  if (!result.rows[0]) {
-    throw new Error(`Comment with id ${commentId} not found`);
+// Hide a comment from viewers other than its author and moderators, or with null show it again
+export const setCommentHidden = async (commentId: string, hiddenBy: string | null): Promise<Comment> => {
+  const comment = await getCommentById(commentId);
+  if (!comment) {
+    throw new NotFoundError(`Comment with id ${commentId} not found`);
   }
 
-  let currentCount = result.rows[0].reply_count.toNumber();
-  currentCount = currentCount + 1; // Increment reply count ++
+  const hiddenAt = hiddenBy ? new Date() : null;
+  await getCommentRepository().updateComment(comment, { hidden_at: hiddenAt, hidden_by: hiddenBy });
+  await invalidateCommentPages(comment.videoId);
 
-  await updateCommentInBothTables(commentId, 'reply_count', currentCount);
+  return { ...comment, hidden: !!hiddenAt, hiddenAt: hiddenAt ?? undefined, hiddenBy: hiddenBy ?? undefined };
 };
 
-// Decrease reply count for a comment
-export const decreaseReplyCount = async (commentId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT reply_count FROM comments WHERE id = ?';
-  const result = await client.execute(selectQuery, [commentId]);
+// Mark a comment pinned or not on its base and indexing rows; which comment a video pins
+// is kept in its settings
+export const setCommentPinned = async (comment: Comment, pinned: boolean): Promise<Comment> => {
+  await getCommentRepository().updateComment(comment, { pinned_at: pinned ? new Date() : null });
+  await invalidateCommentPages(comment.videoId);
+  return { ...comment, pinned };
+};
 
-  if (!result.rows[0]) {
-    throw new Error(`Comment with id ${commentId} not found`);
-  }
+// Add or take back the video owner's heart on a comment
+export const setCommentHearted = async (comment: Comment, hearted: boolean): Promise<Comment> => {
+  await getCommentRepository().updateComment(comment, { hearted_at: hearted ? new Date() : null });
+  await invalidateCommentPages(comment.videoId);
+  return { ...comment, heartedByCreator: hearted };
+};
 
-  let currentCount = result.rows[0].reply_count.toNumber();
-  if (currentCount > 0) {
-    currentCount = currentCount - 1;
-    await updateCommentInBothTables(commentId, 'reply_count', currentCount);
+// Hide a reply from viewers other than its author and moderators, or with null show it again
+export const setReplyHidden = async (replyId: string, hiddenBy: string | null): Promise<Reply> => {
+  const reply = await getReplyById(replyId);
+  if (!reply) {
+    throw new NotFoundError(`Reply with id ${replyId} not found`);
   }
+
+  const hiddenAt = hiddenBy ? new Date() : null;
+  await getCommentRepository().updateReply(reply, { hidden_at: hiddenAt, hidden_by: hiddenBy });
+  await invalidateReplyPages(reply);
+
+  return { ...reply, hidden: !!hiddenAt, hiddenAt: hiddenAt ?? undefined, hiddenBy: hiddenBy ?? undefined };
 };
 
-// Like/Dislike operations for comments
-export const likeIncrementComment = async (commentId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT likes FROM comments WHERE id = ?';
-  const result = await client.execute(selectQuery, [commentId]);
+// Detach a deleted comment kept as a placeholder from its erased author: the rows are
+// credited to DELETED_USER and the comment leaves the author's history
+export const anonymizeComment = async (comment: Comment): Promise<void> => {
+  const deletedBy = comment.deletedBy === comment.userId ? DELETED_USER : comment.deletedBy;
+  await getCommentRepository().updateComment(comment, { user_id: DELETED_USER, deleted_by: deletedBy ?? null });
+  await invalidateCommentPages(comment.videoId);
+};
 
-  if (!result.rows[0]) {
-    throw new Error(`Comment with id ${commentId} not found`);
-  }
+// Detach a deleted reply kept as a placeholder from its erased author
+export const anonymizeReply = async (reply: Reply): Promise<void> => {
+  const deletedBy = reply.deletedBy === reply.userId ? DELETED_USER : reply.deletedBy;
+  await getCommentRepository().updateReply(reply, { user_id: DELETED_USER, deleted_by: deletedBy ?? null });
+  await invalidateReplyPages(reply);
+};
 
-  let likesCount = result.rows[0].likes.toNumber();
-  likesCount = likesCount + 1;
-  await updateCommentInBothTables(commentId, 'likes', likesCount);
+// Whether any reply in these subtrees is still live, in which case their placeholders must stay
+const hasLiveReplies = async (replies: Reply[]): Promise<boolean> => {
+  for (const reply of replies) {
+    if (!reply.deleted) return true;
+    if (reply.depth < threadConfig.maxDepth && await hasLiveReplies(await getChildReplies(reply.id))) return true;
+  }
+  return false;
 };
 
-export const likeDecrementComment = async (commentId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT likes FROM comments WHERE id = ?';
-  const result = await client.execute(selectQuery, [commentId]);
+// Hard delete a soft-deleted comment. If live replies still hang off it anywhere in the
+// thread, only its content is dropped so the thread keeps its placeholder; the row goes
+// once its last reply is purged.
+export const purgeComment = async (commentId: string): Promise<void> => {
+  const repository = getCommentRepository();
+  const comment = await getCommentById(commentId);
+  if (!comment || !comment.deleted) {
+    return;
+  }
 
-  if (!result.rows[0]) {
-    throw new Error(`Comment with id ${commentId} not found`);
+  const replies = await getAllRepliesByCommentId(commentId);
+  if (comment.replyCount > 0 || await hasLiveReplies(replies)) {
+    await repository.updateComment(comment, { content: null });
+    await repository.deleteRevisions(commentId);
+    await invalidateCommentPages(comment.videoId);
+    return;
   }
 
-  let likesCount = result.rows[0].likes.toNumber();
-  if (likesCount > 0) {
-    likesCount = likesCount - 1;
-    await updateCommentInBothTables(commentId, 'likes', likesCount);
+  // Only soft-deleted replies are left at this point
+  for (const reply of replies) {
+    await hardDeleteReplyTree(reply);
   }
+
+  await repository.removeComment(comment);
+  await removeCommentScore(commentId);
+  await invalidateCommentPages(comment.videoId);
 };
 
-export const dislikeIncrementComment = async (commentId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT dislikes FROM comments WHERE id = ?';
-  const result = await client.execute(selectQuery, [commentId]);
+// Hard delete a soft-deleted reply, then whatever it answers if that was waiting on it.
+// A reply with live replies below it keeps its placeholder row like a comment does.
+export const purgeReply = async (replyId: string): Promise<void> => {
+  const repository = getCommentRepository();
+  const reply = await getReplyById(replyId);
+  if (!reply || !reply.deleted) {
+    return;
+  }
 
-  if (!result.rows[0]) {
-    throw new Error(`Comment with id ${commentId} not found`);
+  const children = reply.depth < threadConfig.maxDepth ? await getChildReplies(reply.id) : [];
+  if (await hasLiveReplies(children)) {
+    await repository.updateReply(reply, { content: null });
+    await repository.deleteRevisions(replyId);
+    await invalidateReplyPages(reply);
+    return;
   }
 
-  let dislikesCount = result.rows[0].dislikes.toNumber();
-  dislikesCount = dislikesCount + 1;
+  for (const child of children) {
+    await hardDeleteReplyTree(child);
+  }
+  await hardDeleteReply(reply);
+  await invalidateReplyPages(reply);
+
+  const cutoff = new Date(Date.now() - tombstoneConfig.retentionDays * 24 * 60 * 60 * 1000);
+  if (reply.parentId) {
+    const parentReply = await getReplyById(reply.parentId);
+    if (parentReply && parentReply.deleted && parentReply.deletedAt && parentReply.deletedAt < cutoff) {
+      await purgeReply(parentReply.id);
+    }
+    return;
+  }
 
-  await updateCommentInBothTables(commentId, 'dislikes', dislikesCount);
+  const parent = await getCommentById(reply.commentId);
+  if (parent && parent.deleted && parent.replyCount === 0 && parent.deletedAt && parent.deletedAt < cutoff) {
+    await purgeComment(parent.id);
+  }
 };
 
-export const dislikeDecrementComment = async (commentId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT dislikes FROM comments WHERE id = ?';
-  const result = await client.execute(selectQuery, [commentId]);
-
-  if (!result.rows[0]) {
-    throw new Error(`Comment with id ${commentId} not found`);
+// Hard delete a reply and every reply below it
+const hardDeleteReplyTree = async (reply: Reply): Promise<void> => {
+  const children = reply.depth < threadConfig.maxDepth ? await getChildReplies(reply.id) : [];
+  for (const child of children) {
+    await hardDeleteReplyTree(child);
   }
+  await hardDeleteReply(reply);
+};
 
-  let dislikesCount = result.rows[0].dislikes.toNumber();
-  if (dislikesCount > 0) {
-    dislikesCount = dislikesCount - 1;
-    await updateCommentInBothTables(commentId, 'dislikes', dislikesCount);
-  }
+// Remove every row of a single reply; children are left to the caller
+export const hardDeleteReply = async (reply: Reply): Promise<void> => {
+  await getCommentRepository().removeReply(reply);
 };
 
-// Like/Dislike operations for replies
-export const likeIncrementReply = async (replyId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT likes FROM replies WHERE id = ?';
-  const result = await client.execute(selectQuery, [replyId]);
+// Record the content being replaced so edits can be listed later
+const recordRevision = async (
+  itemId: string,
+  itemType: EditRevision['type'],
+  previousContent: string,
+  editedAt: Date
+): Promise<void> => {
+  await getCommentRepository().addRevision({ id: itemId, type: itemType, content: previousContent, editedAt });
+};
 
-  if (!result.rows[0]) {
-    throw new Error(`Reply with id ${replyId} not found`);
+// Edit comment content in both tables, keeping the prior version in edit_history
+export const updateCommentContent = async (commentId: string, content: string): Promise<Comment> => {
+  const comment = await getCommentById(commentId);
+  if (!comment || comment.deleted) {
+    throw new NotFoundError(`Comment with id ${commentId} not found`);
+  }
+  if (comment.held) {
+    throw new ApiError(409, 'CONFLICT', 'Comment is held for review and cannot be edited');
+  }
+  if (comment.content === content) {
+    return comment;
   }
 
-  let likesCount = result.rows[0].likes.toNumber();
-  likesCount = likesCount + 1;
+  const editedAt = new Date();
+  await recordRevision(commentId, 'comment', comment.content, editedAt);
 
-  await updateReplyInBothTables(replyId, 'likes', likesCount);
-};
+  await getCommentRepository().updateComment(comment, { content, edited_at: editedAt });
+  await reindexComment({ ...comment, content }, comment.content);
+  await invalidateCommentPages(comment.videoId);
 
-export const likeDecrementReply = async (replyId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT likes FROM replies WHERE id = ?';
-  const result = await client.execute(selectQuery, [replyId]);
+  return { ...comment, content, edited: true, editedAt };
+};
 
-  if (!result.rows[0]) {
-    throw new Error(`Reply with id ${replyId} not found`);
+// Edit reply content in both tables, keeping the prior version in edit_history
+export const updateReplyContent = async (replyId: string, content: string): Promise<Reply> => {
+  const reply = await getReplyById(replyId);
+  if (!reply || reply.deleted) {
+    throw new NotFoundError(`Reply with id ${replyId} not found`);
   }
-
-  let likesCount = result.rows[0].likes.toNumber();
-  if (likesCount > 0) {
-    likesCount = likesCount - 1;
-    await updateReplyInBothTables(replyId, 'likes', likesCount);
+  if (reply.held) {
+    throw new ApiError(409, 'CONFLICT', 'Reply is held for review and cannot be edited');
+  }
+  if (reply.content === content) {
+    return reply;
   }
+
+  const editedAt = new Date();
+  await recordRevision(replyId, 'reply', reply.content, editedAt);
+
+  await getCommentRepository().updateReply(reply, { content, edited_at: editedAt });
+  await invalidateReplyPages(reply);
+
+  return { ...reply, content, edited: true, editedAt };
 };
 
-export const dislikeIncrementReply = async (replyId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT dislikes FROM replies WHERE id = ?';
-  const result = await client.execute(selectQuery, [replyId]);
+// Get prior versions of a comment or reply, newest edit first
+export const getEditHistory = async (itemId: string): Promise<EditRevision[]> => {
+  return getCommentRepository().getRevisions(itemId);
+};
 
-  if (!result.rows[0]) {
-    throw new Error(`Reply with id ${replyId} not found`);
+// Increase reply count for a comment
+export const increaseReplyCount = async (commentId: string): Promise<void> => {
+  await getCommentRepository().incrementCommentCounters(commentId, { reply_count: 1 });
+};
+
+// Decrease reply count for a comment
+export const decreaseReplyCount = async (commentId: string): Promise<void> => {
+  await getCommentRepository().incrementCommentCounters(commentId, { reply_count: -1 });
+};
+
+// Count deltas for moving a user from one reaction to another
+const reactionDeltas = (previous: ReactionType, next: ReactionType): { likes: number; dislikes: number } => ({
+  likes: (next === 'like' ? 1 : 0) - (previous === 'like' ? 1 : 0),
+  dislikes: (next === 'dislike' ? 1 : 0) - (previous === 'dislike' ? 1 : 0)
+});
+
+// Set a user's reaction on a comment and move the aggregate likes/dislikes to match
+export const setCommentReaction = async (
+  commentId: string,
+  userId: string,
+  reaction: ReactionType
+): Promise<ReactionResult> => {
+  const repository = getCommentRepository();
+  const comment = await getCommentById(commentId);
+  if (!comment || comment.deleted || comment.held) {
+    throw new NotFoundError(`Comment with id ${commentId} not found`);
+  }
+
+  const previousReaction = await repository.swapReaction('comment', commentId, userId, reaction);
+  const deltas = reactionDeltas(previousReaction, reaction);
+  if (previousReaction !== reaction) {
+    await repository.trackUserReaction(userId, 'comment', commentId, reaction);
   }
+  await Promise.all([
+    repository.incrementCommentCounters(commentId, deltas),
+    previousReaction !== reaction ? updateVideoStats(comment.videoId, deltas) : Promise.resolve()
+  ]);
 
-  let dislikesCount = result.rows[0].dislikes.toNumber();
-  dislikesCount = dislikesCount + 1;
+  const updated = await getCommentById(commentId);
+  const { likes, dislikes } = updated ?? comment;
+  if (updated && previousReaction !== reaction) {
+    await upsertCommentScore(updated);
+    await invalidateCommentPages(comment.videoId);
+    await emitCommentEvent(comment.videoId, 'comment.reactions', { id: commentId, likes, dislikes });
+  }
 
-  await updateReplyInBothTables(replyId, 'dislikes', dislikesCount);
+  return { id: commentId, userId, reaction, previousReaction, likes, dislikes };
 };
 
-export const dislikeDecrementReply = async (replyId: string): Promise<void> => {
-  const client = await connectToDatabase();
-  const selectQuery = 'SELECT dislikes FROM replies WHERE id = ?';
-  const result = await client.execute(selectQuery, [replyId]);
+// Take a user's reaction off an item for good: counters are moved back while the item is
+// live, then the reaction rows are deleted rather than left as 'none'
+export const removeUserReaction = async (userId: string, itemType: 'comment' | 'reply', itemId: string): Promise<void> => {
+  try {
+    if (itemType === 'comment') {
+      await setCommentReaction(itemId, userId, 'none');
+    } else {
+      await setReplyReaction(itemId, userId, 'none');
+    }
+  } catch (error) {
+    // Deleted or held items no longer count reactions
+    if (!(error instanceof NotFoundError)) throw error;
+  }
+
+  await getCommentRepository().removeReaction(itemType, itemId, userId);
+};
 
-  if (!result.rows[0]) {
-    throw new Error(`Reply with id ${replyId} not found`);
+// Set a user's reaction on a reply and move the aggregate likes/dislikes to match
+export const setReplyReaction = async (
+  replyId: string,
+  userId: string,
+  reaction: ReactionType
+): Promise<ReactionResult> => {
+  const repository = getCommentRepository();
+  const reply = await getReplyById(replyId);
+  if (!reply || reply.deleted || reply.held) {
+    throw new NotFoundError(`Reply with id ${replyId} not found`);
   }
 
-  let dislikesCount = result.rows[0].dislikes.toNumber();
-  if (dislikesCount > 0) {
-    dislikesCount = dislikesCount - 1;
-    await updateReplyInBothTables(replyId, 'dislikes', dislikesCount);
+  const previousReaction = await repository.swapReaction('reply', replyId, userId, reaction);
+  const deltas = reactionDeltas(previousReaction, reaction);
+  if (previousReaction !== reaction) {
+    await repository.trackUserReaction(userId, 'reply', replyId, reaction);
+  }
+  await repository.incrementReplyCounters(replyId, deltas);
+
+  const updated = await getReplyById(replyId);
+  const { likes, dislikes } = updated ?? reply;
+  if (previousReaction !== reaction) {
+    const parent = await getCommentById(reply.commentId);
+    if (parent) {
+      await updateVideoStats(parent.videoId, deltas);
+      await invalidateCommentPages(parent.videoId);
+      await emitCommentEvent(parent.videoId, 'reply.reactions', { id: replyId, commentId: reply.commentId, likes, dislikes });
+    }
   }
-}
+
+  return { id: replyId, userId, reaction, previousReaction, likes, dislikes };
+};
@@ -0,0 +1,281 @@
+import { types } from 'cassandra-driver';
+import { connectToDatabase } from '../config/database';
+import { repairConfig } from '../config/repair';
+import { threadConfig } from '../config/threads';
+import {
+  getCommentsByIds,
+  getRepliesByIds,
+  getReplyById,
+  hardDeleteReply,
+  refreshCommentScore
+} from './commentsService';
+import { getCommentRepository } from '../repositories';
+import { ConsistencyReport, Divergence } from '../models/consistency';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * Reconciling a video's base tables with its indexing tables.
+ *
+ * Dual writes go out as logged batches now, but rows written before that (or edited by
+ * hand) can still disagree. The base rows in comments and replies are the source of truth:
+ * missing or stale indexing rows are rewritten from them, indexing rows with no base row
+ * are deleted, and replies whose comment or parent reply is gone are hard deleted. Reply
+ * counts are checked against the live replies underneath and moved with a counter delta.
+ */
+
+// Columns the indexing tables copy from the base rows
+const COMMENT_INDEX_COLUMNS = [
+  'user_id', 'content', 'likes', 'dislikes', 'reply_count', 'edited_at',
+  'deleted_at', 'deleted_by', 'hidden_at', 'hidden_by', 'pinned_at', 'hearted_at'
+];
+const REPLY_INDEX_COLUMNS = [
+  'user_id', 'content', 'likes', 'dislikes', 'edited_at', 'deleted_at', 'deleted_by', 'hidden_at', 'hidden_by'
+];
+const PARENT_INDEX_COLUMNS = [...REPLY_INDEX_COLUMNS, 'comment_id', 'depth', 'path'];
+
+// Partition-key IN lists are kept under Scylla's default limit
+const MAX_IN_KEYS = 100;
+
+// Indexing row a base row belongs in
+interface IndexLocation {
+  table: string;
+  keyColumn: string;
+  key: unknown;
+  columns: string[];
+}
+
+type RecordDivergence = (divergence: Omit<Divergence, 'fixed'>, fix: () => Promise<void>) => Promise<void>;
+
+// Comparable form of a column value: Longs, Uuids and Dates from the driver become strings
+const normalize = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+const differingColumns = (base: types.Row, index: types.Row, columns: string[]): string[] =>
+  columns.filter(column => normalize(base[column]) !== normalize(index[column]));
+
+// Read every row a query returns, a page at a time
+const scanRows = async (query: string, params: unknown[]): Promise<types.Row[]> => {
+  const client = await connectToDatabase();
+  const rows: types.Row[] = [];
+  let pageState: string | undefined;
+
+  do {
+    const result = await client.execute(query, params, {
+      prepare: true,
+      fetchSize: repairConfig.pageSize,
+      ...(pageState ? { pageState } : {})
+    });
+    rows.push(...result.rows);
+    pageState = result.pageState ?? undefined;
+  } while (pageState);
+
+  return rows;
+};
+
+// Direct replies are indexed under their comment, deeper ones under the reply they answer
+const replyLocation = (row: types.Row): IndexLocation => row.parent_id
+  ? { table: 'replies_by_parent_time', keyColumn: 'parent_id', key: row.parent_id, columns: PARENT_INDEX_COLUMNS }
+  : { table: 'replies_by_comment_time', keyColumn: 'comment_id', key: row.comment_id, columns: REPLY_INDEX_COLUMNS };
+
+// Overwrite an indexing row with the values of its base row
+const copyToIndex = async (location: IndexLocation, base: types.Row): Promise<void> => {
+  const client = await connectToDatabase();
+  const columns = [location.keyColumn, 'created_at', 'id', ...location.columns];
+  await client.execute(
+    `INSERT INTO ${location.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    [location.key, base.created_at, base.id, ...location.columns.map(column => base[column] ?? null)],
+    { prepare: true }
+  );
+};
+
+const deleteIndexRow = async (location: IndexLocation, index: types.Row): Promise<void> => {
+  const client = await connectToDatabase();
+  await client.execute(
+    `DELETE FROM ${location.table} WHERE ${location.keyColumn} = ? AND created_at = ? AND id = ?`,
+    [location.key, index.created_at, index.id],
+    { prepare: true }
+  );
+};
+
+// Compare one base row with the indexing row it should have
+const checkIndexRow = async (
+  itemType: Divergence['itemType'],
+  base: types.Row,
+  index: types.Row | undefined,
+  location: IndexLocation,
+  record: RecordDivergence
+): Promise<void> => {
+  const id = base.id.toString();
+
+  if (base.held_at) {
+    if (index) {
+      await record({ kind: 'orphan_index_row', itemType, id, table: location.table, detail: `held ${itemType} is indexed` },
+        () => deleteIndexRow(location, index));
+    }
+    return;
+  }
+
+  if (!index) {
+    await record({ kind: 'missing_index_row', itemType, id, table: location.table, detail: 'no indexing row' },
+      () => copyToIndex(location, base));
+    return;
+  }
+
+  const columns = differingColumns(base, index, location.columns);
+  if (columns.length > 0) {
+    await record({ kind: 'mismatched_row', itemType, id, table: location.table, detail: `differs in ${columns.join(', ')}` },
+      () => copyToIndex(location, base));
+  }
+};
+
+// Replies whose comment is gone, or whose parent reply is gone or itself orphaned
+const findOrphanReplies = (replyRows: types.Row[], commentExists: boolean): Set<string> => {
+  const replyIds = new Set(replyRows.map(row => row.id.toString()));
+  const orphans = new Set<string>();
+  let changed = true;
+
+  while (changed) {
+    changed = false;
+    for (const row of replyRows) {
+      const id = row.id.toString();
+      if (orphans.has(id)) continue;
+      const parentId = row.parent_id?.toString();
+      if (!commentExists || (parentId && (!replyIds.has(parentId) || orphans.has(parentId)))) {
+        orphans.add(id);
+        changed = true;
+      }
+    }
+  }
+
+  return orphans;
+};
+
+// Live (not deleted, not held) replies directly under each parent; '' stands for the comment
+const countLiveChildren = (replyRows: types.Row[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  replyRows
+    .filter(row => !row.deleted_at && !row.held_at)
+    .forEach(row => {
+      const parentId = row.parent_id?.toString() ?? '';
+      counts.set(parentId, (counts.get(parentId) ?? 0) + 1);
+    });
+  return counts;
+};
+
+// Check every reply in one comment's thread, plus the reply counts along it
+const checkThread = async (commentId: string, comment: types.Row | undefined, report: ConsistencyReport, record: RecordDivergence): Promise<void> => {
+  const replyRows = await scanRows('SELECT * FROM replies WHERE comment_id = ?', [commentId]);
+  report.repliesChecked += replyRows.length;
+
+  const orphans = findOrphanReplies(replyRows, !!comment);
+  for (const row of replyRows.filter(row => orphans.has(row.id.toString()))) {
+    const detail = comment ? `parent reply ${row.parent_id} is gone` : `comment ${commentId} is gone`;
+    await record({ kind: 'orphan_reply', itemType: 'reply', id: row.id.toString(), table: 'replies', detail }, async () => {
+      const reply = await getReplyById(row.id.toString());
+      if (reply) await hardDeleteReply(reply);
+    });
+  }
+  const threadRows = replyRows.filter(row => !orphans.has(row.id.toString()));
+
+  // Every indexing row the thread has: direct replies under the comment, deeper ones under each reply
+  const indexRows = [
+    ...(await scanRows('SELECT * FROM replies_by_comment_time WHERE comment_id = ?', [commentId]))
+      .map(row => ({ row, table: 'replies_by_comment_time' })),
+    ...(await mapWithConcurrency(threadRows, threadConfig.replyFetchConcurrency, parent =>
+      scanRows('SELECT * FROM replies_by_parent_time WHERE parent_id = ?', [parent.id])))
+      .flat()
+      .map(row => ({ row, table: 'replies_by_parent_time' }))
+  ];
+  const indexByLocation = new Map(indexRows.map(({ row, table }) => [`${table}:${row.id}`, row]));
+
+  const expected = new Set<string>();
+  for (const base of threadRows) {
+    const location = replyLocation(base);
+    const key = `${location.table}:${base.id}`;
+    expected.add(key);
+    await checkIndexRow('reply', base, indexByLocation.get(key), location, record);
+  }
+
+  for (const { row, table } of indexRows) {
+    const id = row.id.toString();
+    if (expected.has(`${table}:${row.id}`) || orphans.has(id)) continue;
+    const location: IndexLocation = table === 'replies_by_comment_time'
+      ? { table, keyColumn: 'comment_id', key: row.comment_id, columns: REPLY_INDEX_COLUMNS }
+      : { table, keyColumn: 'parent_id', key: row.parent_id, columns: PARENT_INDEX_COLUMNS };
+    await record({ kind: 'orphan_index_row', itemType: 'reply', id, table, detail: 'no base row at this position' },
+      () => deleteIndexRow(location, row));
+  }
+
+  if (!comment || comment.held_at) return;
+  const liveChildren = countLiveChildren(threadRows);
+
+  // The comment's count is its snapshot plus counter delta, as every read path sees it
+  const [current] = await getCommentsByIds([commentId]);
+  const commentExpected = liveChildren.get('') ?? 0;
+  if (current && current.replyCount !== commentExpected) {
+    const delta = commentExpected - current.replyCount;
+    await record({
+      kind: 'mismatched_reply_count', itemType: 'comment', id: commentId, table: 'comment_counters',
+      detail: `reply count is ${current.replyCount}, ${commentExpected} live replies`
+    }, async () => {
+      await getCommentRepository().incrementCommentCounters(commentId, { reply_count: delta });
+      await refreshCommentScore(commentId);
+    });
+  }
+
+  // Reply counts live only in reply_counters
+  const threadIds = threadRows.map(row => row.id.toString());
+  for (let start = 0; start < threadIds.length; start += MAX_IN_KEYS) {
+    const replies = await getRepliesByIds(threadIds.slice(start, start + MAX_IN_KEYS));
+    for (const reply of replies) {
+      const replyExpected = liveChildren.get(reply.id.toString()) ?? 0;
+      if (reply.replyCount === replyExpected) continue;
+      const delta = replyExpected - reply.replyCount;
+      await record({
+        kind: 'mismatched_reply_count', itemType: 'reply', id: reply.id.toString(), table: 'reply_counters',
+        detail: `reply count is ${reply.replyCount}, ${replyExpected} live replies`
+      }, () => getCommentRepository().incrementReplyCounters(reply.id, { reply_count: delta }));
+    }
+  }
+};
+
+// Compare a video's comments, replies and their indexing rows; with fix, repair what differs
+export const checkVideoConsistency = async (videoId: string, options: { fix: boolean }): Promise<ConsistencyReport> => {
+  const report: ConsistencyReport = { videoId, commentsChecked: 0, repliesChecked: 0, divergences: [] };
+  const record: RecordDivergence = async (divergence, fix) => {
+    if (options.fix) {
+      await fix();
+    }
+    report.divergences.push({ ...divergence, fixed: options.fix });
+  };
+
+  const [baseRows, indexRows] = await Promise.all([
+    scanRows('SELECT * FROM comments WHERE video_id = ?', [videoId]),
+    scanRows('SELECT * FROM comments_by_video_time WHERE video_id = ?', [videoId])
+  ]);
+  const baseById = new Map(baseRows.map(row => [row.id.toString(), row]));
+  const indexById = new Map(indexRows.map(row => [row.id.toString(), row]));
+  const location: IndexLocation = { table: 'comments_by_video_time', keyColumn: 'video_id', key: videoId, columns: COMMENT_INDEX_COLUMNS };
+
+  for (const base of baseRows) {
+    report.commentsChecked++;
+    await checkIndexRow('comment', base, indexById.get(base.id.toString()), location, record);
+  }
+
+  for (const index of indexRows) {
+    const id = index.id.toString();
+    if (baseById.has(id)) continue;
+    await record({ kind: 'orphan_index_row', itemType: 'comment', id, table: location.table, detail: 'no base row' },
+      () => deleteIndexRow(location, index));
+  }
+
+  // Threads under every comment either table knows about, so replies of a vanished comment are found
+  for (const commentId of new Set([...baseById.keys(), ...indexById.keys()])) {
+    await checkThread(commentId, baseById.get(commentId), report, record);
+  }
+
+  return report;
+};
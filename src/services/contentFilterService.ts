@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import { contentFilterConfig } from '../config/contentFilter';
+import { ContentCandidate, ScreeningResult } from '../models/contentFilter';
+import { registerContentFilter, runContentFilters, normalizeWords } from '../utils/contentFilters';
+import { getCommentRepository } from '../repositories';
+
+/**
+ * Pre-publish screening for new comments and replies, plus the filters that need stored content
+ */
+
+// Same text after normalization hashes the same, so trivial variations still count as repeats.
+// Content with no letters or digits left (only emoji or symbols) has no hash, since every such
+// post would otherwise collide
+const contentHash = (content: string): string | null => {
+  const normalized = normalizeWords(content).join(' ');
+  return normalized ? createHash('sha256').update(normalized).digest('hex') : null;
+};
+
+// Whether the user posted the same content on this video within the duplicate window
+export const isDuplicateContent = async (candidate: ContentCandidate): Promise<boolean> => {
+  const hash = contentHash(candidate.content);
+  if (!hash) return false;
+
+  return getCommentRepository().hasRecentContent(candidate.userId, candidate.videoId, hash);
+};
+
+// Remember accepted content for the duplicate window
+export const recordContent = async (candidate: ContentCandidate): Promise<void> => {
+  const hash = contentHash(candidate.content);
+  if (contentFilterConfig.duplicateWindowMinutes <= 0 || !hash) return;
+
+  await getCommentRepository().recordRecentContent(
+    candidate.userId,
+    candidate.videoId,
+    hash,
+    contentFilterConfig.duplicateWindowMinutes * 60
+  );
+};
+
+registerContentFilter({
+  name: 'duplicate',
+  check: async candidate => {
+    if (contentFilterConfig.duplicateWindowMinutes <= 0 || !(await isDuplicateContent(candidate))) {
+      return null;
+    }
+    return { filter: 'duplicate', verdict: 'reject', message: 'You already posted this on this video' };
+  }
+});
+
+// Screen new content through every registered filter, including the duplicate check above
+export const screenContent = async (candidate: ContentCandidate): Promise<ScreeningResult> => {
+  return runContentFilters(candidate);
+};
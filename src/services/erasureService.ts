@@ -0,0 +1,176 @@
+import { erasureConfig } from '../config/erasure';
+import {
+  getCommentById,
+  getReplyById,
+  deleteComment,
+  deleteReply,
+  purgeComment,
+  purgeReply,
+  anonymizeComment,
+  anonymizeReply,
+  removeUserReaction
+} from './commentsService';
+import { getUserContentRefs, getUserReactions, deleteUserContentRef } from './userContentService';
+import { getCommentRepository } from '../repositories';
+import { DELETED_USER } from '../models/comments';
+import { UserContentRef, UserErasure } from '../models/users';
+
+/**
+ * Erasing everything an account wrote: comments, replies and reactions.
+ *
+ * Each item is soft deleted and purged straight away, which hard deletes it unless others
+ * replied; those stay as a [deleted] placeholder credited to DELETED_USER so the thread
+ * survives. Every processed item leaves the user's history tables, so a run always starts
+ * again from the head of those tables, and an interrupted one resumes where it stopped.
+ * Progress is checkpointed after every batch with a compare-and-set on updated_at, which
+ * is also how a single worker keeps hold of the job.
+ */
+
+type ErasureOutcome = 'deleted' | 'anonymized';
+
+// Get the latest erasure of an account
+export const getUserErasure = async (userId: string): Promise<UserErasure | null> => {
+  return getCommentRepository().getUserErasure(userId);
+};
+
+// A running erasure whose worker stopped checkpointing
+export const isStaleErasure = (erasure: UserErasure, now: Date = new Date()): boolean =>
+  erasure.status === 'running' && now.getTime() - erasure.updatedAt.getTime() > erasureConfig.staleSeconds * 1000;
+
+// Write the job's state if nobody else has since it was read; null when another worker got there first
+const saveErasure = async (next: UserErasure, expectedUpdatedAt: Date | null): Promise<UserErasure | null> => {
+  return (await getCommentRepository().saveUserErasure(next, expectedUpdatedAt)) ? next : null;
+};
+
+// Checkpoint progress under the claim this worker holds
+const checkpoint = (erasure: UserErasure, changes: Partial<UserErasure>): Promise<UserErasure | null> =>
+  saveErasure({ ...erasure, ...changes, updatedAt: new Date() }, erasure.updatedAt);
+
+// Erase one comment, returning whether it is gone or kept as an anonymous placeholder
+const eraseComment = async (userId: string, ref: UserContentRef): Promise<ErasureOutcome> => {
+  let outcome: ErasureOutcome = 'deleted';
+  const comment = await getCommentById(ref.id);
+
+  if (comment && comment.userId === userId) {
+    if (!comment.deleted) {
+      await deleteComment(comment.id, DELETED_USER);
+    }
+    await purgeComment(comment.id);
+
+    const placeholder = await getCommentById(comment.id);
+    if (placeholder) {
+      await anonymizeComment(placeholder);
+      outcome = 'anonymized';
+    }
+  }
+
+  // Also covers rows whose item was already gone
+  await deleteUserContentRef(userId, ref);
+  return outcome;
+};
+
+// Erase one reply the same way
+const eraseReply = async (userId: string, ref: UserContentRef): Promise<ErasureOutcome> => {
+  let outcome: ErasureOutcome = 'deleted';
+  const reply = await getReplyById(ref.id);
+
+  if (reply && reply.userId === userId) {
+    if (!reply.deleted) {
+      await deleteReply(reply.id, DELETED_USER);
+    }
+    await purgeReply(reply.id);
+
+    const placeholder = await getReplyById(reply.id);
+    if (placeholder) {
+      await anonymizeReply(placeholder);
+      outcome = 'anonymized';
+    }
+  }
+
+  await deleteUserContentRef(userId, ref);
+  return outcome;
+};
+
+// Work through the account in batches until nothing is left or the claim is lost.
+// History is read newest first, so replies go before the comments and replies they answer.
+const runUserErasure = async (claimed: UserErasure): Promise<void> => {
+  const { userId } = claimed;
+  let erasure: UserErasure | null = claimed;
+
+  try {
+    while (erasure) {
+      const refs = await getUserContentRefs(userId, erasureConfig.batchSize);
+      if (refs.length === 0) break;
+
+      let deleted = 0;
+      let anonymized = 0;
+      for (const ref of refs) {
+        const outcome = ref.type === 'comment' ? await eraseComment(userId, ref) : await eraseReply(userId, ref);
+        if (outcome === 'deleted') deleted++;
+        else anonymized++;
+      }
+      erasure = await checkpoint(erasure, {
+        itemsDeleted: erasure.itemsDeleted + deleted,
+        itemsAnonymized: erasure.itemsAnonymized + anonymized
+      });
+    }
+
+    while (erasure) {
+      const reactions = await getUserReactions(userId, erasureConfig.batchSize);
+      if (reactions.length === 0) break;
+
+      for (const reaction of reactions) {
+        await removeUserReaction(userId, reaction.itemType, reaction.itemId);
+      }
+      erasure = await checkpoint(erasure, { reactionsRemoved: erasure.reactionsRemoved + reactions.length });
+    }
+
+    if (erasure) {
+      await checkpoint(erasure, { status: 'completed', completedAt: new Date() });
+      console.log(`Erased content of user ${userId}`);
+    }
+  } catch (error) {
+    console.error(`Erasure of user ${userId} failed:`, error);
+    if (erasure) {
+      await checkpoint(erasure, { status: 'failed', lastError: error instanceof Error ? error.message : String(error) })
+        .catch(saveError => console.error(`Could not record failed erasure of user ${userId}:`, saveError));
+    }
+  }
+};
+
+// Claim the account's erasure for this worker and run it in the background. A failed or
+// stalled run is resumed with its counts, a completed one starts over for content written
+// since; one that is running elsewhere is only reported.
+export const startUserErasure = async (userId: string, requestedBy: string): Promise<UserErasure> => {
+  const existing = await getUserErasure(userId);
+  if (existing && existing.status === 'running' && !isStaleErasure(existing)) {
+    return existing;
+  }
+
+  const now = new Date();
+  const restart = !existing || existing.status === 'completed';
+  const claimed = await saveErasure({
+    userId,
+    status: 'running',
+    requestedBy,
+    startedAt: restart ? now : (existing as UserErasure).startedAt,
+    updatedAt: now,
+    completedAt: undefined,
+    itemsDeleted: restart ? 0 : (existing as UserErasure).itemsDeleted,
+    itemsAnonymized: restart ? 0 : (existing as UserErasure).itemsAnonymized,
+    reactionsRemoved: restart ? 0 : (existing as UserErasure).reactionsRemoved,
+    lastError: undefined
+  }, existing ? existing.updatedAt : null);
+
+  if (!claimed) {
+    return (await getUserErasure(userId)) as UserErasure;
+  }
+
+  void runUserErasure(claimed);
+  return claimed;
+};
+
+// Ids of accounts with an erasure on record, one page at a time
+export const getErasureUserIds = async (pageSize: number, pageState?: string): Promise<{ userIds: string[]; pageState?: string | undefined }> => {
+  return getCommentRepository().getErasureUserIds(pageSize, pageState);
+};
@@ -0,0 +1,145 @@
+import { streamConfig } from '../config/stream';
+import { CommentEvent, CommentEventType } from '../models/events';
+import { Comment, CursorInfo, Reply } from '../models/comments';
+import { PubSub, InMemoryPubSub, Unsubscribe } from '../realtime/pubSub';
+import { cursorContext, encodeCursor } from '../utils/cursors';
+import { getCommentRepository } from '../repositories';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Comment events for the real-time streams.
+ *
+ * Every event is appended to the event log (kept for STREAM_EVENT_RETENTION_SECONDS) and
+ * then published on the video's topic. Live subscribers get it from the pub/sub; clients
+ * reconnecting with a cursor replay what they missed from the log.
+ *
+ * The log never holds content or authors: created events are logged with the item's id and
+ * the item is loaded again on replay, so deleted, hidden and erased items are not replayed.
+ */
+
+let pubSub: PubSub<CommentEvent> = new InMemoryPubSub<CommentEvent>();
+
+// Swap the in-process pub/sub for a broker-backed one
+export const setCommentEventPubSub = (implementation: PubSub<CommentEvent>): void => {
+  pubSub = implementation;
+};
+
+const videoTopic = (videoId: string): string => `comments:${videoId}`;
+
+// Position of an event in its video's stream, in the same format as chronological cursors
+export const eventCursor = (event: CommentEvent): string =>
+  encodeCursor(event.occurredAt, event.id, cursorContext('events', event.videoId));
+
+// Events that carry a whole comment or reply, under this key of their data
+const ITEM_EVENTS: Partial<Record<CommentEventType, 'comment' | 'reply'>> = {
+  'comment.created': 'comment',
+  'reply.created': 'reply'
+};
+
+// Id of the item a logged created event points at. Rows logged before items were stored by
+// id carry the whole item.
+const loggedItemId = (event: CommentEvent, key: 'comment' | 'reply'): string =>
+  String(event.data.id ?? (event.data[key] as { id?: unknown } | undefined)?.id);
+
+// The event as it is written to the log
+const toLoggedEvent = (event: CommentEvent): CommentEvent => {
+  const key = ITEM_EVENTS[event.type];
+  return key ? { ...event, data: { id: (event.data[key] as Comment | Reply).id } } : event;
+};
+
+// Load the items of logged created events again, dropping the ones no longer shown publicly
+const loadLoggedItems = async (events: CommentEvent[]): Promise<CommentEvent[]> => {
+  const idsOf = (key: 'comment' | 'reply'): string[] =>
+    events.filter(event => ITEM_EVENTS[event.type] === key).map(event => loggedItemId(event, key));
+
+  const repository = getCommentRepository();
+  const [comments, replies] = await Promise.all([
+    repository.getCommentsByIds(idsOf('comment')),
+    repository.getRepliesByIds(idsOf('reply'))
+  ]);
+  const items = new Map<string, Comment | Reply>([...comments, ...replies].map(item => [item.id.toString(), item]));
+
+  return events.flatMap(event => {
+    const key = ITEM_EVENTS[event.type];
+    if (!key) return [event];
+
+    const item = items.get(loggedItemId(event, key));
+    return item && !item.deleted && !item.hidden && !item.held ? [{ ...event, data: { [key]: item } }] : [];
+  });
+};
+
+// Record and publish an event. Failures are logged rather than thrown, so a stream outage
+// never fails the write that produced the event.
+export const emitCommentEvent = async (
+  videoId: string,
+  type: CommentEventType,
+  data: Record<string, unknown>
+): Promise<void> => {
+  const event: CommentEvent = { id: uuidv4(), type, videoId, occurredAt: new Date(), data };
+
+  try {
+    await getCommentRepository().appendCommentEvent(toLoggedEvent(event), streamConfig.eventRetentionSeconds);
+    await pubSub.publish(videoTopic(videoId), event);
+  } catch (error) {
+    console.error(`Failed to emit ${type} event for video ${videoId}:`, error);
+  }
+};
+
+// Events recorded after the cursor position, oldest first
+export const getCommentEventsSince = async (videoId: string, after: CursorInfo, limit: number): Promise<CommentEvent[]> => {
+  return getCommentRepository().getCommentEventsSince(videoId, after, limit);
+};
+
+// Whether a resume cursor still falls inside the retained event window. Legacy cursors can't
+// be tied to a video, so they get a reset rather than a replay.
+const isCursorRetained = (after: CursorInfo, now: Date = new Date()): boolean =>
+  !after.legacy && now.getTime() - after.createdAt.getTime() <= streamConfig.eventRetentionSeconds * 1000;
+
+export interface CommentStreamHandlers {
+  onEvent: (event: CommentEvent) => void;
+  // The missed events can't be replayed in full (cursor expired or too far behind)
+  onReset: () => void;
+}
+
+// Deliver a video's events to one connection: missed events after the cursor first, then
+// live ones. Live events arriving during the replay are held back and de-duplicated so
+// the connection sees each event once, in order. Returns the function that closes it.
+export const openCommentStream = async (
+  videoId: string,
+  after: CursorInfo | undefined,
+  handlers: CommentStreamHandlers
+): Promise<Unsubscribe> => {
+  let replaying = after !== undefined;
+  const pending: CommentEvent[] = [];
+  const unsubscribe = pubSub.subscribe(videoTopic(videoId), event => {
+    if (replaying) {
+      pending.push(event);
+    } else {
+      handlers.onEvent(event);
+    }
+  });
+
+  if (after) {
+    try {
+      const missed = isCursorRetained(after)
+        ? await getCommentEventsSince(videoId, after, streamConfig.replayLimit + 1)
+        : null;
+
+      if (missed && missed.length <= streamConfig.replayLimit) {
+        const replayedIds = new Set(missed.map(event => event.id));
+        (await loadLoggedItems(missed)).forEach(handlers.onEvent);
+        pending.filter(event => !replayedIds.has(event.id)).forEach(handlers.onEvent);
+      } else {
+        handlers.onReset();
+        pending.forEach(handlers.onEvent);
+      }
+    } catch (error) {
+      unsubscribe();
+      throw error;
+    } finally {
+      replaying = false;
+    }
+  }
+
+  return unsubscribe;
+};
@@ -0,0 +1,78 @@
+import { erasureConfig } from '../config/erasure';
+import { getCommentsByIds, getRepliesByIds, getEditHistory } from './commentsService';
+import { getUserItemRefs, getUserReactions } from './userContentService';
+import { UserContentRef } from '../models/users';
+
+/**
+ * Data export: everything a user wrote, as one JSON document written out in pieces.
+ *
+ * The archive is {"userId", "exportedAt", "comments": [...], "replies": [...], "reactions": [...]}.
+ * Comments and replies are read a batch at a time from the user's history tables, so deleted,
+ * hidden and held items are included along with their edit history; nothing is held in memory
+ * beyond one batch.
+ */
+
+// Receives each piece of the archive; resolves once the piece may be followed by the next
+export type ExportWriter = (chunk: string) => Promise<void>;
+
+// Write the items behind one page of history refs, with the video they belong to and their edits
+const exportItems = async (type: UserContentRef['type'], refs: UserContentRef[]): Promise<object[]> => {
+  const ids = refs.map(ref => ref.id);
+  const items = type === 'comment' ? await getCommentsByIds(ids) : await getRepliesByIds(ids);
+  const videoIds = new Map(refs.map(ref => [ref.id, ref.videoId]));
+
+  return Promise.all(items.map(async item => ({
+    ...item,
+    videoId: videoIds.get(item.id.toString()),
+    editHistory: await getEditHistory(item.id)
+  })));
+};
+
+// Append a JSON array under `key` to the archive, one batch of entries at a time
+const writeArray = async (
+  write: ExportWriter,
+  key: string,
+  nextBatch: () => Promise<{ entries: object[]; done: boolean }>
+): Promise<void> => {
+  await write(`,${JSON.stringify(key)}:[`);
+  let written = 0;
+  let done = false;
+
+  while (!done) {
+    const batch = await nextBatch();
+    for (const entry of batch.entries) {
+      await write(`${written > 0 ? ',' : ''}${JSON.stringify(entry)}`);
+      written++;
+    }
+    done = batch.done;
+  }
+
+  await write(']');
+};
+
+// Page through one of the user's history tables
+const historyBatches = (type: UserContentRef['type'], userId: string): (() => Promise<{ entries: object[]; done: boolean }>) => {
+  let last: UserContentRef | undefined;
+  return async (): Promise<{ entries: object[]; done: boolean }> => {
+    const refs = await getUserItemRefs(type, userId, erasureConfig.batchSize, last?.createdAt, last?.id);
+    last = refs[refs.length - 1];
+    return { entries: await exportItems(type, refs), done: refs.length < erasureConfig.batchSize };
+  };
+};
+
+// Stream a user's archive through `write`
+export const writeUserExport = async (userId: string, write: ExportWriter, now: Date = new Date()): Promise<void> => {
+  await write(`{"userId":${JSON.stringify(userId)},"exportedAt":${JSON.stringify(now.toISOString())}`);
+
+  await writeArray(write, 'comments', historyBatches('comment', userId));
+  await writeArray(write, 'replies', historyBatches('reply', userId));
+
+  let lastItemId: string | undefined;
+  await writeArray(write, 'reactions', async () => {
+    const reactions = await getUserReactions(userId, erasureConfig.batchSize, lastItemId);
+    lastItemId = reactions[reactions.length - 1]?.itemId;
+    return { entries: reactions, done: reactions.length < erasureConfig.batchSize };
+  });
+
+  await write('}');
+};
@@ -0,0 +1,184 @@
+import { createHash } from 'crypto';
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { connectToDatabase, ensureKeyspace, databaseConfig } from '../config/database';
+import { Migration, AppliedMigration, MigrationStatus } from '../models/migrations';
+
+/**
+ * Versioned schema migrations.
+ *
+ * Each file in migrations/ is named <version>_<name>.cql and holds CQL statements separated
+ * by semicolons, with table names left unqualified. `npm run migrate -- up` creates the
+ * keyspace with the configured replication, then applies every migration schema_migrations
+ * has no row for, lowest version first, recording each once all of its statements have run.
+ * The app only checks: it refuses to start while a migration is pending.
+ *
+ * A migration that fails part way is not recorded and runs again from its first statement
+ * on the next `up`, so statements should be safe to repeat (IF NOT EXISTS and the like).
+ * CQL has no ADD IF NOT EXISTS, so `ALTER TABLE <table> ADD <column> <type>` statements are
+ * skipped when system_schema.columns already has the column.
+ */
+
+// Resolves to the repository's migrations/ from src/services and from dist/services alike
+const MIGRATIONS_DIR = path.resolve(__dirname, '../../migrations');
+
+const MIGRATION_FILE = /^(\d+)_(\w+)\.cql$/;
+
+const ADD_COLUMN = /^ALTER\s+TABLE\s+(\w+)\s+ADD\s+(\w+)\s/i;
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INT PRIMARY KEY,
+    name TEXT,
+    checksum TEXT,
+    applied_at TIMESTAMP
+  )
+`;
+
+// Version and name as in the file name, e.g. 0001_initial_schema
+export const migrationLabel = (migration: { version: number; name: string }): string =>
+  `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+
+// Statements of a migration file, without -- comments
+const splitStatements = (cql: string): string[] =>
+  cql
+    .split('\n')
+    .filter(line => !line.trim().startsWith('--'))
+    .join('\n')
+    .split(';')
+    .map(statement => statement.trim())
+    .filter(statement => statement.length > 0);
+
+// Every migration file, lowest version first
+export const loadMigrations = async (): Promise<Migration[]> => {
+  const files = await readdir(MIGRATIONS_DIR);
+  const migrations: Migration[] = [];
+
+  for (const file of files) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) continue;
+
+    const cql = await readFile(path.join(MIGRATIONS_DIR, file), 'utf8');
+    migrations.push({
+      version: parseInt(match[1] as string),
+      name: match[2] as string,
+      checksum: createHash('sha256').update(cql).digest('hex'),
+      statements: splitStatements(cql)
+    });
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i]!.version === migrations[i - 1]!.version) {
+      throw new Error(`Two migrations share version ${migrations[i]!.version}`);
+    }
+  }
+  return migrations;
+};
+
+// Recorded migrations by version; none before the first `up` created schema_migrations
+const getAppliedMigrations = async (): Promise<Map<number, AppliedMigration>> => {
+  const client = await connectToDatabase();
+  const table = await client.execute(
+    'SELECT table_name FROM system_schema.tables WHERE keyspace_name = ? AND table_name = ?',
+    [databaseConfig.keyspace, 'schema_migrations'],
+    { prepare: true }
+  );
+  if (table.rows.length === 0) return new Map();
+
+  const result = await client.execute('SELECT version, name, checksum, applied_at FROM schema_migrations');
+  return new Map(result.rows.map(row => [row.version, {
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: row.applied_at
+  }]));
+};
+
+// State of every migration the files or schema_migrations know about, lowest version first
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  const [migrations, applied] = await Promise.all([loadMigrations(), getAppliedMigrations()]);
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const row = applied.get(migration.version);
+    if (!row) return { version: migration.version, name: migration.name, state: 'pending' };
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row.checksum === migration.checksum ? 'applied' : 'modified',
+      appliedAt: row.appliedAt
+    };
+  });
+
+  const known = new Set(migrations.map(migration => migration.version));
+  for (const row of applied.values()) {
+    if (!known.has(row.version)) {
+      statuses.push({ version: row.version, name: row.name, state: 'unknown', appliedAt: row.appliedAt });
+    }
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+};
+
+// Whether a statement adds a column the table already has
+const addsExistingColumn = async (statement: string): Promise<boolean> => {
+  const match = ADD_COLUMN.exec(statement);
+  if (!match) return false;
+
+  const client = await connectToDatabase();
+  const result = await client.execute(
+    'SELECT column_name FROM system_schema.columns WHERE keyspace_name = ? AND table_name = ? AND column_name = ?',
+    [databaseConfig.keyspace, (match[1] as string).toLowerCase(), (match[2] as string).toLowerCase()],
+    { prepare: true }
+  );
+  return result.rows.length > 0;
+};
+
+// Apply every pending migration in version order, returning the ones applied
+export const migrateUp = async (): Promise<Migration[]> => {
+  await ensureKeyspace();
+  const client = await connectToDatabase();
+  await client.execute(CREATE_MIGRATIONS_TABLE);
+
+  const [migrations, applied] = await Promise.all([loadMigrations(), getAppliedMigrations()]);
+  const pending = migrations.filter(migration => !applied.has(migration.version));
+
+  for (const migration of pending) {
+    for (const [index, statement] of migration.statements.entries()) {
+      try {
+        if (await addsExistingColumn(statement)) continue;
+        await client.execute(statement);
+      } catch (error) {
+        throw new Error(
+          `Migration ${migrationLabel(migration)} failed at statement ${index + 1} of ${migration.statements.length}: ${(error as Error).message}`
+        );
+      }
+    }
+
+    await client.execute(
+      'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)',
+      [migration.version, migration.name, migration.checksum, new Date()],
+      { prepare: true }
+    );
+    console.log(`Applied migration ${migrationLabel(migration)}`);
+  }
+
+  return pending;
+};
+
+// Throw unless every migration file has been applied; files edited after they were applied
+// are only warned about
+export const assertSchemaUpToDate = async (): Promise<void> => {
+  const statuses = await getMigrationStatus();
+
+  for (const status of statuses.filter(status => status.state === 'modified')) {
+    console.warn(`Migration ${migrationLabel(status)} has changed since it was applied`);
+  }
+
+  const pending = statuses.filter(status => status.state === 'pending');
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is behind, pending migrations: ${pending.map(migrationLabel).join(', ')}. Run npm run migrate -- up`
+    );
+  }
+};
@@ -0,0 +1,231 @@
+import { Comment, Reply } from '../models/comments';
+import {
+  ContentReport,
+  ModerationAction,
+  ModerationItem,
+  ModerationStatus,
+  ModeratedItemType,
+  QueuedItem,
+  ReportReason
+} from '../models/moderation';
+import {
+  getCommentById,
+  getReplyById,
+  deleteComment,
+  deleteReply,
+  setCommentHidden,
+  setReplyHidden,
+  releaseHeldComment,
+  releaseHeldReply
+} from './commentsService';
+import { getCommentRepository } from '../repositories';
+import { ApiError, ForbiddenError, NotFoundError } from '../utils/errors';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { threadConfig } from '../config/threads';
+
+/**
+ * Viewer reports and the moderator workflow
+ *
+ * The first report on an item queues it under its video; later reports add their reason to
+ * the queued entry. A moderator action resolves the item and takes it off the queue, and
+ * items that were already resolved are not queued again by further reports. Content the
+ * filter held goes through the same queue: approving or hiding it publishes it, removing
+ * it discards it.
+ */
+
+// Status an item is left in by each action
+const ACTION_STATUS: Record<ModerationAction, ModerationStatus> = {
+  approve: 'approved',
+  hide: 'hidden',
+  remove: 'removed',
+  ban_author: 'removed'
+};
+
+// Load a comment or reply, with the video it belongs to
+const getItemWithVideo = async (
+  itemType: ModeratedItemType,
+  itemId: string
+): Promise<{ item: Comment | Reply; videoId: string }> => {
+  if (itemType === 'comment') {
+    const comment = await getCommentById(itemId);
+    if (!comment) {
+      throw new NotFoundError('Comment not found');
+    }
+    return { item: comment, videoId: comment.videoId };
+  }
+
+  const reply = await getReplyById(itemId);
+  const root = reply ? await getCommentById(reply.commentId) : null;
+  if (!reply || !root) {
+    throw new NotFoundError('Reply not found');
+  }
+  return { item: reply, videoId: root.videoId };
+};
+
+// Get the moderation state of an item, null when it has never been reported or moderated
+export const getModerationItem = async (itemId: string): Promise<ModerationItem | null> => {
+  return getCommentRepository().getModerationItem(itemId);
+};
+
+// Record a viewer's report and queue the item for moderators if it isn't already
+export const reportItem = async (
+  itemType: ModeratedItemType,
+  itemId: string,
+  reporterId: string,
+  reason: ReportReason,
+  details?: string
+): Promise<ContentReport> => {
+  const repository = getCommentRepository();
+  const { item, videoId } = await getItemWithVideo(itemType, itemId);
+  if (item.deleted || item.held) {
+    throw new NotFoundError(`${itemType === 'comment' ? 'Comment' : 'Reply'} not found`);
+  }
+
+  const report: ContentReport = { itemId, itemType, videoId, reporterId, reason, details, reportedAt: new Date() };
+  if (!(await repository.insertReport(report))) {
+    throw new ApiError(409, 'CONFLICT', `You have already reported this ${itemType}`);
+  }
+  await repository.incrementReportCount(itemId);
+
+  // Created only if absent, so concurrent first reports queue the item exactly once
+  const entry = { itemId, itemType, videoId, authorId: item.userId, queuedAt: report.reportedAt, reasons: [reason] };
+  const queued = await repository.createModerationItem({
+    itemId, itemType, videoId, authorId: item.userId, status: 'pending', queuedAt: report.reportedAt
+  });
+
+  if (queued) {
+    await repository.enqueueModerationItem(entry);
+  } else {
+    const existing = await getModerationItem(itemId);
+    if (existing?.status === 'pending' && existing.queuedAt) {
+      await repository.addQueueReasons({ ...entry, queuedAt: existing.queuedAt }, [reason]);
+    }
+  }
+
+  return report;
+};
+
+// Queue content the filter held, with the filters that held it as the reasons
+export const queueHeldItem = async (
+  itemType: ModeratedItemType,
+  itemId: string,
+  videoId: string,
+  authorId: string,
+  reasons: string[]
+): Promise<void> => {
+  const repository = getCommentRepository();
+  const queuedAt = new Date();
+  await Promise.all([
+    repository.saveModerationItem({ itemId, itemType, videoId, authorId, status: 'pending', queuedAt }),
+    repository.enqueueModerationItem({ itemId, itemType, videoId, authorId, queuedAt, reasons })
+  ]);
+};
+
+// Get a page of a video's pending items, oldest report first
+export const getPendingItems = async (
+  videoId: string,
+  limit: number,
+  lastQueuedAt?: Date,
+  lastItemId?: string
+): Promise<QueuedItem[]> => {
+  const repository = getCommentRepository();
+  const entries = await repository.getModerationQueue(videoId, limit, lastQueuedAt, lastItemId);
+
+  const [counts, items] = await Promise.all([
+    repository.getReportCounts(entries.map(entry => entry.itemId)),
+    mapWithConcurrency(entries, threadConfig.replyFetchConcurrency, (entry): Promise<Comment | Reply | null> =>
+      entry.itemType === 'comment' ? getCommentById(entry.itemId) : getReplyById(entry.itemId))
+  ]);
+
+  // Items hard deleted since they were queued (a held item its author withdrew, a purged
+  // item) have nothing left to moderate; drop their entries as they are found
+  const gone = entries.filter((entry, index) => !items[index]);
+  await Promise.all(gone.map(entry => repository.dequeueModerationItem(entry)));
+
+  return entries.flatMap((entry, index) => {
+    const item = items[index];
+    return item ? [{ ...entry, reportCount: counts.get(entry.itemId) ?? 0, item }] : [];
+  });
+};
+
+// Whether a user has been banned from commenting and reacting
+export const isUserBanned = async (userId: string): Promise<boolean> => {
+  return getCommentRepository().isUserBanned(userId);
+};
+
+// Reject writes from banned users
+export const assertNotBanned = async (userId: string): Promise<void> => {
+  if (await isUserBanned(userId)) {
+    throw new ForbiddenError('This account has been banned from commenting');
+  }
+};
+
+// Bar a user from commenting and reacting
+export const banUser = async (userId: string, bannedBy: string, reason?: string): Promise<void> => {
+  await getCommentRepository().banUser({ userId, bannedAt: new Date(), bannedBy, reason });
+};
+
+// Apply a moderator's decision to a comment or reply and take it off its video's queue.
+// Works on items that were never reported too, so moderators can act on anything they see.
+export const moderateItem = async (
+  itemType: ModeratedItemType,
+  itemId: string,
+  action: ModerationAction,
+  moderatorId: string,
+  reason?: string
+): Promise<ModerationItem> => {
+  const repository = getCommentRepository();
+  const { item, videoId } = await getItemWithVideo(itemType, itemId);
+  const setHidden = itemType === 'comment' ? setCommentHidden : setReplyHidden;
+  const release = itemType === 'comment' ? releaseHeldComment : releaseHeldReply;
+
+  switch (action) {
+    case 'approve':
+      if (item.hidden) {
+        await setHidden(itemId, null);
+      }
+      if (item.held) {
+        await release(itemId);
+      }
+      break;
+    case 'hide':
+      if (!item.hidden) {
+        await setHidden(itemId, moderatorId);
+      }
+      if (item.held) {
+        await release(itemId);
+      }
+      break;
+    case 'remove':
+    case 'ban_author':
+      // Deleting a held item discards it
+      if (!item.deleted) {
+        await (itemType === 'comment' ? deleteComment(itemId, moderatorId) : deleteReply(itemId, moderatorId));
+      }
+      if (action === 'ban_author') {
+        await banUser(item.userId, moderatorId, reason);
+      }
+      break;
+  }
+
+  const previous = await getModerationItem(itemId);
+  const resolved: ModerationItem = {
+    itemId,
+    itemType,
+    videoId,
+    authorId: item.userId,
+    status: ACTION_STATUS[action],
+    queuedAt: previous?.queuedAt,
+    resolvedAt: new Date(),
+    resolvedBy: moderatorId,
+    action
+  };
+
+  await repository.saveModerationItem(resolved);
+
+  if (previous?.status === 'pending' && previous.queuedAt) {
+    await repository.dequeueModerationItem({ videoId, queuedAt: previous.queuedAt, itemId });
+  }
+
+  return resolved;
+};
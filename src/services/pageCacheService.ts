@@ -0,0 +1,112 @@
+import { pageCacheConfig } from '../config/pageCache';
+import { CachedCommentPage, PageCacheMetrics } from '../models/pageCache';
+import { CacheStore, LruCacheStore } from '../utils/lruCache';
+
+/**
+ * Cache for the first page of a video's comments, the page nearly every viewer asks for.
+ *
+ * What is cached is the data the page is built from (comments, reply pages, pinned comment
+ * and total), not the response: visibility and display fields are still applied per viewer.
+ * Writes to a video's comments and replies drop all of its cached pages on this instance;
+ * other instances serve theirs until the TTL runs out unless a shared store is installed
+ * with setPageCacheStore.
+ */
+
+export interface CommentPageKey {
+  videoId: string;
+  type: string;
+  // The resolved strategy name rather than "ranked", so a settings change can't serve a stale order
+  sort: string;
+  order: string;
+  limit: number;
+  repliesLimit: number;
+}
+
+let store: CacheStore<CachedCommentPage> = new LruCacheStore(pageCacheConfig.maxEntries);
+
+// Swap the store, e.g. for one shared by every instance
+export const setPageCacheStore = (implementation: CacheStore<CachedCommentPage>): void => {
+  store = implementation;
+};
+
+let hits = 0;
+let misses = 0;
+let invalidations = 0;
+
+// Page loads in progress per video. An invalidation marks them stale, so a load that read
+// the database before a write finished doesn't cache what it read.
+const pendingLoads = new Map<string, Set<{ stale: boolean }>>();
+
+const cacheKey = (key: CommentPageKey): string =>
+  [key.videoId, key.type, key.sort, key.order, key.limit, key.repliesLimit].join('|');
+
+// The cached first page, or a freshly loaded one that is cached for the next viewer. A store
+// outage is logged and the page loaded as if nothing were cached.
+export const getCachedCommentPage = async (
+  key: CommentPageKey,
+  load: () => Promise<CachedCommentPage>
+): Promise<{ page: CachedCommentPage; hit: boolean }> => {
+  if (!pageCacheConfig.enabled) {
+    return { page: await load(), hit: false };
+  }
+
+  const storeKey = cacheKey(key);
+  try {
+    const cached = await store.get(storeKey);
+    if (cached) {
+      hits++;
+      return { page: cached, hit: true };
+    }
+  } catch (error) {
+    console.error('Page cache read failed:', error);
+  }
+  misses++;
+
+  const ticket = { stale: false };
+  const loads = pendingLoads.get(key.videoId) ?? new Set();
+  loads.add(ticket);
+  pendingLoads.set(key.videoId, loads);
+
+  try {
+    const page = await load();
+    if (!ticket.stale) {
+      await store.set(key.videoId, storeKey, page, pageCacheConfig.ttlSeconds)
+        .catch(error => console.error('Page cache write failed:', error));
+    }
+    return { page, hit: false };
+  } finally {
+    loads.delete(ticket);
+    if (loads.size === 0) pendingLoads.delete(key.videoId);
+  }
+};
+
+// Drop every cached first page of a video after a write that changes what they show
+export const invalidateCommentPages = async (videoId: string): Promise<void> => {
+  if (!pageCacheConfig.enabled) return;
+
+  invalidations++;
+  for (const ticket of pendingLoads.get(videoId) ?? []) {
+    ticket.stale = true;
+  }
+  try {
+    await store.invalidate(videoId);
+  } catch (error) {
+    console.error('Page cache invalidation failed:', error);
+  }
+};
+
+// Lookups, invalidations and store size since the process started
+export const getPageCacheMetrics = async (): Promise<PageCacheMetrics> => {
+  const { entries, evictions } = await store.stats();
+  const lookups = hits + misses;
+  return {
+    enabled: pageCacheConfig.enabled,
+    hits,
+    misses,
+    hitRate: lookups > 0 ? hits / lookups : 0,
+    invalidations,
+    entries,
+    evictions,
+    ttlSeconds: pageCacheConfig.ttlSeconds
+  };
+};
@@ -0,0 +1,74 @@
+import { types } from 'cassandra-driver';
+import { connectToDatabase } from '../config/database';
+import { rateLimitConfig, RateLimitPolicy } from '../config/rateLimit';
+import {
+  InMemoryRateLimitStore,
+  RateLimitResult,
+  RateLimitStore,
+  bucketLifetimeSeconds,
+  takeToken
+} from '../utils/tokenBucket';
+
+// Compare-and-set attempts before a contended bucket counts as exhausted
+const MAX_BUCKET_RETRIES = 5;
+
+// Buckets kept in Scylla so every API instance draws from the same tokens. Each take is a
+// serial read followed by a lightweight-transaction write conditioned on updated_at, so two
+// instances taking from one bucket at once cannot both spend the same token.
+export class ScyllaRateLimitStore implements RateLimitStore {
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    const client = await connectToDatabase();
+    // Full buckets are indistinguishable from missing ones, so rows only live until they refill
+    const ttl = bucketLifetimeSeconds(policy);
+
+    for (let attempt = 0; attempt < MAX_BUCKET_RETRIES; attempt++) {
+      const current = await client.execute(
+        'SELECT tokens, updated_at FROM rate_limit_buckets WHERE bucket_key = ?',
+        [key],
+        { prepare: true, consistency: types.consistencies.serial }
+      );
+      const row = current.rows[0];
+      const existing = row ? { tokens: row.tokens, updatedAt: row.updated_at.getTime() } : undefined;
+      const { state, result } = takeToken(existing, policy, now);
+
+      const written = row
+        ? await client.execute(
+          'UPDATE rate_limit_buckets USING TTL ? SET tokens = ?, updated_at = ? WHERE bucket_key = ? IF updated_at = ?',
+          [ttl, state.tokens, new Date(state.updatedAt), key, row.updated_at],
+          { prepare: true }
+        )
+        : await client.execute(
+          'INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at) VALUES (?, ?, ?) IF NOT EXISTS USING TTL ?',
+          [key, state.tokens, new Date(state.updatedAt), ttl],
+          { prepare: true }
+        );
+
+      if (written.wasApplied()) {
+        return result;
+      }
+    }
+
+    // Losing every race means the bucket is being hammered; treat it as empty
+    return { allowed: false, limit: policy.capacity, remaining: 0, retryAfterSeconds: 1, resetSeconds: ttl };
+  }
+}
+
+let store: RateLimitStore = rateLimitConfig.store === 'scylla'
+  ? new ScyllaRateLimitStore()
+  : new InMemoryRateLimitStore();
+
+// Swap the configured store, e.g. for one backed by another shared service
+export const setRateLimitStore = (implementation: RateLimitStore): void => {
+  store = implementation;
+};
+
+// Take one token from a bucket. A store outage is logged and the request let through, so
+// rate limiting never takes the API down with it.
+export const consumeRateLimit = async (key: string, policy: RateLimitPolicy): Promise<RateLimitResult> => {
+  try {
+    return await store.take(key, policy, Date.now());
+  } catch (error) {
+    console.error(`Rate limit check failed for ${key}:`, error);
+    return { allowed: true, limit: policy.capacity, remaining: policy.capacity, retryAfterSeconds: 0, resetSeconds: 0 };
+  }
+};
@@ -0,0 +1,66 @@
+import { Comment, IndexedScore } from '../models/comments';
+import { RankingStrategy, listRankingStrategies } from '../utils/rankingStrategies';
+import { getCommentRepository } from '../repositories';
+import { ScoreChange } from '../repositories/commentRepository';
+
+/**
+ * Score-ordered indexes backing the ranked feeds, one partition per (video, strategy).
+ *
+ * Only the scores that moved are written. On Scylla, comments_by_video_score is clustered
+ * by (score DESC, id DESC), so a comment's row has to be replaced whenever its score
+ * changes. comment_scores holds the score each comment is currently indexed under for
+ * every strategy, which is both how the old row is found and how readers discard rows
+ * left behind by two refreshes racing each other.
+ */
+
+// Write the comment's current scores into the ranked indexes, replacing previous rows.
+// Defaults to every registered strategy; the refresh job passes only time-dependent ones.
+export const upsertCommentScore = async (
+  comment: Comment,
+  now: Date = new Date(),
+  strategies: RankingStrategy[] = listRankingStrategies()
+): Promise<void> => {
+  const repository = getCommentRepository();
+  const previousScores = await repository.getCommentScores(comment.id);
+
+  const changes: ScoreChange[] = [];
+  for (const strategy of strategies) {
+    const score = strategy.scoreComment(comment, now);
+    const previousScore = previousScores.get(strategy.name);
+    if (previousScore === score) continue;
+    changes.push({ strategy: strategy.name, score, previousScore });
+  }
+
+  if (changes.length > 0) {
+    await repository.writeCommentScores(comment, changes);
+  }
+};
+
+// Drop a comment from every ranked index
+export const removeCommentScore = async (commentId: string): Promise<void> => {
+  await getCommentRepository().removeCommentScores(commentId);
+};
+
+// Read one page of a strategy's ranked index, skipping stale rows whose score is no longer current
+export const getRankedCommentScores = async (
+  videoId: string,
+  strategy: string,
+  limit: number,
+  lastScore?: number,
+  lastId?: string
+): Promise<IndexedScore[]> => {
+  return getCommentRepository().getRankedCommentScores(videoId, strategy, limit, lastScore, lastId);
+};
+
+// Remember that a video has comments young enough for their recency factor to change
+export const touchRankedVideo = async (videoId: string, lastCommentAt: Date): Promise<void> => {
+  await getCommentRepository().touchRankedVideo(videoId, lastCommentAt);
+};
+
+export const getRankedVideos = async (): Promise<{ videoId: string; lastCommentAt: Date }[]> => {
+  return getCommentRepository().getRankedVideos();
+};
+
+export const removeRankedVideo = async (videoId: string): Promise<void> => {
+  await getCommentRepository().removeRankedVideo(videoId);
+};
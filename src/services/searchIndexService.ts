@@ -0,0 +1,52 @@
+import { searchConfig } from '../config/search';
+import { Comment } from '../models/comments';
+import { SearchPosting } from '../models/search';
+import { indexTerms } from '../utils/search';
+import { getCommentRepository } from '../repositories';
+
+/**
+ * Inverted index behind comment search. CQL can't match inside `content`, so each live
+ * comment gets one comment_search_index row per prefix of each of its words, partitioned
+ * by (video_id, term) and clustered newest first like comments_by_video_time.
+ */
+
+// Insert or delete a comment's rows under the given terms
+const writePostings = async (comment: Comment, terms: string[], remove: boolean): Promise<void> => {
+  await getCommentRepository().writeSearchPostings(comment, terms, remove);
+};
+
+const termsOf = (content: string): string[] =>
+  indexTerms(content, searchConfig.minPrefixLength, searchConfig.maxPrefixLength);
+
+// Make a comment searchable
+export const indexComment = async (comment: Comment): Promise<void> => {
+  await writePostings(comment, termsOf(comment.content), false);
+};
+
+// Take a comment out of search; `content` is what it was indexed with when that has changed
+export const unindexComment = async (comment: Comment, content: string = comment.content): Promise<void> => {
+  await writePostings(comment, termsOf(content), true);
+};
+
+// Move a comment's rows from its old content's terms to the new content's, touching only the difference
+export const reindexComment = async (comment: Comment, previousContent: string): Promise<void> => {
+  const previous = new Set(termsOf(previousContent));
+  const next = new Set(termsOf(comment.content));
+
+  await Promise.all([
+    writePostings(comment, [...previous].filter(term => !next.has(term)), true),
+    writePostings(comment, [...next].filter(term => !previous.has(term)), false)
+  ]);
+};
+
+// Read one page of a term's rows, newest first, strictly older than the cursor and no newer than `to`
+export const getSearchPostings = async (
+  videoId: string,
+  term: string,
+  limit: number,
+  lastCreatedAt?: Date,
+  lastId?: string,
+  to?: Date
+): Promise<SearchPosting[]> => {
+  return getCommentRepository().getSearchPostings(videoId, term, limit, lastCreatedAt, lastId, to);
+};
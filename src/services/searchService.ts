@@ -0,0 +1,128 @@
+import { searchConfig } from '../config/search';
+import { getCommentsByIds, getCommentsByVideoIdWithCursor } from './commentsService';
+import { getSearchPostings, indexComment } from './searchIndexService';
+import { Comment, Viewer } from '../models/comments';
+import { SearchClause, SearchFilters, SearchHit } from '../models/search';
+import { isVisibleTo, toRankedComment } from '../utils/ranking';
+import { cursorContext, encodeCursor } from '../utils/cursors';
+import { lookupKey, matchSearchQuery, highlightContent } from '../utils/search';
+import { ValidationError } from '../utils/errors';
+
+/**
+ * Keyword search over a video's comments, newest first
+ *
+ * One query term drives the scan: its index rows are read in (created_at, id) order and
+ * each candidate is confirmed against the full query, author and date range. A request
+ * reads at most SEARCH_MAX_SCAN rows; when that runs out first the page comes back short
+ * with a cursor where the scan stopped, so rare matches in a busy video never stall a request.
+ */
+
+export interface SearchPage {
+  hits: SearchHit[];
+  nextCursor?: string | undefined;
+  hasMore: boolean;
+}
+
+// Scan by the longest term, the one likely to have the fewest rows
+const drivingTerm = (clauses: SearchClause[]): string => {
+  const terms = clauses.flatMap(clause => clause.terms);
+  return terms.reduce((longest, term) => (term.length > longest.length ? term : longest), '');
+};
+
+const toHit = (comment: Comment, clauses: SearchClause[]): SearchHit | null => {
+  const highlights = matchSearchQuery(comment.content, clauses);
+  if (!highlights) return null;
+  return { ...toRankedComment(comment), highlights, highlighted: highlightContent(comment.content, highlights) };
+};
+
+// Search cursors only continue the same query over the same video
+export const searchCursorContext = (videoId: string, clauses: SearchClause[], filters: SearchFilters): string =>
+  cursorContext('search', videoId, JSON.stringify(clauses), filters.authorId, filters.from?.toISOString(), filters.to?.toISOString());
+
+export const searchComments = async (
+  videoId: string,
+  clauses: SearchClause[],
+  filters: SearchFilters,
+  limit: number,
+  lastCreatedAt?: Date,
+  lastId?: string,
+  viewer?: Viewer
+): Promise<SearchPage> => {
+  const shortPrefix = clauses.find(clause => clause.prefix && (clause.terms[clause.terms.length - 1] ?? '').length < searchConfig.minPrefixLength);
+  if (shortPrefix) {
+    throw new ValidationError(`Prefix searches need at least ${searchConfig.minPrefixLength} characters before the *`);
+  }
+
+  const term = lookupKey(drivingTerm(clauses), searchConfig.maxPrefixLength);
+  const hits: SearchHit[] = [];
+  let position: { createdAt?: Date | undefined; id?: string | undefined } = { createdAt: lastCreatedAt, id: lastId };
+  let scanned = 0;
+  let exhausted = false;
+
+  while (hits.length <= limit && scanned < searchConfig.maxScanPerRequest) {
+    const postings = await getSearchPostings(videoId, term, searchConfig.scanBatchSize, position.createdAt, position.id, filters.to);
+    if (postings.length < searchConfig.scanBatchSize) {
+      exhausted = true;
+    }
+
+    // Rows come newest first, so the first one before `from` ends the search
+    const inRange = filters.from ? postings.filter(posting => posting.createdAt >= (filters.from as Date)) : postings;
+    if (inRange.length < postings.length) {
+      exhausted = true;
+    }
+
+    const candidates = inRange.filter(posting =>
+      (!filters.authorId || posting.userId === filters.authorId) && (!filters.to || posting.createdAt <= filters.to));
+    const comments = await getCommentsByIds(candidates.map(posting => posting.commentId));
+    for (const comment of comments) {
+      if (comment.deleted || !isVisibleTo(comment, viewer)) continue;
+      const hit = toHit(comment, clauses);
+      if (hit) hits.push(hit);
+    }
+
+    scanned += inRange.length;
+    const last = inRange[inRange.length - 1];
+    if (exhausted || !last) {
+      exhausted = true;
+      break;
+    }
+    position = { createdAt: last.createdAt, id: last.commentId };
+  }
+
+  // More hits than fit: continue after the last one shown
+  if (hits.length > limit) {
+    const page = hits.slice(0, limit);
+    const lastHit = page[page.length - 1] as SearchHit;
+    return { hits: page, nextCursor: encodeCursor(lastHit.createdAt, lastHit.id, searchCursorContext(videoId, clauses, filters)), hasMore: true };
+  }
+
+  // Scan budget spent before the index ran out: continue where the scan stopped
+  if (!exhausted && position.createdAt && position.id) {
+    return { hits, nextCursor: encodeCursor(position.createdAt, position.id, searchCursorContext(videoId, clauses, filters)), hasMore: true };
+  }
+
+  return { hits, hasMore: false };
+};
+
+// Page size when walking a video's comments to rebuild its index
+const REINDEX_PAGE_SIZE = 200;
+
+// Index every live comment of a video, for comments written before search existed.
+// Rows are keyed by comment and term, so running it again only rewrites the same rows.
+export const reindexVideoComments = async (videoId: string): Promise<number> => {
+  let indexed = 0;
+  let last: Comment | undefined;
+
+  do {
+    const page: Comment[] = await getCommentsByVideoIdWithCursor(videoId, REINDEX_PAGE_SIZE, last?.createdAt, last?.id);
+    for (const comment of page) {
+      if (!comment.deleted && comment.content) {
+        await indexComment(comment);
+        indexed++;
+      }
+    }
+    last = page.length === REINDEX_PAGE_SIZE ? page[page.length - 1] : undefined;
+  } while (last);
+
+  return indexed;
+};
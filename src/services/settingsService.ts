@@ -0,0 +1,54 @@
+import { rankingConfig } from '../config/ranking';
+import { VideoSettings, ChannelSettings, ResolvedFeedSettings } from '../models/settings';
+import { getCommentRepository } from '../repositories';
+
+// Get the settings row for a video
+export const getVideoSettings = async (videoId: string): Promise<VideoSettings | null> => {
+  return getCommentRepository().getVideoSettings(videoId);
+};
+
+// Get the settings row for a channel
+export const getChannelSettings = async (channelId: string): Promise<ChannelSettings | null> => {
+  return getCommentRepository().getChannelSettings(channelId);
+};
+
+// Update a video's settings; undefined fields are sent unset and left as they are, null clears them
+export const updateVideoSettings = async (
+  videoId: string,
+  changes: { channelId?: string | null | undefined; rankingStrategy?: string | null | undefined; ownerId?: string | null | undefined }
+): Promise<VideoSettings> => {
+  await getCommentRepository().updateVideoSettings(videoId, changes, new Date());
+  return (await getVideoSettings(videoId)) as VideoSettings;
+};
+
+// Record which comment a video pins, or with null that it pins none
+export const setPinnedComment = async (videoId: string, commentId: string | null): Promise<void> => {
+  await getCommentRepository().setPinnedComment(videoId, commentId, new Date());
+};
+
+// Update a channel's settings; undefined fields are left as they are, null clears them
+export const updateChannelSettings = async (
+  channelId: string,
+  changes: { rankingStrategy?: string | null | undefined }
+): Promise<ChannelSettings> => {
+  await getCommentRepository().updateChannelSettings(channelId, changes, new Date());
+  return (await getChannelSettings(channelId)) as ChannelSettings;
+};
+
+// Resolve the ranking strategy a video's feed uses: video, then channel, then the default
+export const resolveFeedSettings = async (videoId: string): Promise<ResolvedFeedSettings> => {
+  const videoSettings = await getVideoSettings(videoId);
+  const channelId = videoSettings?.channelId;
+  const base = { videoId, channelId, ownerId: videoSettings?.ownerId, pinnedCommentId: videoSettings?.pinnedCommentId };
+
+  if (videoSettings?.rankingStrategy) {
+    return { ...base, rankingStrategy: videoSettings.rankingStrategy, rankingStrategySource: 'video' };
+  }
+
+  const channelSettings = channelId ? await getChannelSettings(channelId) : null;
+  if (channelSettings?.rankingStrategy) {
+    return { ...base, rankingStrategy: channelSettings.rankingStrategy, rankingStrategySource: 'channel' };
+  }
+
+  return { ...base, rankingStrategy: rankingConfig.defaultStrategy, rankingStrategySource: 'default' };
+};
@@ -0,0 +1,51 @@
+import { getChildRepliesWithCursor } from './commentsService';
+import { threadConfig } from '../config/threads';
+import { RankedReply, Viewer } from '../models/comments';
+import { RankingStrategy } from '../utils/rankingStrategies';
+import { applyReplyTombstones, applyVisibility, toRankedReply, generateNextReplyCursor } from '../utils/ranking';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * Loading reply trees below the first level of a thread
+ */
+
+export interface ReplyLevelOptions {
+  maxDepth: number;
+  limit: number;
+  // Re-order each level by score (nested feeds); threads keep the newest-first index order
+  ranked: boolean;
+  strategy?: RankingStrategy | undefined;
+  // Hidden replies are left out unless this viewer may see them
+  viewer?: Viewer | undefined;
+}
+
+// Fill in `replies` for every node down to maxDepth, one page of `limit` children per node.
+// Levels load breadth-first with one bounded query per node that has replies, at most
+// REPLY_FETCH_CONCURRENCY in flight; nodes without replies cost nothing. Each node gets its
+// own cursor for paging the rest of its children.
+export const attachReplyLevels = async (roots: RankedReply[], options: ReplyLevelOptions): Promise<void> => {
+  let level = roots;
+
+  while (level.length > 0) {
+    const parents = level.filter(node => node.depth < options.maxDepth && node.replyCount > 0);
+    const pages = await mapWithConcurrency(parents, threadConfig.replyFetchConcurrency,
+      parent => getChildRepliesWithCursor(parent.id, options.limit + 1));
+
+    const nextLevel: RankedReply[] = [];
+    parents.forEach((parent, index) => {
+      const children = pages[index] ?? [];
+      const pageItems = children.slice(0, options.limit);
+      const visible = applyReplyTombstones(applyVisibility(pageItems, options.viewer)).map(reply => toRankedReply(reply, options.strategy));
+      if (options.ranked) {
+        visible.sort((a, b) => b.score - a.score);
+      }
+
+      parent.replies = visible;
+      parent.has_more_replies = children.length > options.limit;
+      parent.replies_next_cursor = parent.has_more_replies ? generateNextReplyCursor(pageItems) : undefined;
+      nextLevel.push(...visible);
+    });
+
+    level = nextLevel;
+  }
+};
@@ -0,0 +1,97 @@
+import { getCommentsByIds, getRepliesByIds } from './commentsService';
+import { Viewer } from '../models/comments';
+import { UserContentEntry, UserContentRef, UserReaction } from '../models/users';
+import { applyVisibility, toRankedComment, toRankedReply } from '../utils/ranking';
+import { cursorContext, encodeCursor } from '../utils/cursors';
+import { getCommentRepository } from '../repositories';
+
+/**
+ * Everything a user has written, read from their comment and reply histories
+ * (comments_by_user_time and replies_by_user_time on Scylla).
+ *
+ * Both are ordered by (created_at DESC, id DESC), so one page is the newest
+ * limit + 1 rows of each past the cursor merged in the same order; a (createdAt, id)
+ * cursor then continues both. Rows stay until the item is hard deleted, so soft-deleted
+ * items are still found here and only dropped when the page is rendered.
+ */
+
+export interface UserContentPage {
+  entries: UserContentEntry[];
+  nextCursor?: string | undefined;
+  hasMore: boolean;
+}
+
+// Read one page of a user's comments or replies, newest first
+export const getUserItemRefs = async (
+  type: UserContentRef['type'],
+  userId: string,
+  limit: number,
+  lastCreatedAt?: Date,
+  lastId?: string
+): Promise<UserContentRef[]> => {
+  return getCommentRepository().getUserItemRefs(type, userId, limit, lastCreatedAt, lastId);
+};
+
+// Drop a history row whose item is already gone
+export const deleteUserContentRef = async (userId: string, ref: UserContentRef): Promise<void> => {
+  await getCommentRepository().deleteUserContentRef(userId, ref);
+};
+
+// Read one page of the reactions a user has given, in item id order after lastItemId
+export const getUserReactions = async (userId: string, limit: number, lastItemId?: string): Promise<UserReaction[]> => {
+  return getCommentRepository().getUserReactions(userId, limit, lastItemId);
+};
+
+// Newest first, ties broken by id the way the tables order their uuids
+const newestFirst = (a: UserContentRef, b: UserContentRef): number =>
+  b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// Refs to a user's comments and replies, newest first, strictly past the cursor
+export const getUserContentRefs = async (
+  userId: string,
+  limit: number,
+  lastCreatedAt?: Date,
+  lastId?: string
+): Promise<UserContentRef[]> => {
+  const [comments, replies] = await Promise.all([
+    getUserItemRefs('comment', userId, limit, lastCreatedAt, lastId),
+    getUserItemRefs('reply', userId, limit, lastCreatedAt, lastId)
+  ]);
+  return [...comments, ...replies].sort(newestFirst).slice(0, limit);
+};
+
+// One page of a user's live comments and replies as the viewer may see them
+export const getUserContent = async (
+  userId: string,
+  limit: number,
+  lastCreatedAt?: Date,
+  lastId?: string,
+  viewer?: Viewer
+): Promise<UserContentPage> => {
+  const refs = await getUserContentRefs(userId, limit + 1, lastCreatedAt, lastId);
+  const hasMore = refs.length > limit;
+  const pageRefs = refs.slice(0, limit);
+
+  const [comments, replies] = await Promise.all([
+    getCommentsByIds(pageRefs.filter(ref => ref.type === 'comment').map(ref => ref.id)),
+    getRepliesByIds(pageRefs.filter(ref => ref.type === 'reply').map(ref => ref.id))
+  ]);
+  const visibleComments = new Map(applyVisibility(comments.filter(c => !c.deleted), viewer).map(c => [c.id.toString(), c]));
+  const visibleReplies = new Map(applyVisibility(replies.filter(r => !r.deleted), viewer).map(r => [r.id.toString(), r]));
+
+  const entries = pageRefs.flatMap((ref): UserContentEntry[] => {
+    if (ref.type === 'comment') {
+      const comment = visibleComments.get(ref.id);
+      return comment ? [{ type: 'comment', ...toRankedComment(comment) }] : [];
+    }
+    const reply = visibleReplies.get(ref.id);
+    return reply ? [{ type: 'reply', videoId: ref.videoId, ...toRankedReply(reply) }] : [];
+  });
+
+  const lastRef = pageRefs[pageRefs.length - 1];
+  return {
+    entries,
+    nextCursor: hasMore && lastRef ? encodeCursor(lastRef.createdAt, lastRef.id, cursorContext('user', userId)) : undefined,
+    hasMore
+  };
+};
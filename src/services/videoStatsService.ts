@@ -0,0 +1,64 @@
+import { VideoStats } from '../models/stats';
+import { getCommentRepository } from '../repositories';
+import { VideoCounterDeltas } from '../repositories/commentRepository';
+
+/**
+ * Per-video statistics served without scanning the comments table.
+ *
+ * Totals are counters moved by every create, delete, restore and reaction in
+ * commentsService; deleted items stop counting (likes included) until restored. The
+ * repair:stats script recomputes them from the comments themselves if they drift.
+ */
+
+// Apply deltas to a video's totals and mark the write as its latest activity
+export const updateVideoStats = async (videoId: string, deltas: VideoCounterDeltas, activityAt: Date = new Date()): Promise<void> => {
+  const repository = getCommentRepository();
+  await Promise.all([
+    repository.incrementVideoCounters(videoId, deltas),
+    repository.setVideoActivity(videoId, activityAt)
+  ]);
+};
+
+// Get the statistics row for a video
+export const getVideoStats = async (videoId: string): Promise<VideoStats> => {
+  const repository = getCommentRepository();
+  const [counters, lastActivityAt] = await Promise.all([
+    repository.getVideoCounters(videoId),
+    repository.getVideoActivity(videoId)
+  ]);
+
+  return {
+    videoId,
+    commentCount: counters.comment_count,
+    replyCount: counters.reply_count,
+    likes: counters.likes,
+    dislikes: counters.dislikes,
+    lastActivityAt
+  };
+};
+
+// Move a video's totals to recomputed values. Counters can only be incremented, so this
+// applies the difference from what is stored now; writes landing between the read and
+// the increment are picked up by the next repair. Run one repair at a time, a second
+// concurrent one would apply the same difference again.
+export const overwriteVideoStats = async (stats: VideoStats): Promise<void> => {
+  const repository = getCommentRepository();
+  const current = await getVideoStats(stats.videoId);
+
+  await Promise.all([
+    repository.incrementVideoCounters(stats.videoId, {
+      comment_count: stats.commentCount - current.commentCount,
+      reply_count: stats.replyCount - current.replyCount,
+      likes: stats.likes - current.likes,
+      dislikes: stats.dislikes - current.dislikes
+    }),
+    stats.lastActivityAt
+      ? repository.setVideoActivity(stats.videoId, stats.lastActivityAt)
+      : Promise.resolve()
+  ]);
+};
+
+// Every video that has had a stats write, one page at a time
+export const getStatsVideoIds = async (pageSize: number, pageState?: string): Promise<{ videoIds: string[]; pageState?: string | undefined }> => {
+  return getCommentRepository().getActiveVideoIds(pageSize, pageState);
+};
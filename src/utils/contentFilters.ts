@@ -0,0 +1,111 @@
+import { ContentCandidate, FilterFinding, FilterVerdict, ScreeningResult } from '../models/contentFilter';
+import { contentFilterConfig } from '../config/contentFilter';
+
+/**
+ * Content filter registry
+ *
+ * Every new comment and reply runs through each registered filter before it is stored.
+ * A filter returns a finding (hold or reject) or null; the strictest finding decides the
+ * verdict. Filters here are pure; ones that need the database register from their service.
+ */
+
+export interface ContentFilter {
+  name: string;
+  check(candidate: ContentCandidate): FilterFinding | null | Promise<FilterFinding | null>;
+}
+
+const filters = new Map<string, ContentFilter>();
+
+export function registerContentFilter(filter: ContentFilter): void {
+  filters.set(filter.name, filter);
+}
+
+export function listContentFilters(): ContentFilter[] {
+  return [...filters.values()];
+}
+
+const VERDICT_SEVERITY: Record<FilterVerdict, number> = { publish: 0, hold: 1, reject: 2 };
+
+// Run every registered filter and keep the strictest verdict
+export async function runContentFilters(candidate: ContentCandidate): Promise<ScreeningResult> {
+  const results = await Promise.all(listContentFilters().map(filter => filter.check(candidate)));
+  const findings = results.filter((finding): finding is FilterFinding => finding !== null);
+  const verdict = findings.reduce<FilterVerdict>(
+    (strictest, finding) => VERDICT_SEVERITY[finding.verdict] > VERDICT_SEVERITY[strictest] ? finding.verdict : strictest,
+    'publish'
+  );
+  return { verdict, findings };
+}
+
+// Common substitutions used to slip words past a filter
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b', '9': 'g',
+  '@': 'a', '$': 's', '!': 'i', '|': 'l', '+': 't'
+};
+
+// Lowercase words with accents stripped, leet-speak undone and punctuation inside a word
+// dropped, so "B@d", "b.a.d" and "bäd" all become "bad". Letters and digits of any script
+// are kept; text made only of emoji or symbols normalizes to no words at all
+export function normalizeWords(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Recompose what the accent strip left alone, e.g. Hangul syllables and fullwidth forms
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/\s+/)
+    // Edge punctuation is trimmed first so a trailing "!" isn't read as an "i"
+    .map(word => word.replace(/^[^\p{L}\p{N}@$]+|[^\p{L}\p{N}@$]+$/gu, ''))
+    .map(word => [...word].map(char => LEET_MAP[char] ?? char).join('').replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(Boolean);
+}
+
+// Whole-word pattern from a list entry, where '*' matches any run of letters
+export function compileWordPattern(entry: string): RegExp {
+  const source = entry
+    .split('*')
+    .map(part => normalizeWords(part).join('').replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\p{L}\\p{N}]*');
+  return new RegExp(`^${source}$`, 'u');
+}
+
+const blockedPatterns = contentFilterConfig.blockedWords.map(compileWordPattern);
+const reviewPatterns = contentFilterConfig.reviewWords.map(compileWordPattern);
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+const MENTION_PATTERN = /(^|\s)@[\w.-]+/g;
+
+registerContentFilter({
+  name: 'max_length',
+  check: ({ content }) => content.length > contentFilterConfig.maxLength
+    ? { filter: 'max_length', verdict: 'reject', message: `Content exceeds ${contentFilterConfig.maxLength} characters` }
+    : null
+});
+
+registerContentFilter({
+  name: 'blocked_words',
+  check: ({ content }) => {
+    const words = normalizeWords(content);
+    if (words.some(word => blockedPatterns.some(pattern => pattern.test(word)))) {
+      return { filter: 'blocked_words', verdict: 'reject', message: 'Content contains blocked language' };
+    }
+    if (words.some(word => reviewPatterns.some(pattern => pattern.test(word)))) {
+      return { filter: 'blocked_words', verdict: 'hold', message: 'Content contains language that needs review' };
+    }
+    return null;
+  }
+});
+
+registerContentFilter({
+  name: 'links',
+  check: ({ content }) => (content.match(LINK_PATTERN) ?? []).length > contentFilterConfig.maxLinks
+    ? { filter: 'links', verdict: 'hold', message: `Content has more than ${contentFilterConfig.maxLinks} links` }
+    : null
+});
+
+registerContentFilter({
+  name: 'mentions',
+  check: ({ content }) => (content.match(MENTION_PATTERN) ?? []).length > contentFilterConfig.maxMentions
+    ? { filter: 'mentions', verdict: 'hold', message: `Content has more than ${contentFilterConfig.maxMentions} mentions` }
+    : null
+});
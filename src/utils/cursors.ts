@@ -0,0 +1,154 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { cursorConfig } from '../config/cursors';
+import { CursorInfo, ScoreCursorInfo } from '../models/comments';
+import { CursorExpiredError, CursorMismatchError, InvalidCursorError } from './errors';
+
+/**
+ * Signed pagination cursors
+ *
+ * A cursor is "v2.<payload>.<signature>". The payload is base64url JSON with the position
+ * (created_at or score, and id), whether it pages backward, a digest of the query it
+ * continues and when it was issued; the signature is an HMAC-SHA256 of the payload.
+ * Cursors are refused with INVALID_CURSOR when malformed or altered, CURSOR_MISMATCH when
+ * sent with another video, sort or query than the one they came from, and CURSOR_EXPIRED
+ * after CURSOR_TTL_SECONDS.
+ *
+ * Unsigned cursors from before (base64 JSON of the position) carry no query. Until
+ * CURSOR_LEGACY_UNTIL they are decoded with `legacy` set, and callers take them only once
+ * assertLegacyCursorFits has found the item they point at in the query's video, thread or user.
+ */
+
+const VERSION = 'v2';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type CursorScope = 'comments' | 'replies' | 'search' | 'user' | 'reports' | 'events';
+
+interface CursorPayload {
+  // created_at (ISO) for time cursors, score for score cursors
+  c?: string;
+  s?: number;
+  i: string;
+  // 1 on prev cursors
+  b?: number;
+  // Digest of the query context
+  q: string;
+  // Issued at, in seconds
+  t: number;
+}
+
+// Whether the item a legacy cursor points at belongs to the query it was sent with
+export type LegacyCursorCheck = (id: string) => Promise<boolean>;
+
+export interface DecodeCursorOptions {
+  // Stream resume cursors are judged by the event log's retention instead
+  ignoreExpiry?: boolean;
+}
+
+// The query a cursor continues, e.g. cursorContext('comments', videoId, type, sort)
+export const cursorContext = (scope: CursorScope, ...parts: Array<string | number | undefined>): string =>
+  [scope, ...parts.map(part => part ?? '')].join(':');
+
+const contextDigest = (context: string): string =>
+  createHash('sha256').update(context).digest('base64url').slice(0, 16);
+
+const sign = (payload: string): string =>
+  createHmac('sha256', cursorConfig.secret).update(payload).digest('base64url');
+
+const signatureMatches = (payload: string, signature: string): boolean => {
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const signCursor = (position: Pick<CursorPayload, 'c' | 's' | 'i' | 'b'>, context: string): string => {
+  const payload: CursorPayload = { ...position, q: contextDigest(context), t: Math.floor(Date.now() / 1000) };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${VERSION}.${encoded}.${sign(encoded)}`;
+};
+
+// Position of an unsigned cursor, while they are still accepted
+const decodeLegacyCursor = (cursor: string): Partial<CursorPayload> & { legacy: true } => {
+  if (Date.now() >= cursorConfig.legacyUntil.getTime()) {
+    throw new CursorExpiredError('Cursor format is no longer supported, start again from the first page');
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64').toString());
+    return { c: decoded.createdAt, s: decoded.score, i: decoded.id, legacy: true };
+  } catch (error) {
+    throw new InvalidCursorError();
+  }
+};
+
+const verifyCursor = (cursor: string, context: string, options: DecodeCursorOptions): Partial<CursorPayload> & { legacy?: true } => {
+  const parts = cursor.split('.');
+  if (parts[0] !== VERSION) {
+    return decodeLegacyCursor(cursor);
+  }
+
+  const [, encoded, signature] = parts;
+  if (parts.length !== 3 || !encoded || !signature || !signatureMatches(encoded, signature)) {
+    throw new InvalidCursorError();
+  }
+
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+  } catch (error) {
+    throw new InvalidCursorError();
+  }
+  if (typeof payload.q !== 'string' || typeof payload.t !== 'number') {
+    throw new InvalidCursorError();
+  }
+
+  if (payload.q !== contextDigest(context)) {
+    throw new CursorMismatchError();
+  }
+  if (!options.ignoreExpiry && Date.now() / 1000 - payload.t > cursorConfig.ttlSeconds) {
+    throw new CursorExpiredError();
+  }
+  return payload;
+};
+
+// Cursor for a walk through the time index; backward ones page toward the start of the order
+export function encodeCursor(createdAt: Date, id: string, context: string, backward = false): string {
+  return signCursor(backward ? { c: createdAt.toISOString(), i: id, b: 1 } : { c: createdAt.toISOString(), i: id }, context);
+}
+
+export function decodeCursor(cursor: string, context: string, options: DecodeCursorOptions = {}): CursorInfo {
+  const { c, i, b, legacy } = verifyCursor(cursor, context, options);
+  const createdAt = typeof c === 'string' ? new Date(c) : null;
+  if (!createdAt || isNaN(createdAt.getTime()) || typeof i !== 'string') {
+    throw new InvalidCursorError();
+  }
+  return legacy ? { createdAt, id: i, backward: false, legacy } : { createdAt, id: i, backward: b === 1 };
+}
+
+// Cursor for the ranked feed: position in the (score DESC, id DESC) index
+export function encodeScoreCursor(score: number, id: string, context: string): string {
+  return signCursor({ s: score, i: id }, context);
+}
+
+export function decodeScoreCursor(cursor: string, context: string): ScoreCursorInfo {
+  const { s, i, legacy } = verifyCursor(cursor, context, {});
+  if (typeof s !== 'number' || !Number.isFinite(s) || typeof i !== 'string') {
+    throw new InvalidCursorError();
+  }
+  return legacy ? { score: s, id: i, legacy } : { score: s, id: i };
+}
+
+// Refuse a legacy cursor unless `fits` finds its item in the query it was sent with; signed
+// cursors were checked when decoded
+export const assertLegacyCursorFits = async (
+  position: { id: string; legacy?: boolean | undefined },
+  fits: LegacyCursorCheck
+): Promise<void> => {
+  if (!position.legacy) return;
+  if (!UUID.test(position.id)) {
+    throw new InvalidCursorError();
+  }
+  if (!(await fits(position.id))) {
+    throw new CursorMismatchError();
+  }
+};
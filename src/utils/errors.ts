@@ -0,0 +1,122 @@
+import { Response } from 'express';
+
+/**
+ * API errors and the shared error envelope
+ *
+ * Every failed request is answered with:
+ *   { success: false, error: <message>, code: <ERROR_CODE>, details?: [{ field, message }] }
+ */
+
+export type ErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_CURSOR'
+  | 'CURSOR_MISMATCH'
+  | 'CURSOR_EXPIRED'
+  | 'INVALID_JSON'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'CONTENT_REJECTED'
+  | 'RATE_LIMITED'
+  | 'INTERNAL_ERROR';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: FieldError[]
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, details?: FieldError[]) {
+    super(400, 'VALIDATION_ERROR', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class InvalidCursorError extends ApiError {
+  constructor(message: string = 'Invalid cursor format') {
+    super(400, 'INVALID_CURSOR', message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export class CursorMismatchError extends ApiError {
+  constructor(message: string = 'Cursor belongs to a different query') {
+    super(400, 'CURSOR_MISMATCH', message);
+    this.name = 'CursorMismatchError';
+  }
+}
+
+export class CursorExpiredError extends ApiError {
+  constructor(message: string = 'Cursor has expired, start again from the first page') {
+    super(400, 'CURSOR_EXPIRED', message);
+    this.name = 'CursorExpiredError';
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message: string = 'Authentication required') {
+    super(401, 'UNAUTHORIZED', message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(403, 'FORBIDDEN', message);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string) {
+    super(404, 'NOT_FOUND', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ContentRejectedError extends ApiError {
+  constructor(details: FieldError[]) {
+    super(422, 'CONTENT_REJECTED', 'Content was rejected by the content filter', details);
+    this.name = 'ContentRejectedError';
+  }
+}
+
+export class RateLimitError extends ApiError {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(429, 'RATE_LIMITED', `Too many requests, retry in ${retryAfterSeconds}s`);
+    this.name = 'RateLimitError';
+  }
+}
+
+// Write the error envelope; unknown errors are logged and reported as a generic 500
+export function sendError(res: Response, error: unknown, fallbackMessage: string = 'Internal server error'): void {
+  if (error instanceof ApiError) {
+    res.status(error.status).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error.details ? { details: error.details } : {})
+    });
+    return;
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: fallbackMessage,
+    code: 'INTERNAL_ERROR'
+  });
+}
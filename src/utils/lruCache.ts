@@ -0,0 +1,83 @@
+/**
+ * Store interface for cached pages, and the in-process LRU store used by default.
+ *
+ * Entries belong to a group (a video) so every page of that group can be dropped at once
+ * after a write. The LRU store relies on Map keeping insertion order: reading an entry
+ * moves it to the end, so the first key is always the least recently used.
+ */
+
+export interface CacheStoreStats {
+  entries: number;
+  evictions: number;
+}
+
+export interface CacheStore<T> {
+  get(key: string): Promise<T | undefined>;
+  set(group: string, key: string, value: T, ttlSeconds: number): Promise<void>;
+  // Drop every entry of the group
+  invalidate(group: string): Promise<void>;
+  stats(): Promise<CacheStoreStats>;
+}
+
+interface CacheEntry<T> {
+  group: string;
+  value: T;
+  expiresAt: number;
+}
+
+export class LruCacheStore<T> implements CacheStore<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly groups = new Map<string, Set<string>>();
+  private evictions = 0;
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.remove(key, entry);
+      return undefined;
+    }
+
+    // Most recently used goes last
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(group: string, key: string, value: T, ttlSeconds: number): Promise<void> {
+    const existing = this.entries.get(key);
+    if (existing) this.remove(key, existing);
+
+    this.entries.set(key, { group, value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    const keys = this.groups.get(group) ?? new Set<string>();
+    keys.add(key);
+    this.groups.set(group, keys);
+
+    while (this.entries.size > this.maxEntries) {
+      const [oldestKey, oldest] = this.entries.entries().next().value as [string, CacheEntry<T>];
+      this.remove(oldestKey, oldest);
+      this.evictions++;
+    }
+  }
+
+  async invalidate(group: string): Promise<void> {
+    for (const key of this.groups.get(group) ?? []) {
+      this.entries.delete(key);
+    }
+    this.groups.delete(group);
+  }
+
+  async stats(): Promise<CacheStoreStats> {
+    return { entries: this.entries.size, evictions: this.evictions };
+  }
+
+  private remove(key: string, entry: CacheEntry<T>): void {
+    this.entries.delete(key);
+    const keys = this.groups.get(entry.group);
+    keys?.delete(key);
+    if (keys?.size === 0) this.groups.delete(entry.group);
+  }
+}
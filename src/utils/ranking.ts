@@ -1,19 +1,33 @@
-import { Comment, Reply, RankedComment, RankedReply, CursorInfo } from '../models/comments';
+import {
+  Comment,
+  Reply,
+  RankedComment,
+  RankedReply,
+  ScoredComment,
+  Viewer,
+  CursorInfo,
+  PageOrder,
+  DELETED_PLACEHOLDER
+} from '../models/comments';
+import type { RankingStrategy } from './rankingStrategies';
+import { cursorContext, encodeCursor, encodeScoreCursor } from './cursors';
 
 /**
  * Top Comments Ranking Algorithm with Cursor Support
  */
 
+// Age after which the recency factor stops changing, so scores no longer need refreshing
+export const RECENCY_WINDOW_HOURS = 672;
+
 // Calculate recency factor based on how recent the comment/reply is
-function calculateRecencyFactor(createdAt: Date): number {
-  const now = new Date();
+function calculateRecencyFactor(createdAt: Date, now: Date = new Date()): number {
   const hoursSinceCreated = (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60);
 
   if (hoursSinceCreated <= 1) return 10;
   if (hoursSinceCreated <= 6) return 8;
   if (hoursSinceCreated <= 24) return 6;
   if (hoursSinceCreated <= 168) return 4; // 7 days
-  if (hoursSinceCreated <= 672) return 2; // 4 weeks
+  if (hoursSinceCreated <= RECENCY_WINDOW_HOURS) return 2; // 4 weeks
   return 0;
 }
 
@@ -23,17 +37,17 @@ function calculateNetScore(item: Comment | Reply): number {
 }
 
 // Calculate final score for a comment
-function calculateCommentScore(comment: Comment): number {
+export function calculateCommentScore(comment: Comment, now: Date = new Date()): number {
   const netScore = calculateNetScore(comment);
-  const recencyFactor = calculateRecencyFactor(comment.createdAt);
+  const recencyFactor = calculateRecencyFactor(comment.createdAt, now);
   const replyBoost = Math.min(comment.replyCount * 0.5, 5);
   return Math.max(0, netScore) + recencyFactor + replyBoost;
 }
 
 // Calculate final score for a reply
-function calculateReplyScore(reply: Reply): number {
+export function calculateReplyScore(reply: Reply, now: Date = new Date()): number {
   const netScore = calculateNetScore(reply);
-  const recencyFactor = calculateRecencyFactor(reply.createdAt);
+  const recencyFactor = calculateRecencyFactor(reply.createdAt, now);
   return Math.max(0, netScore) + recencyFactor;
 }
 
@@ -61,142 +75,226 @@ function formatTimeAgo(createdAt: Date): string {
   return 'just now';
 }
 
-export function rankReplies(replies: Reply[]): RankedReply[] {
+// Moderator-hidden and held items drop out unless the viewer wrote them or is a moderator
+export function applyVisibility<T extends Comment | Reply>(items: T[], viewer?: Viewer): T[] {
+  return items.filter(item => isVisibleTo(item, viewer));
+}
+
+export function isVisibleTo(item: Comment | Reply, viewer?: Viewer): boolean {
+  return (!item.hidden && !item.held) || !!viewer?.moderator || (!!viewer?.userId && viewer.userId === item.userId);
+}
+
+// Deleted comments with replies keep their place as a placeholder, the rest drop out
+export function applyTombstones(comments: Comment[]): Comment[] {
+  return comments
+    .filter(comment => !comment.deleted || comment.replyCount > 0)
+    .map(comment => comment.deleted
+      ? { ...comment, content: DELETED_PLACEHOLDER, userId: DELETED_PLACEHOLDER, likes: 0, dislikes: 0 }
+      : comment);
+}
+
+// Deleted replies that others answered stay as a placeholder, the rest drop out
+export function applyReplyTombstones(replies: Reply[]): Reply[] {
   return replies
-    .map(reply => ({
-      ...reply,
-      netScore: calculateNetScore(reply),
-      score: calculateReplyScore(reply),
-      timeAgo: formatTimeAgo(reply.createdAt)
-    }))
-    .sort((a, b) => b.score - a.score);
+    .filter(reply => !reply.deleted || reply.replyCount > 0)
+    .map(reply => reply.deleted
+      ? { ...reply, content: DELETED_PLACEHOLDER, userId: DELETED_PLACEHOLDER, likes: 0, dislikes: 0 }
+      : reply);
 }
 
-export function encodeCursor(createdAt: Date, id: string): string {
-  const cursorData = {
-    createdAt: createdAt.toISOString(),
-    id: id
+// Attach display metadata, scored with the feed's strategy or the classic score when none is given
+export function toRankedReply(reply: Reply, strategy?: RankingStrategy, now: Date = new Date()): RankedReply {
+  return {
+    ...reply,
+    netScore: calculateNetScore(reply),
+    score: strategy ? strategy.scoreReply(reply, now) : calculateReplyScore(reply, now),
+    timeAgo: formatTimeAgo(reply.createdAt)
   };
-  return Buffer.from(JSON.stringify(cursorData)).toString('base64');
 }
 
-export function decodeCursor(cursor: string): CursorInfo {
-  try {
-    const decoded = JSON.parse(Buffer.from(cursor, 'base64').toString());
-    return {
-      createdAt: new Date(decoded.createdAt),
-      id: decoded.id
-    };
-  } catch (error) {
-    throw new Error('Invalid cursor format');
-  }
+export function rankReplies(replies: Reply[], strategy?: RankingStrategy, now: Date = new Date()): RankedReply[] {
+  return replies
+    .map(reply => toRankedReply(reply, strategy, now))
+    .sort((a, b) => b.score - a.score);
+}
+
+// A page cut from the limit + 1 rows read past a cursor, items in the order they are shown
+export interface PageWindow<T> {
+  items: T[];
+  hasMore: boolean;
+  hasPrev: boolean;
+  // The cursor position the page was read from, if any
+  position?: CursorInfo | undefined;
+}
+
+// Which way to read the time index: next pages continue in the page order, prev pages read
+// the opposite way from the cursor
+export function readOrderFor(order: PageOrder, position: Partial<CursorInfo>): PageOrder {
+  return (order === 'oldest') === !!position.backward ? 'newest' : 'oldest';
+}
+
+// Rows read backward arrive in reverse and only tell whether more lie before them; whatever
+// the cursor came from lies after them. A page reached with a next cursor has one before it.
+export function cutPage<T>(rows: T[], limit: number, position: Partial<CursorInfo> = {}): PageWindow<T> {
+  const overflow = rows.length > limit;
+  const items = rows.slice(0, limit);
+  const from = position.createdAt && position.id
+    ? { createdAt: position.createdAt, id: position.id, backward: !!position.backward }
+    : undefined;
+
+  return position.backward
+    ? { items: items.reverse(), hasMore: true, hasPrev: overflow, position: from }
+    : { items, hasMore: overflow, hasPrev: !!from, position: from };
+}
+
+// next_cursor after the last item of a time-ordered page and prev_cursor before the first.
+// An empty page keeps the position it was read from, so polling with since can carry on.
+export function generateTimeCursors(
+  window: PageWindow<Comment | Reply>,
+  context: string
+): { nextCursor?: string | undefined, prevCursor?: string | undefined } {
+  const first = window.items[0] ?? window.position;
+  const last = window.items[window.items.length - 1] ?? window.position;
+
+  return {
+    nextCursor: window.hasMore && last ? encodeCursor(last.createdAt, last.id, context) : undefined,
+    prevCursor: first ? encodeCursor(first.createdAt, first.id, context, true) : undefined
+  };
 }
 
-export function generateNextCursor(chronologicalItems: Comment[] | Reply[]): string | undefined {
-  if (chronologicalItems.length === 0) return undefined;
-  const lastItem = chronologicalItems[chronologicalItems.length - 1];
+export function generateNextScoreCursor(rankedItems: ScoredComment[], context: string): string | undefined {
+  const lastItem = rankedItems[rankedItems.length - 1];
   if (!lastItem) return undefined;
-  return encodeCursor(lastItem.createdAt, lastItem.id);
+  return encodeScoreCursor(lastItem.score, lastItem.id, context);
 }
 
-export function getTopComments(
-  comments: Comment[], 
-  limit: number, 
-  lastCursor?: string,
-  sort: string = 'ranked'
-): { comments: RankedComment[], nextCursor?: string | undefined, hasMore: boolean } {
-  // Keep chronological DB order for pagination
-  const hasMore = comments.length > limit;
-  const chronologicalSlice = comments.slice(0, limit);
-  
-  // Convert to RankedComment format 
-  const commentsWithMetadata = chronologicalSlice.map(comment => ({
+// Replies are paged per parent, so the cursor's context comes from the replies themselves
+export function replyCursorContext(parentId: string, order: PageOrder = 'newest'): string {
+  return cursorContext('replies', parentId, order);
+}
+
+export function generateNextReplyCursor(chronologicalReplies: Reply[]): string | undefined {
+  const lastReply = chronologicalReplies[chronologicalReplies.length - 1];
+  if (!lastReply) return undefined;
+  return encodeCursor(lastReply.createdAt, lastReply.id, replyCursorContext(lastReply.parentId ?? lastReply.commentId));
+}
+
+// Attach display metadata; scored comments keep the score they were ranked by
+export function toRankedComment(comment: Comment | ScoredComment): RankedComment {
+  return {
     ...comment,
     netScore: calculateNetScore(comment),
-    score: calculateCommentScore(comment),
+    score: 'score' in comment ? comment.score : calculateCommentScore(comment),
     timeAgo: formatTimeAgo(comment.createdAt)
-  }));
-
-  // Apply sorting - default is now ranked by score
-  let sortedComments = commentsWithMetadata;
-  if (sort === 'chronological') {
-    // Keep DB order when explicitly requested
-    sortedComments = commentsWithMetadata;
-  } else {
-    // Default: sort by score (ranked)
-    sortedComments = [...commentsWithMetadata].sort((a, b) => b.score - a.score);
+  };
+}
+
+// Cursors matching the index the page was read from; every sort except chronological walks
+// a score index, which only pages forward
+function cursorsFor(
+  window: PageWindow<Comment | ScoredComment>,
+  sort: string,
+  context: string
+): { nextCursor?: string | undefined, prevCursor?: string | undefined, hasPrev?: boolean | undefined } {
+  if (sort !== 'chronological') {
+    return { nextCursor: window.hasMore ? generateNextScoreCursor(window.items as ScoredComment[], context) : undefined };
   }
-  
+  return { ...generateTimeCursors(window, context), hasPrev: window.hasPrev };
+}
+
+// Feed pages leave the pinned comment out wherever the index would have put it, so rows are
+// read with one extra. On page one it takes one of the limit's slots when the viewer will see
+// it, keeping at least one indexed comment so the page still has a cursor to continue from.
+export function cutFeedPage<T extends Comment>(
+  rows: T[],
+  limit: number,
+  position: Partial<CursorInfo>,
+  pinned: Comment | null | undefined,
+  firstPage: boolean,
+  viewer?: Viewer
+): PageWindow<T> {
+  if (!pinned) return cutPage(rows, limit, position);
+
+  const rest = rows.filter(row => row.id.toString() !== pinned.id.toString());
+  const leads = firstPage && applyTombstones(applyVisibility([pinned], viewer)).length > 0;
+  return cutPage(rest, leads ? Math.max(limit - 1, 1) : limit, position);
+}
+
+// The pinned comment leads page one whatever the sort; cutFeedPage already left it out of
+// the indexed items
+function placePinned(pageItems: Comment[], pinned: Comment | null | undefined, lastCursor?: string): Comment[] {
+  return pinned && !lastCursor ? [pinned, ...pageItems] : pageItems;
+}
+
+// Pages arrive already ordered by the index they were read from: a strategy's score index
+// for ranked sorts, the time index for sort=chronological. No re-sorting happens here.
+export function getTopComments(
+  window: PageWindow<Comment | ScoredComment>,
+  cursorContext: string,
+  lastCursor?: string,
+  sort: string = 'ranked',
+  viewer?: Viewer,
+  pinned?: Comment | null
+): { comments: RankedComment[], nextCursor?: string | undefined, prevCursor?: string | undefined, hasMore: boolean, hasPrev?: boolean | undefined } {
+  const displayed = placePinned(window.items, pinned, lastCursor);
+
   return {
-    comments: sortedComments,
-    nextCursor: hasMore ? generateNextCursor(comments.slice(0, limit)) : undefined,
-    hasMore: hasMore
+    comments: applyTombstones(applyVisibility(displayed, viewer)).map(toRankedComment),
+    ...cursorsFor(window, sort, cursorContext),
+    hasMore: window.hasMore
   };
 }
 
+// Each comment's replies arrive as the newest replies_limit + 1 from the DB: the extra one
+// only signals has_more_replies, and replies_next_cursor continues from the oldest shown
+// reply via GET /api/comments/:id/replies
 export function getCommentsWithReplies(
-  comments: Comment[], 
-  replies: Reply[],
-  limit: number, 
-  repliesLimit: number, 
+  window: PageWindow<Comment | ScoredComment>,
+  repliesByComment: Map<string, Reply[]>,
+  repliesLimit: number,
+  cursorContext: string,
   lastCursor?: string,
-  sort: string = 'ranked'
-): { comments: RankedComment[], nextCursor?: string | undefined, hasMore: boolean } {
-  const hasMore = comments.length > limit;
-  const chronologicalSlice = comments.slice(0, limit);
-  
-  const commentsWithMetadata = chronologicalSlice.map(comment => ({
-    ...comment,
-    netScore: calculateNetScore(comment),
-    score: calculateCommentScore(comment),
-    timeAgo: formatTimeAgo(comment.createdAt)
-  }));
-  
-  let sortedComments = commentsWithMetadata;
-  if (sort === 'chronological') {
-    sortedComments = commentsWithMetadata;
-  } else {
-    sortedComments = [...commentsWithMetadata].sort((a, b) => b.score - a.score);
-  }
+  sort: string = 'ranked',
+  strategy?: RankingStrategy,
+  viewer?: Viewer,
+  pinned?: Comment | null
+): { comments: RankedComment[], nextCursor?: string | undefined, prevCursor?: string | undefined, hasMore: boolean, hasPrev?: boolean | undefined } {
+  const displayed = placePinned(window.items, pinned, lastCursor);
 
-  const commentsWithReplies = sortedComments.map(comment => {
-    const commentReplies = replies.filter(
-      r => r.commentId.toString() === comment.id.toString()
-    );
-    // Always rank replies within each comment for better UX
-    const rankedReplies = rankReplies(commentReplies);
-    const limitedReplies = rankedReplies.slice(0, repliesLimit);
+  const commentsWithReplies = applyTombstones(applyVisibility(displayed, viewer)).map(toRankedComment).map(comment => {
+    const fetched = repliesByComment.get(comment.id.toString()) ?? [];
+    const repliesPage = fetched.slice(0, repliesLimit);
+    const hasMoreReplies = fetched.length > repliesLimit;
 
     return {
       ...comment,
-      replies: limitedReplies
+      // Always rank replies within each comment for better UX
+      replies: rankReplies(applyReplyTombstones(applyVisibility(repliesPage, viewer)), strategy),
+      replies_next_cursor: hasMoreReplies ? generateNextReplyCursor(repliesPage) : undefined,
+      has_more_replies: hasMoreReplies
     };
   });
 
   return {
     comments: commentsWithReplies,
-    nextCursor: hasMore ? generateNextCursor(comments.slice(0, limit)) : undefined,
-    hasMore
+    ...cursorsFor(window, sort, cursorContext),
+    hasMore: window.hasMore
   };
 }
 
+// Cursors come from the page in time order, whatever order the replies are then shown in
 export function getRepliesWithCursor(
-  replies: Reply[],
-  limit: number,
-  lastCursor?: string
-): { replies: RankedReply[], nextCursor?: string | undefined, hasMore: boolean } {
-  const hasMore = replies.length > limit;
-  const chronologicalSlice = replies.slice(0, limit);
-  const repliesWithMetadata = chronologicalSlice.map(reply => ({
-    ...reply,
-    netScore: calculateNetScore(reply),
-    score: calculateReplyScore(reply),
-    timeAgo: formatTimeAgo(reply.createdAt)
-  }));
+  window: PageWindow<Reply>,
+  cursorContext: string,
+  viewer?: Viewer
+): { replies: RankedReply[], nextCursor?: string | undefined, prevCursor?: string | undefined, hasMore: boolean, hasPrev: boolean } {
+  const chronologicalSlice = applyReplyTombstones(applyVisibility(window.items, viewer));
+  const repliesWithMetadata = chronologicalSlice.map(reply => toRankedReply(reply));
 
   return {
     replies: repliesWithMetadata,
-    nextCursor: hasMore ? generateNextCursor(replies.slice(0, limit)) : undefined,
-    hasMore: hasMore
+    ...generateTimeCursors(window, cursorContext),
+    hasMore: window.hasMore,
+    hasPrev: window.hasPrev
   };
 }
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import { Comment, Reply } from '../models/comments';
+import { getRankingStrategy, hotScore, wilsonLowerBound } from './rankingStrategies';
+import { rankReplies, RECENCY_WINDOW_HOURS } from './ranking';
+
+// Every score is taken against this clock, never the real one
+const NOW = new Date('2025-07-31T12:00:00.000Z');
+const HOUR = 60 * 60 * 1000;
+
+const hoursAgo = (hours: number): Date => new Date(NOW.getTime() - hours * HOUR);
+
+const makeComment = (id: string, overrides: Partial<Comment> = {}): Comment => ({
+  id,
+  videoId: 'video_1',
+  userId: 'user_1',
+  content: `comment ${id}`,
+  likes: 0,
+  dislikes: 0,
+  createdAt: hoursAgo(48),
+  replyCount: 0,
+  edited: false,
+  deleted: false,
+  hidden: false,
+  held: false,
+  pinned: false,
+  heartedByCreator: false,
+  ...overrides
+});
+
+const makeReply = (id: string, overrides: Partial<Reply> = {}): Reply => ({
+  id,
+  commentId: 'comment_1',
+  depth: 1,
+  path: id,
+  userId: 'user_1',
+  content: `reply ${id}`,
+  likes: 0,
+  dislikes: 0,
+  createdAt: hoursAgo(48),
+  replyCount: 0,
+  edited: false,
+  deleted: false,
+  hidden: false,
+  held: false,
+  ...overrides
+});
+
+// Ids of the comments, highest score first under the strategy at the given time
+const orderBy = (strategyName: string, comments: Comment[], now: Date = NOW): string[] => {
+  const strategy = getRankingStrategy(strategyName);
+  return [...comments]
+    .sort((a, b) => strategy.scoreComment(b, now) - strategy.scoreComment(a, now))
+    .map(comment => comment.id);
+};
+
+describe('classic', () => {
+  const classic = getRankingStrategy('classic');
+
+  it('orders by net likes, then recency, then replies', () => {
+    const comments = [
+      makeComment('old-popular', { likes: 20, createdAt: hoursAgo(200) }),
+      makeComment('fresh', { likes: 2, createdAt: hoursAgo(0.5) }),
+      makeComment('discussed', { likes: 2, replyCount: 8 }),
+      makeComment('disliked', { likes: 1, dislikes: 30 })
+    ];
+
+    expect(orderBy('classic', comments)).toEqual(['old-popular', 'fresh', 'discussed', 'disliked']);
+  });
+
+  it('steps the recency bonus down as an item ages', () => {
+    const scoreAt = (hours: number): number => classic.scoreComment(makeComment('c', { createdAt: hoursAgo(hours) }), NOW);
+
+    expect([1, 6, 24, 168, RECENCY_WINDOW_HOURS, RECENCY_WINDOW_HOURS + 1].map(scoreAt)).toEqual([10, 8, 6, 4, 2, 0]);
+  });
+
+  it('decays the same item as the clock moves on', () => {
+    const comment = makeComment('c', { likes: 3, createdAt: NOW });
+    const later = (hours: number): Date => new Date(NOW.getTime() + hours * HOUR);
+
+    expect(classic.scoreComment(comment, NOW)).toBe(13);
+    expect(classic.scoreComment(comment, later(2))).toBe(11);
+    expect(classic.scoreComment(comment, later(RECENCY_WINDOW_HOURS + 1))).toBe(3);
+  });
+
+  it('lets a newer item overtake an older one with more likes', () => {
+    const comments = [
+      makeComment('older', { likes: 5, createdAt: hoursAgo(30) }),
+      makeComment('newer', { likes: 0, createdAt: hoursAgo(0.5) })
+    ];
+
+    expect(orderBy('classic', comments)).toEqual(['newer', 'older']);
+    expect(orderBy('classic', comments, new Date(NOW.getTime() + 200 * HOUR))).toEqual(['older', 'newer']);
+  });
+
+  it('caps the reply bonus and never goes below zero for net likes', () => {
+    expect(classic.scoreComment(makeComment('c', { replyCount: 100, createdAt: hoursAgo(1000) }), NOW)).toBe(5);
+    expect(classic.scoreComment(makeComment('c', { dislikes: 50, createdAt: hoursAgo(1000) }), NOW)).toBe(0);
+  });
+
+  it('scores replies without the reply bonus', () => {
+    expect(classic.scoreReply(makeReply('r', { likes: 4, replyCount: 10, createdAt: hoursAgo(3) }), NOW)).toBe(12);
+  });
+});
+
+describe('wilson', () => {
+  it('prefers a confident like ratio over a small perfect one', () => {
+    const comments = [
+      makeComment('one-vote', { likes: 1 }),
+      makeComment('many-votes', { likes: 90, dislikes: 10 }),
+      makeComment('mixed', { likes: 50, dislikes: 50 }),
+      makeComment('no-votes')
+    ];
+
+    expect(orderBy('wilson', comments)).toEqual(['many-votes', 'mixed', 'one-vote', 'no-votes']);
+  });
+
+  it('gives zero without votes and stays within 0..1', () => {
+    expect(wilsonLowerBound(0, 0)).toBe(0);
+    expect(wilsonLowerBound(1000, 0)).toBeLessThan(1);
+    expect(wilsonLowerBound(0, 1000)).toBeCloseTo(0, 10);
+  });
+
+  it('does not decay with time', () => {
+    const wilson = getRankingStrategy('wilson');
+    const comment = makeComment('c', { likes: 9, dislikes: 1 });
+
+    expect(wilson.timeDependent).toBe(false);
+    expect(wilson.scoreComment(comment, new Date(NOW.getTime() + 1000 * HOUR))).toBe(wilson.scoreComment(comment, NOW));
+  });
+});
+
+describe('hot', () => {
+  it('ranks newer items above older ones with the same votes', () => {
+    const comments = [
+      makeComment('day-old', { likes: 10, createdAt: hoursAgo(24) }),
+      makeComment('hour-old', { likes: 10, createdAt: hoursAgo(1) }),
+      makeComment('week-old', { likes: 10, createdAt: hoursAgo(168) })
+    ];
+
+    expect(orderBy('hot', comments)).toEqual(['hour-old', 'day-old', 'week-old']);
+  });
+
+  it('needs ten times the net votes to make up 12.5 hours of age', () => {
+    const older = hotScore(100, 0, hoursAgo(12.5));
+    const newer = hotScore(10, 0, NOW);
+
+    expect(older).toBeCloseTo(newer, 10);
+  });
+
+  it('pushes net-negative items down', () => {
+    const createdAt = hoursAgo(2);
+    expect(hotScore(0, 10, createdAt)).toBeLessThan(hotScore(0, 0, createdAt));
+    expect(hotScore(10, 0, createdAt)).toBeGreaterThan(hotScore(0, 0, createdAt));
+  });
+
+  it('depends on creation time only, not on the clock', () => {
+    const hot = getRankingStrategy('hot');
+    const comment = makeComment('c', { likes: 5 });
+
+    expect(hot.scoreComment(comment, new Date(NOW.getTime() + 1000 * HOUR))).toBe(hot.scoreComment(comment, NOW));
+  });
+});
+
+describe('controversial', () => {
+  it('prefers many votes split close to evenly', () => {
+    const comments = [
+      makeComment('lopsided', { likes: 100, dislikes: 5 }),
+      makeComment('even-small', { likes: 5, dislikes: 5 }),
+      makeComment('even-large', { likes: 50, dislikes: 48 }),
+      makeComment('one-sided', { likes: 500 })
+    ];
+
+    expect(orderBy('controversial', comments)).toEqual(['even-large', 'even-small', 'lopsided', 'one-sided']);
+  });
+
+  it('scores one-sided votes as zero', () => {
+    const controversial = getRankingStrategy('controversial');
+
+    expect(controversial.scoreComment(makeComment('c', { likes: 40 }), NOW)).toBe(0);
+    expect(controversial.scoreReply(makeReply('r', { dislikes: 40 }), NOW)).toBe(0);
+  });
+});
+
+describe('rankReplies', () => {
+  it('orders replies by the given strategy at the given time', () => {
+    const replies = [
+      makeReply('old', { likes: 3, createdAt: hoursAgo(100) }),
+      makeReply('new', { likes: 0, createdAt: hoursAgo(0.5) }),
+      makeReply('liked', { likes: 40, dislikes: 2 })
+    ];
+
+    expect(rankReplies(replies, getRankingStrategy('classic'), NOW).map(reply => reply.id)).toEqual(['liked', 'new', 'old']);
+    expect(rankReplies(replies, getRankingStrategy('wilson'), NOW).map(reply => reply.id)).toEqual(['liked', 'old', 'new']);
+  });
+});
@@ -0,0 +1,104 @@
+import { Comment, Reply } from '../models/comments';
+import { calculateCommentScore, calculateReplyScore } from './ranking';
+
+/**
+ * Ranking strategy registry
+ *
+ * Every strategy is a pure function of the item and an explicit clock, so the same
+ * inputs always produce the same score. `timeDependent` strategies change as items
+ * age and are re-scored by the periodic refresh job; the others only change on writes.
+ */
+
+export interface RankingStrategy {
+  name: string;
+  description: string;
+  timeDependent: boolean;
+  scoreComment(comment: Comment, now: Date): number;
+  scoreReply(reply: Reply, now: Date): number;
+}
+
+const strategies = new Map<string, RankingStrategy>();
+
+export function registerRankingStrategy(strategy: RankingStrategy): void {
+  strategies.set(strategy.name, strategy);
+}
+
+export function hasRankingStrategy(name: string): boolean {
+  return strategies.has(name);
+}
+
+export function getRankingStrategy(name: string): RankingStrategy {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown ranking strategy: ${name}`);
+  }
+  return strategy;
+}
+
+export function listRankingStrategies(): RankingStrategy[] {
+  return [...strategies.values()];
+}
+
+// Lower bound of the Wilson score interval for the like ratio (95% confidence)
+export function wilsonLowerBound(likes: number, dislikes: number, z: number = 1.96): number {
+  const n = likes + dislikes;
+  if (n === 0) return 0;
+
+  const phat = likes / n;
+  const z2 = z * z;
+  return (phat + z2 / (2 * n) - z * Math.sqrt((phat * (1 - phat) + z2 / (4 * n)) / n)) / (1 + z2 / n);
+}
+
+// Reddit "hot": log-scaled net votes plus a bonus that grows with creation time,
+// so newer items need fewer votes to outrank older ones
+const HOT_EPOCH_SECONDS = 1134028003;
+const HOT_DECAY_SECONDS = 45000;
+
+export function hotScore(likes: number, dislikes: number, createdAt: Date): number {
+  const net = likes - dislikes;
+  const order = Math.log10(Math.max(Math.abs(net), 1));
+  const sign = net > 0 ? 1 : net < 0 ? -1 : 0;
+  const seconds = createdAt.getTime() / 1000 - HOT_EPOCH_SECONDS;
+  return sign * order + seconds / HOT_DECAY_SECONDS;
+}
+
+// Reddit "controversial": lots of votes, split close to evenly
+export function controversialScore(likes: number, dislikes: number): number {
+  if (likes <= 0 || dislikes <= 0) return 0;
+
+  const magnitude = likes + dislikes;
+  const balance = likes > dislikes ? dislikes / likes : likes / dislikes;
+  return Math.pow(magnitude, balance);
+}
+
+registerRankingStrategy({
+  name: 'classic',
+  description: 'Net likes plus a stepped recency bonus and a capped reply bonus',
+  timeDependent: true,
+  scoreComment: (comment, now) => calculateCommentScore(comment, now),
+  scoreReply: (reply, now) => calculateReplyScore(reply, now)
+});
+
+registerRankingStrategy({
+  name: 'wilson',
+  description: 'Wilson lower-bound confidence of the like ratio',
+  timeDependent: false,
+  scoreComment: comment => wilsonLowerBound(comment.likes, comment.dislikes),
+  scoreReply: reply => wilsonLowerBound(reply.likes, reply.dislikes)
+});
+
+registerRankingStrategy({
+  name: 'hot',
+  description: 'Log-scaled net likes with a creation-time bonus (Reddit hot)',
+  timeDependent: false,
+  scoreComment: comment => hotScore(comment.likes, comment.dislikes, comment.createdAt),
+  scoreReply: reply => hotScore(reply.likes, reply.dislikes, reply.createdAt)
+});
+
+registerRankingStrategy({
+  name: 'controversial',
+  description: 'High engagement with likes and dislikes close to balanced',
+  timeDependent: false,
+  scoreComment: comment => controversialScore(comment.likes, comment.dislikes),
+  scoreReply: reply => controversialScore(reply.likes, reply.dislikes)
+});
@@ -0,0 +1,112 @@
+import { SearchClause, SearchHighlight, SearchToken } from '../models/search';
+
+/**
+ * Tokenizing, query parsing and matching for comment search
+ *
+ * Content and queries go through the same tokenizer: runs of letters and digits,
+ * lowercased with accents stripped, so "Café" finds "cafe". The index only narrows
+ * the candidates; every hit is confirmed here against the comment's own tokens.
+ */
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+/gu;
+
+const normalizeTerm = (word: string): string =>
+  word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Split text into normalized words, keeping their offsets in the original
+export function tokenize(text: string): SearchToken[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: normalizeTerm(match[0]),
+    start: match.index,
+    end: match.index + match[0].length
+  }));
+}
+
+// Index keys for a piece of content: every distinct word under each prefix from
+// minLength up to maxLength characters, or whole when shorter than minLength
+export function indexTerms(content: string, minLength: number, maxLength: number): string[] {
+  const keys = new Set<string>();
+  for (const { term } of tokenize(content)) {
+    const longest = Math.min(term.length, maxLength);
+    for (let length = Math.min(term.length, minLength); length <= longest; length++) {
+      keys.add(term.slice(0, length));
+    }
+  }
+  return [...keys];
+}
+
+// Index key to look a query term up under
+export function lookupKey(term: string, maxLength: number): string {
+  return term.slice(0, maxLength);
+}
+
+// Parse a query into clauses: "quoted phrases", bare words, and words ending in * as prefixes.
+// A bare word the tokenizer splits (e-mail, don't) is matched as a phrase.
+export function parseSearchQuery(query: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+  for (const match of query.matchAll(/"([^"]*)"?|(\S+)/g)) {
+    const phrase = match[1];
+    const word = match[2];
+    const prefix = word !== undefined && word.endsWith('*');
+    const terms = tokenize(phrase ?? word ?? '').map(token => token.term);
+    if (terms.length > 0) {
+      clauses.push({ terms, prefix });
+    }
+  }
+  return clauses;
+}
+
+// Spans of every occurrence of a clause in the tokens
+function matchClause(tokens: SearchToken[], clause: SearchClause): SearchHighlight[] {
+  const spans: SearchHighlight[] = [];
+  const last = clause.terms.length - 1;
+
+  for (let i = 0; i + last < tokens.length; i++) {
+    const matched = clause.terms.every((term, offset) => {
+      const token = tokens[i + offset] as SearchToken;
+      return offset === last && clause.prefix ? token.term.startsWith(term) : token.term === term;
+    });
+    if (matched) {
+      spans.push({ start: (tokens[i] as SearchToken).start, end: (tokens[i + last] as SearchToken).end });
+    }
+  }
+  return spans;
+}
+
+// Where content matches every clause, or null when any clause is missing
+export function matchSearchQuery(content: string, clauses: SearchClause[]): SearchHighlight[] | null {
+  const tokens = tokenize(content);
+  const spans: SearchHighlight[] = [];
+
+  for (const clause of clauses) {
+    const clauseSpans = matchClause(tokens, clause);
+    if (clauseSpans.length === 0) return null;
+    spans.push(...clauseSpans);
+  }
+
+  // Sorted and merged, so overlapping clauses highlight once
+  spans.sort((a, b) => a.start - b.start);
+  return spans.reduce<SearchHighlight[]>((merged, span) => {
+    const previous = merged[merged.length - 1];
+    if (previous && span.start <= previous.end) {
+      previous.end = Math.max(previous.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+    return merged;
+  }, []);
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+// Content as HTML with each highlight wrapped in <mark>
+export function highlightContent(content: string, highlights: SearchHighlight[]): string {
+  let html = '';
+  let position = 0;
+  for (const { start, end } of highlights) {
+    html += escapeHtml(content.slice(position, start)) + '<mark>' + escapeHtml(content.slice(start, end)) + '</mark>';
+    position = end;
+  }
+  return html + escapeHtml(content.slice(position));
+}
@@ -0,0 +1,85 @@
+import { RateLimitPolicy } from '../config/rateLimit';
+
+/**
+ * Token bucket arithmetic and the store interface rate limits are kept in.
+ *
+ * A bucket is just its token count and when that was last computed; refill is applied
+ * lazily on the next take, so idle buckets cost nothing. The in-process store only limits
+ * a single instance; the Scylla store in rateLimitService shares buckets across instances.
+ */
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until a request would be allowed again (0 when allowed)
+  retryAfterSeconds: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+}
+
+export interface RateLimitStore {
+  take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult>;
+}
+
+// Refill a bucket up to `now` and try to take one token from it
+export function takeToken(
+  state: BucketState | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { state: BucketState; result: RateLimitResult } {
+  const perSecond = policy.refillPerMinute / 60;
+  const elapsedSeconds = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state ? Math.min(policy.capacity, state.tokens + elapsedSeconds * perSecond) : policy.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: policy.capacity,
+      remaining: Math.floor(tokens),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / perSecond),
+      resetSeconds: Math.ceil((policy.capacity - tokens) / perSecond)
+    }
+  };
+}
+
+// Seconds until an untouched bucket is full again, after which its state can be forgotten
+export function bucketLifetimeSeconds(policy: RateLimitPolicy): number {
+  return Math.ceil(policy.capacity / (policy.refillPerMinute / 60));
+}
+
+// How often the in-memory store drops buckets that have refilled completely
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+  private lastSweep = 0;
+
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitResult> {
+    this.sweep(now);
+
+    const { state, result } = takeToken(this.buckets.get(key)?.state, policy, now);
+    this.buckets.set(key, { state, expiresAt: now + bucketLifetimeSeconds(policy) * 1000 });
+    return result;
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.expiresAt <= now) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { REACTION_TYPES, PAGE_ORDERS } from '../models/comments';
+import { hasRankingStrategy } from '../utils/rankingStrategies';
+import { threadConfig } from '../config/threads';
+
+/**
+ * Request schemas for every route in commentRoutes.ts
+ */
+
+export const MAX_PAGE_LIMIT = 100;
+export const MAX_REPLIES_LIMIT = 50;
+export const MAX_CONTENT_LENGTH = 10000;
+export const MAX_VIDEO_ID_LENGTH = 128;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const MAX_USER_ID_LENGTH = 128;
+
+export const COMMENT_TYPES = ['top', 'nested'] as const;
+export const SORT_TYPES = ['ranked', 'chronological'] as const;
+
+// 'ranked' uses the video's configured strategy; a strategy name picks one explicitly
+const sortSchema = z.string()
+  .refine(sort => (SORT_TYPES as readonly string[]).includes(sort) || hasRankingStrategy(sort), {
+    message: 'Must be ranked, chronological or a ranking strategy name'
+  })
+  .default('ranked');
+
+// Query values arrive as strings, so coerce and bound them
+const limitParam = (defaultValue: number, max: number) =>
+  z.coerce.number().int().min(1).max(max).default(defaultValue);
+
+const idSchema = z.guid({ message: 'Must be a valid UUID' });
+
+const videoIdSchema = z.string().trim().min(1).max(MAX_VIDEO_ID_LENGTH);
+
+const contentSchema = z.string().trim().min(1, 'Content cannot be empty').max(MAX_CONTENT_LENGTH);
+
+const cursorSchema = z.string().min(1).max(1024).optional();
+
+const orderSchema = z.enum(PAGE_ORDERS).default('newest');
+
+export const idParams = z.object({
+  id: idSchema
+});
+
+export const videoIdParams = z.object({
+  videoId: videoIdSchema
+});
+
+// order and since walk the time index, so they only go with sort=chronological; since takes
+// any cursor of the same query and returns what is newer than it
+export const getCommentsQuery = z.object({
+  type: z.enum(COMMENT_TYPES).optional(),
+  limit: limitParam(20, MAX_PAGE_LIMIT),
+  cursor: cursorSchema,
+  since: cursorSchema,
+  replies_limit: limitParam(5, MAX_REPLIES_LIMIT),
+  depth: limitParam(1, threadConfig.maxDepth),
+  sort: sortSchema,
+  order: orderSchema
+}).refine(query => query.sort === 'chronological' || (query.order === 'newest' && !query.since), {
+  message: 'order and since require sort=chronological',
+  path: ['sort']
+}).refine(query => !query.cursor || !query.since, {
+  message: 'Use either cursor or since, not both',
+  path: ['since']
+});
+
+export const getRepliesQuery = z.object({
+  limit: limitParam(10, MAX_PAGE_LIMIT),
+  cursor: cursorSchema,
+  order: orderSchema
+});
+
+export const getThreadQuery = z.object({
+  limit: limitParam(10, MAX_PAGE_LIMIT),
+  cursor: cursorSchema,
+  replies_limit: limitParam(5, MAX_REPLIES_LIMIT),
+  max_depth: limitParam(Math.min(threadConfig.defaultThreadDepth, threadConfig.maxDepth), threadConfig.maxDepth)
+});
+
+// from/to bound created_at (inclusive); author is a user id
+export const searchCommentsQuery = z.object({
+  q: z.string().trim().min(1, 'Search query cannot be empty').max(MAX_SEARCH_QUERY_LENGTH),
+  limit: limitParam(20, MAX_PAGE_LIMIT),
+  cursor: cursorSchema,
+  author: z.string().trim().min(1).max(MAX_USER_ID_LENGTH).optional(),
+  from: z.iso.datetime({ offset: true }).transform(value => new Date(value)).optional(),
+  to: z.iso.datetime({ offset: true }).transform(value => new Date(value)).optional()
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'from must not be after to',
+  path: ['from']
+});
+
+export const streamQuery = z.object({
+  cursor: cursorSchema
+});
+
+export const createCommentBody = z.object({
+  videoId: videoIdSchema,
+  content: contentSchema
+});
+
+export const createReplyBody = z.object({
+  content: contentSchema
+});
+
+export const updateContentBody = z.object({
+  content: contentSchema
+});
+
+export const reactionBody = z.object({
+  reaction: z.enum(REACTION_TYPES)
+});
+
+export type IdParams = z.infer<typeof idParams>;
+export type VideoIdParams = z.infer<typeof videoIdParams>;
+export type GetCommentsQuery = z.infer<typeof getCommentsQuery>;
+export type GetRepliesQuery = z.infer<typeof getRepliesQuery>;
+export type GetThreadQuery = z.infer<typeof getThreadQuery>;
+export type SearchCommentsQuery = z.infer<typeof searchCommentsQuery>;
+export type StreamQuery = z.infer<typeof streamQuery>;
+export type CreateCommentBody = z.infer<typeof createCommentBody>;
+export type CreateReplyBody = z.infer<typeof createReplyBody>;
+export type UpdateContentBody = z.infer<typeof updateContentBody>;
+export type ReactionBody = z.infer<typeof reactionBody>;
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { REPORT_REASONS, MODERATION_ACTIONS } from '../models/moderation';
+import { MAX_PAGE_LIMIT } from './commentSchemas';
+
+/**
+ * Request schemas for the report and moderation routes (ids reuse idParams/videoIdParams)
+ */
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+export const reportBody = z.object({
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().trim().max(MAX_REPORT_DETAILS_LENGTH).optional()
+});
+
+export const moderateBody = z.object({
+  action: z.enum(MODERATION_ACTIONS),
+  // Recorded with a ban
+  reason: z.string().trim().max(MAX_REPORT_DETAILS_LENGTH).optional()
+});
+
+export const getReportsQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(20),
+  cursor: z.string().min(1).max(1024).optional()
+});
+
+export type ReportBody = z.infer<typeof reportBody>;
+export type ModerateBody = z.infer<typeof moderateBody>;
+export type GetReportsQuery = z.infer<typeof getReportsQuery>;
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { hasRankingStrategy } from '../utils/rankingStrategies';
+
+/**
+ * Request schemas for the video and channel settings routes (video params reuse videoIdParams)
+ */
+
+export const MAX_CHANNEL_ID_LENGTH = 128;
+export const MAX_OWNER_ID_LENGTH = 128;
+
+const channelIdSchema = z.string().trim().min(1).max(MAX_CHANNEL_ID_LENGTH);
+const ownerIdSchema = z.string().trim().min(1).max(MAX_OWNER_ID_LENGTH);
+
+// null clears the setting so it falls back to the channel or the default
+const rankingStrategySchema = z.string()
+  .refine(hasRankingStrategy, { message: 'Unknown ranking strategy' })
+  .nullable()
+  .optional();
+
+export const channelSettingsParams = z.object({
+  channelId: channelIdSchema
+});
+
+export const updateVideoSettingsBody = z.object({
+  channelId: channelIdSchema.nullable().optional(),
+  rankingStrategy: rankingStrategySchema,
+  ownerId: ownerIdSchema.nullable().optional()
+});
+
+export const updateChannelSettingsBody = z.object({
+  rankingStrategy: rankingStrategySchema
+});
+
+export type ChannelSettingsParams = z.infer<typeof channelSettingsParams>;
+export type UpdateVideoSettingsBody = z.infer<typeof updateVideoSettingsBody>;
+export type UpdateChannelSettingsBody = z.infer<typeof updateChannelSettingsBody>;
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { MAX_PAGE_LIMIT, MAX_USER_ID_LENGTH } from './commentSchemas';
+
+/**
+ * Request schemas for the user routes
+ */
+
+export const userIdParams = z.object({
+  userId: z.string().trim().min(1).max(MAX_USER_ID_LENGTH)
+});
+
+export const getUserContentQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(20),
+  cursor: z.string().min(1).max(1024).optional()
+});
+
+export type UserIdParams = z.infer<typeof userIdParams>;
+export type GetUserContentQuery = z.infer<typeof getUserContentQuery>;